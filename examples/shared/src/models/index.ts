@@ -9,14 +9,15 @@ export const userModel = z.object({
 
 export const productModel = z.object({
   id: z.string(),
-  name: z.string(),
+  // Hints for the generated mock data, `name` alone would get a person's name
+  name: z.string().meta({ mock: 'commerce.productName' }),
   price: z.number(),
   stock: z.number(),
 })
 
 export const chatMessageModel = z.object({
   id: z.string(),
-  user: z.string(),
+  user: z.string().meta({ mock: 'person.firstName' }),
   message: z.string(),
   timestamp: z.string(),
 })
@@ -2,6 +2,7 @@ import {
   defineDelete,
   defineGet,
   defineJSONStream,
+  definePaginated,
   definePatch,
   definePost,
   definePut,
@@ -20,15 +21,18 @@ import {
 // Define all HTTP methods
 export const apiSchema = {
   // GET - Retrieve data
-  getUsers: defineGet('/users', {
-    input: {
-      query: {
-        page: z.coerce.number().optional(),
-        limit: z.coerce.number().optional(),
+  getUsers: definePaginated(
+    defineGet('/users', {
+      input: {
+        query: {
+          page: z.coerce.number().optional(),
+          limit: z.coerce.number().optional(),
+        },
       },
-    },
-    response: z.array(userModel),
-  }),
+      response: z.array(userModel),
+    }),
+    { style: 'page', page: 'page', limit: 'limit' },
+  ),
 
   getUser: defineGet('/users/:id', {
     response: userModel,
@@ -1,95 +1,57 @@
 import { serve } from '@hono/node-server'
 import { createNodeWebSocket } from '@hono/node-ws'
-import { createMockServer } from 'mock-dash'
-import { zocker } from 'zocker'
+import { createMockServer, defineCollection } from 'mock-dash'
+import { productModel, userModel } from '../models'
 import { apiSchema } from '../schemas'
 
-// Mock data storage
-const users = [
-  {
-    id: '1',
-    name: 'John Doe',
-    email: 'john@example.com',
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    name: 'Jane Smith',
-    email: 'jane@example.com',
-    createdAt: new Date().toISOString(),
-  },
-]
-
-const products = [
-  { id: '1', name: 'Laptop', price: 999.99, stock: 10 },
-  { id: '2', name: 'Mouse', price: 29.99, stock: 50 },
-  { id: '3', name: 'Keyboard', price: 79.99, stock: 25 },
-]
-
-// Define mock responses for GET endpoints
-apiSchema.getUsers.defineMock((ctx) => {
-  const page = ctx.inputs.query?.page || 1
-  const limit = ctx.inputs.query?.limit || 10
-  return users.slice((page - 1) * limit, page * limit)
+// Mock data storage, reset every time the mock server is created
+const users = defineCollection(userModel, {
+  seed: [
+    {
+      id: '1',
+      name: 'John Doe',
+      email: 'john@example.com',
+      createdAt: new Date().toISOString(),
+    },
+    {
+      id: '2',
+      name: 'Jane Smith',
+      email: 'jane@example.com',
+      createdAt: new Date().toISOString(),
+    },
+  ],
 })
 
-apiSchema.getUser.defineMock((ctx) => {
-  const user = users.find((u) => u.id === ctx.inputs.param.id)
-  if (!user) throw new Error('User not found')
-  return user
+const products = defineCollection(productModel, {
+  seed: [
+    { id: '1', name: 'Laptop', price: 999.99, stock: 10 },
+    { id: '2', name: 'Mouse', price: 29.99, stock: 50 },
+    { id: '3', name: 'Keyboard', price: 79.99, stock: 25 },
+  ],
 })
 
 // Define mock responses for POST (Create)
-apiSchema.createUser.defineMock((ctx) => {
-  const newUser = {
-    id: String(Math.random()),
-    name: ctx.inputs.json.name,
-    email: ctx.inputs.json.email,
-    createdAt: new Date().toISOString(),
-  }
-  users.push(newUser)
-  return newUser
-})
-
-// Define mock responses for PUT (Full update)
-apiSchema.updateUserFull.defineMock((ctx) => {
-  const user = users.find((u) => u.id === ctx.inputs.param.id)
-  if (!user) throw new Error('User not found')
-  user.name = ctx.inputs.json.name
-  user.email = ctx.inputs.json.email
-  return user
-})
-
-// Define mock responses for PATCH (Partial update)
-apiSchema.updateUserPartial.defineMock((ctx) => {
-  const user = users.find((u) => u.id === ctx.inputs.param.id)
-  if (!user) throw new Error('User not found')
-  if (ctx.inputs.json.name !== undefined) user.name = ctx.inputs.json.name
-  if (ctx.inputs.json.email !== undefined) user.email = ctx.inputs.json.email
-  return user
-})
+apiSchema.createUser.defineMock((ctx) =>
+  users.insert({ ...ctx.inputs.json, createdAt: new Date().toISOString() }),
+)
 
 // Define mock responses for DELETE
 apiSchema.deleteUser.defineMock((ctx) => {
-  const index = users.findIndex((u) => u.id === ctx.inputs.param.id)
-  if (index === -1) throw new Error('User not found')
-  users.splice(index, 1)
+  users.remove(ctx.inputs.param.id)
   return { success: true, message: `User ${ctx.inputs.param.id} deleted` }
 })
 
-// Products mock responses
-apiSchema.getProducts.defineMock(() => products)
+// GET lists (sliced to the requested page), GET by id, PUT (Full update) and
+// PATCH (Partial update) map directly onto the collection
+users.bind(
+  apiSchema.getUsers,
+  apiSchema.getUser,
+  apiSchema.updateUserFull,
+  apiSchema.updateUserPartial,
+)
 
-apiSchema.createProduct.defineMock((ctx) => {
-  const newProduct = {
-    id: String(Math.random()),
-    name: ctx.inputs.json.name,
-    price: ctx.inputs.json.price,
-    stock: ctx.inputs.json.stock,
-  }
-  products.push(newProduct)
-  return newProduct
-})
+// Products mock responses
+products.bind(apiSchema.getProducts, apiSchema.createProduct)
 
 // Server-Sent Events (SSE) - Stream data
 apiSchema.streamEvents.defineMock(async ({ stream }) => {
@@ -153,12 +115,13 @@ apiSchema.metricsSocket.defineMock(() => {
   }
 })
 
-const { app, injectWebSocket } = createMockServer(apiSchema, {
-  // @ts-expect-error zocker types are not aligned with zod types
-  zodToMock: (s) => zocker(s).generate(),
-  base: '/api',
-  createNodeWebSocket,
-})
+const { app, injectWebSocket } = createMockServer(
+  { users, products, ...apiSchema },
+  {
+    base: '/api',
+    createNodeWebSocket,
+  },
+)
 
 const port = process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 3001
 const server = serve({
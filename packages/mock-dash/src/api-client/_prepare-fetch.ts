@@ -12,13 +12,40 @@ import {
   NetworkError,
   ValidationError,
 } from '../utils/errors'
-import { buildFormData, serializeQueryParams } from '../utils/request-utils'
+import {
+  buildFormData,
+  serializeCookies,
+  serializeHeaders,
+  serializeQueryParams,
+} from '../utils/request-utils'
+import { fetchWithAuth, resolveAuthScheme } from './auth'
 import type {
   CreateApiClientArgs,
   EndpointArgs,
   FetchOptions,
 } from './client-base'
 import type { InterceptorContext, InterceptorManager } from './interceptor'
+import { getRetryDelay, resolveRetryPolicy, waitForRetry } from './retry'
+import {
+  createRequestTimeout,
+  createTimeoutError,
+  type RequestTimeout,
+  raceSignal,
+} from './timeout'
+
+/** Reads the body of a non-2xx response, falling back to its text */
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    return await response.json()
+  } catch {
+    try {
+      const text = await response.text()
+      return text ? { message: text } : { message: 'Unknown error' }
+    } catch {
+      return { message: 'Unknown error' }
+    }
+  }
+}
 
 /**
  * @internal
@@ -41,11 +68,14 @@ export async function _prepareFetch<T extends Endpoint<any>>(
   | {
       fullUrl: string
       response: Response
+      /** Still running timeout, reading the body must be raced against its signal */
+      timeout?: RequestTimeout
       error?: never
     }
   | {
       fullUrl: string
       response?: Response
+      timeout?: never
       error: Errors
     }
 > {
@@ -57,6 +87,11 @@ export async function _prepareFetch<T extends Endpoint<any>>(
     form,
     json,
     query,
+    header,
+    cookie,
+    retry,
+    timeout: localTimeout,
+    queryCache: _queryCache,
     ...restInputData
   } = inputData || {}
 
@@ -75,6 +110,8 @@ export async function _prepareFetch<T extends Endpoint<any>>(
   let queryParams = query
   let jsonBody = json
   let formBody = form
+  let headerInput = header
+  let cookieInput = cookie
 
   if (endpoint.input) {
     if (endpoint.input.query) {
@@ -135,6 +172,46 @@ export async function _prepareFetch<T extends Endpoint<any>>(
       }
       formBody = result.data
     }
+
+    if (endpoint.input.header) {
+      const headerSchema = z.object(endpoint.input.header)
+      const result = headerSchema.safeParse(headerInput || {})
+      if (!result.success) {
+        return {
+          fullUrl,
+          error: new ValidationError(
+            'Invalid headers',
+            result.error,
+            'request',
+            {
+              url: fullUrl,
+              method: endpoint.method.toUpperCase(),
+            },
+          ),
+        }
+      }
+      headerInput = result.data
+    }
+
+    if (endpoint.input.cookie) {
+      const cookieSchema = z.object(endpoint.input.cookie)
+      const result = cookieSchema.safeParse(cookieInput || {})
+      if (!result.success) {
+        return {
+          fullUrl,
+          error: new ValidationError(
+            'Invalid cookies',
+            result.error,
+            'request',
+            {
+              url: fullUrl,
+              method: endpoint.method.toUpperCase(),
+            },
+          ),
+        }
+      }
+      cookieInput = result.data
+    }
   }
 
   // Handle query parameters
@@ -145,12 +222,15 @@ export async function _prepareFetch<T extends Endpoint<any>>(
     }
   }
 
+  const cookieHeader = cookieInput && serializeCookies(cookieInput)
   const headers = {
     // Set 'Content-Type': 'application/json' by default
     // It will be removed for FormData later if needed
     'Content-Type': 'application/json',
     Accept: '*/*',
     ...requestOptions.headers,
+    ...serializeHeaders(headerInput ?? {}),
+    ...(cookieHeader && { Cookie: cookieHeader }),
     ...customHeaders,
   } satisfies HeadersInit
 
@@ -163,8 +243,16 @@ export async function _prepareFetch<T extends Endpoint<any>>(
     headers.Accept = endpoint.response.contentType
   }
 
-  let options: RequestInit = {
-    ...requestOptions,
+  const {
+    retry: clientRetry,
+    timeout: clientTimeout,
+    queryCache: _clientQueryCache,
+    WebSocket: _clientWebSocket,
+    auth,
+    ...fetchOptions
+  } = requestOptions
+  const baseOptions: RequestInit = {
+    ...fetchOptions,
     ...restInputData,
     method: endpoint.method.toUpperCase(),
     headers,
@@ -173,88 +261,171 @@ export async function _prepareFetch<T extends Endpoint<any>>(
   // Handle request body
   if (endpoint.method !== 'get') {
     if (jsonBody) {
-      options.body = JSON.stringify(jsonBody)
+      baseOptions.body = JSON.stringify(jsonBody)
     } else if (formBody) {
       // Remove Content-Type to let browser set it for FormData
       delete (headers as Record<string, string>)['Content-Type']
-      options.body = buildFormData(formBody)
+      baseOptions.body = buildFormData(formBody)
     }
   }
 
-  // Prepare the interceptor context
-  const context: InterceptorContext = {
-    method: endpoint.method,
-    path: fullUrl,
-  }
-
-  // Apply local request interceptor if provided
-  if (localTransformRequest) {
-    options = await localTransformRequest(context, options)
+  const toNetworkError = (error: unknown) => {
+    if (error instanceof NetworkError) return error
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      return new NetworkError(`Network request failed: ${error.message}`, {
+        url: fullUrl,
+        method: endpoint.method.toUpperCase(),
+        cause: error,
+      })
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new NetworkError('Request timeout', {
+        url: fullUrl,
+        method: endpoint.method.toUpperCase(),
+        timeout: true,
+        cause: error,
+      })
+    }
+    return new NetworkError(
+      `Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      {
+        url: fullUrl,
+        method: endpoint.method.toUpperCase(),
+        cause: error instanceof Error ? error : undefined,
+      },
+    )
   }
 
-  // Apply global request interceptors
-  options = await interceptors.request.runAll(context, options)
+  const retryPolicy = resolveRetryPolicy(clientRetry, retry, endpoint.method)
+  const fetchFn = localFetch || requestOptions.fetch || fetch
+  const timeout = localTimeout ?? clientTimeout
+  const authScheme = resolveAuthScheme(endpoint, auth)
 
   let response: Response
-  try {
-    const fetchFn = localFetch || requestOptions.fetch || fetch
-    response = await fetchFn(new Request(fullUrl, options))
-  } catch (error) {
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      return {
-        fullUrl,
-        error: new NetworkError(`Network request failed: ${error.message}`, {
-          url: fullUrl,
-          method: endpoint.method.toUpperCase(),
-          cause: error,
-        }),
-      }
+  let requestTimeout: RequestTimeout | undefined
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = retryPolicy !== undefined && attempt < retryPolicy.attempts
+
+    // Prepare the interceptor context
+    const context: InterceptorContext = {
+      method: endpoint.method,
+      path: fullUrl,
+      attempt,
     }
-    if (error instanceof Error && error.name === 'AbortError') {
-      return {
-        fullUrl,
-        error: new NetworkError('Request timeout', {
-          url: fullUrl,
-          method: endpoint.method.toUpperCase(),
-          timeout: true,
-          cause: error,
-        }),
+
+    // Interceptors of every attempt start from the original options
+    let options: RequestInit = { ...baseOptions, headers: { ...headers } }
+
+    // Apply local request interceptor if provided
+    if (localTransformRequest) {
+      options = await localTransformRequest(context, options)
+    }
+
+    // Apply global request interceptors
+    options = await interceptors.request.runAll(context, options)
+
+    // Waits before the next attempt, unless the request is aborted meanwhile
+    const waitForNextAttempt = (delay: number) =>
+      waitForRetry(delay, options.signal).then(() => undefined, toNetworkError)
+
+    // Every attempt gets the full timeout
+    requestTimeout = timeout
+      ? createRequestTimeout(timeout, options.signal, () =>
+          createTimeoutError('Request timed out', timeout, {
+            url: fullUrl,
+            method: endpoint.method.toUpperCase(),
+          }),
+        )
+      : undefined
+
+    try {
+      response = await raceSignal(
+        fetchWithAuth(
+          fetchFn,
+          fullUrl,
+          { ...options, signal: requestTimeout?.signal ?? options.signal },
+          authScheme,
+          auth,
+        ),
+        requestTimeout?.signal,
+      )
+    } catch (error) {
+      requestTimeout?.clear()
+
+      // Handle network errors
+      const networkError = toNetworkError(error)
+      const retryable = networkError.timeout
+        ? retryPolicy?.timeouts && !options.signal?.aborted
+        : retryPolicy?.networkErrors
+      if (!canRetry || !retryable) {
+        return { fullUrl, error: networkError }
       }
+
+      const abortError = await waitForNextAttempt(
+        getRetryDelay(retryPolicy, attempt),
+      )
+      if (abortError) return { fullUrl, error: abortError }
+      continue
     }
-    return {
-      fullUrl,
-      error: new NetworkError(
-        `Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        {
-          url: fullUrl,
-          method: endpoint.method.toUpperCase(),
-          cause: error instanceof Error ? error : undefined,
-        },
-      ),
+
+    // Apply local response interceptor if provided
+    if (localTransformResponse) {
+      response = await localTransformResponse(context, response)
     }
-  }
 
-  // Apply local response interceptor if provided
-  if (localTransformResponse) {
-    response = await localTransformResponse(context, response)
-  }
+    // Apply global response interceptors
+    response = await interceptors.response.runAll(context, response)
 
-  // Apply global response interceptors
-  response = await interceptors.response.runAll(context, response)
+    if (
+      response.ok ||
+      !canRetry ||
+      !retryPolicy.statuses.includes(response.status)
+    ) {
+      break
+    }
+
+    requestTimeout?.clear()
+    const delay = getRetryDelay(retryPolicy, attempt, response)
+    await response.body?.cancel().catch(() => {})
+    const abortError = await waitForNextAttempt(delay)
+    if (abortError) return { fullUrl, error: abortError }
+  }
 
   // Handle non-2xx responses
   if (!response.ok) {
     let errorBody: unknown
     try {
-      errorBody = await response.json()
-    } catch {
-      try {
-        const text = await response.text()
-        errorBody = text ? { message: text } : { message: 'Unknown error' }
-      } catch {
-        errorBody = { message: 'Unknown error' }
+      errorBody = await raceSignal(
+        readErrorBody(response),
+        requestTimeout?.signal,
+      )
+    } catch (error) {
+      return { fullUrl, response, error: toNetworkError(error) }
+    } finally {
+      requestTimeout?.clear()
+    }
+
+    // Validate the body against the error schema declared for the status
+    const errorSchema = endpoint.errors?.[response.status]
+    if (errorSchema) {
+      const result = errorSchema.safeParse(errorBody)
+      if (!result.success) {
+        return {
+          fullUrl,
+          error: new ValidationError(
+            'Error response validation failed',
+            result.error,
+            'response',
+            {
+              status: response.status,
+              body: errorBody,
+              url: fullUrl,
+              method: endpoint.method.toUpperCase(),
+            },
+          ),
+        }
       }
+      errorBody = result.data
     }
 
     return {
@@ -271,5 +442,5 @@ export async function _prepareFetch<T extends Endpoint<any>>(
     }
   }
 
-  return { fullUrl, response }
+  return { fullUrl, response, timeout: requestTimeout }
 }
@@ -6,11 +6,13 @@ import { isWebSocketEndpoint } from '../endpoint/ws-endpoint'
 import { buildEndpointPath } from '../utils/build-endpoint-path'
 import { toCamelCase } from '../utils/to-camel-case'
 import type { EmptyObjectIsNever, RemoveNever } from '../utils/types'
+import { withCallKey, withNodePath } from './call-key'
 import type { CreateApiClientArgs, FetchOptions } from './client-base'
 import type { Client } from './client-type'
 import { callHttpEndpoint } from './http-call'
 import type { InferClient } from './infer-type'
 import { InterceptorManager } from './interceptor'
+import { QueryCache } from './query-cache'
 import { callStreamEndpoint } from './stream-call'
 import { callWebSocketEndpoint } from './ws-call'
 
@@ -79,36 +81,51 @@ function buildApiClientFromTree(
     request: InterceptorManager<FetchOptions>
     response: InterceptorManager<Response>
   },
+  queryCache: QueryCache,
   pathParams: Record<string, string> = {},
+  path = '',
 ): Record<string, any> {
   const clientNode: Record<string, any> = {}
 
   for (const endpoint of node.endpoints) {
     if (isHttpEndpoint(endpoint)) {
-      clientNode[endpoint.method] = callHttpEndpoint(
-        pathParams,
+      clientNode[endpoint.method] = withCallKey(
+        callHttpEndpoint(
+          pathParams,
+          endpoint,
+          requestOptions,
+          interceptors,
+          queryCache,
+        ),
         endpoint,
-        requestOptions,
-        interceptors,
+        pathParams,
       )
     } else if (isStreamEndpoint(endpoint)) {
       clientNode[endpoint.method] = {
         ...clientNode[endpoint.method],
-        $stream: callStreamEndpoint(
-          pathParams,
+        $stream: withCallKey(
+          callStreamEndpoint(
+            pathParams,
+            endpoint,
+            requestOptions,
+            interceptors,
+          ),
           endpoint,
-          requestOptions,
-          interceptors,
+          pathParams,
         ),
       }
     } else if (isWebSocketEndpoint(endpoint)) {
       clientNode[endpoint.method] = {
         ...clientNode[endpoint.method],
-        $ws: callWebSocketEndpoint(
-          pathParams,
+        $ws: withCallKey(
+          callWebSocketEndpoint(
+            pathParams,
+            endpoint,
+            requestOptions,
+            interceptors,
+          ),
           endpoint,
-          requestOptions,
-          interceptors,
+          pathParams,
         ),
       }
     } else if (endpoint instanceof Endpoint) {
@@ -121,30 +138,39 @@ function buildApiClientFromTree(
     const clientKey = toCamelCase(key)
 
     if (childNode.segmentType === 'resource') {
-      clientNode[clientKey] = {
-        ...clientNode[clientKey],
-        ...buildApiClientFromTree(
-          childNode,
-          requestOptions,
-          interceptors,
-          pathParams,
-        ),
-      }
+      const resourcePath = `${path}/${key}`
+      clientNode[clientKey] = withNodePath(
+        {
+          ...clientNode[clientKey],
+          ...buildApiClientFromTree(
+            childNode,
+            requestOptions,
+            interceptors,
+            queryCache,
+            pathParams,
+            resourcePath,
+          ),
+        },
+        resourcePath,
+      )
     } else if (childNode.segmentType === 'param') {
-      clientNode[clientKey] = (paramValue: string) => {
+      const paramPath = `${path}/:${key}`
+      clientNode[clientKey] = withNodePath((paramValue: string) => {
         const newParams = { ...pathParams, [key]: paramValue }
 
         return buildApiClientFromTree(
           childNode,
           requestOptions,
           interceptors,
+          queryCache,
           newParams,
+          paramPath,
         )
-      }
+      }, paramPath)
     }
   }
 
-  return clientNode
+  return withNodePath(clientNode, path)
 }
 
 export function createApiClient<ApiSchema extends Record<string, unknown>>(
@@ -156,6 +182,7 @@ export function createApiClient<ApiSchema extends Record<string, unknown>>(
     request: InterceptorManager<FetchOptions>
     response: InterceptorManager<Response>
   }
+  queryCache: QueryCache<ApiSchema>
   createEndpointUri: <P extends EndpointPath>(
     path: P,
     ...args: EmptyObjectIsNever<
@@ -177,6 +204,8 @@ export function createApiClient<ApiSchema extends Record<string, unknown>>(
 
   if (transformResponse) interceptors.response.addInterceptor(transformResponse)
 
+  const queryCache = new QueryCache<ApiSchema>(requestOptions.queryCache)
+
   const endpoints = Object.values(apiSchema).filter(
     (e): e is Endpoint => e instanceof Endpoint,
   )
@@ -186,12 +215,14 @@ export function createApiClient<ApiSchema extends Record<string, unknown>>(
     pathTree,
     requestOptions,
     interceptors,
+    queryCache,
     {},
   ) as Client<ApiSchema>
 
   return {
     api,
     interceptors,
+    queryCache,
     infer: {} as InferClient<ApiSchema>,
     createEndpointUri: (path, ...args) => {
       const param = (args[0] || {}) as Record<string, string>
@@ -0,0 +1,152 @@
+import type { AuthScheme } from '../endpoint/auth'
+import type { Endpoint } from '../endpoint/endpoint'
+import type { MaybePromise } from '../utils/types'
+
+/** A token, key or cookie value, or the username and password of basic auth */
+export type ClientCredentials =
+  | string
+  | { readonly username: string; readonly password: string }
+
+export type ClientAuthOptions = {
+  /** Scheme of endpoints without an `auth` option */
+  readonly scheme?: AuthScheme
+  /** Provides the credentials of every request, `undefined` sends it without */
+  readonly getCredentials: (
+    scheme: AuthScheme,
+  ) => MaybePromise<ClientCredentials | undefined>
+  /**
+   * Renews the credentials after a 401 response, then the request is sent
+   * once more. Concurrent 401s share one refresh; when it rejects, the
+   * requests fail with their 401.
+   */
+  readonly refresh?: () => Promise<unknown>
+}
+
+type RefreshState = {
+  /** Incremented by every settled refresh */
+  generation: number
+  /** Whether the last settled refresh rejected */
+  failed: boolean
+  pending?: Promise<void>
+}
+
+// Keyed by the options, so clients sharing them share their refreshes
+const refreshStates = new WeakMap<ClientAuthOptions, RefreshState>()
+
+function getRefreshState(auth: ClientAuthOptions) {
+  let state = refreshStates.get(auth)
+  if (!state) {
+    state = { generation: 0, failed: false }
+    refreshStates.set(auth, state)
+  }
+  return state
+}
+
+function settle(state: RefreshState, failed: boolean) {
+  state.generation++
+  state.failed = failed
+  state.pending = undefined
+}
+
+function toBase64(value: string) {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+}
+
+function authorize(
+  url: string,
+  init: RequestInit,
+  scheme: AuthScheme,
+  credentials: ClientCredentials | undefined,
+): [string, RequestInit] {
+  if (credentials === undefined) return [url, init]
+
+  const headers = new Headers(init.headers)
+  const secret =
+    typeof credentials === 'string'
+      ? credentials
+      : `${credentials.username}:${credentials.password}`
+
+  switch (scheme.type) {
+    case 'bearer':
+      headers.set('Authorization', `Bearer ${secret}`)
+      break
+    case 'basic':
+      headers.set(
+        'Authorization',
+        // A string is taken as already encoded
+        `Basic ${typeof credentials === 'string' ? secret : toBase64(secret)}`,
+      )
+      break
+    case 'apiKey':
+      if (scheme.in === 'header') {
+        headers.set(scheme.name, secret)
+      } else {
+        const separator = url.includes('?') ? '&' : '?'
+        url += `${separator}${encodeURIComponent(scheme.name)}=${encodeURIComponent(secret)}`
+      }
+      break
+    case 'cookie': {
+      const cookie = `${scheme.name}=${encodeURIComponent(secret)}`
+      const existing = headers.get('Cookie')
+      headers.set('Cookie', existing ? `${existing}; ${cookie}` : cookie)
+      break
+    }
+  }
+
+  return [url, { ...init, headers }]
+}
+
+/**
+ * @internal
+ * The scheme of an endpoint: its own `auth` option, falling back to the scheme
+ * of the client.
+ */
+export function resolveAuthScheme(
+  endpoint: Endpoint,
+  auth: ClientAuthOptions | undefined,
+): AuthScheme | undefined {
+  const endpointAuth = endpoint.options?.auth
+  if (endpointAuth === false) return undefined
+  return endpointAuth ?? auth?.scheme
+}
+
+/**
+ * @internal
+ * Sends a request with the credentials of `auth`. A 401 response refreshes the
+ * credentials, once for all requests failing meanwhile, and sends the request
+ * again.
+ */
+export async function fetchWithAuth(
+  fetchFn: (input: Request) => Response | Promise<Response>,
+  url: string,
+  init: RequestInit,
+  scheme: AuthScheme | undefined,
+  auth: ClientAuthOptions | undefined,
+): Promise<Response> {
+  if (!scheme || !auth) return fetchFn(new Request(url, init))
+
+  const state = getRefreshState(auth)
+  const send = async () =>
+    fetchFn(
+      new Request(
+        ...authorize(url, init, scheme, await auth.getCredentials(scheme)),
+      ),
+    )
+
+  const generation = state.generation
+  const response = await send()
+  if (response.status !== 401 || !auth.refresh) return response
+
+  // A refresh settled since the request was sent is not started again
+  if (state.generation === generation) {
+    state.pending ??= auth.refresh().then(
+      () => settle(state, false),
+      () => settle(state, true),
+    )
+    await state.pending
+  }
+  if (state.failed) return response
+
+  await response.body?.cancel().catch(() => {})
+  return send()
+}
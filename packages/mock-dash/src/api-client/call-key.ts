@@ -0,0 +1,65 @@
+import type { Endpoint } from '../endpoint/endpoint'
+import { stableStringify } from '../utils/stable-stringify'
+
+// Shared through the symbol registry, as the framework entry points are bundled separately
+const callTargetSymbol = Symbol.for('mock-dash.call-target')
+const nodePathSymbol = Symbol.for('mock-dash.node-path')
+
+/** The endpoint and path parameters a client call targets */
+export type CallTarget = {
+  readonly method: string
+  readonly path: string
+  readonly pathParams: Readonly<Record<string, string>>
+}
+
+/**
+ * @internal
+ * Tags a client call with the endpoint and path parameters it targets.
+ * `api.users.id('1').get` returns a new function on every access, so framework
+ * bindings compare these keys instead of function identities.
+ */
+export function withCallKey<F extends object>(
+  call: F,
+  endpoint: Endpoint,
+  pathParams: Record<string, string>,
+): F {
+  const target: CallTarget = {
+    method: endpoint.method,
+    path: endpoint.path,
+    pathParams,
+  }
+  Object.defineProperty(call, callTargetSymbol, { value: target })
+  return call
+}
+
+/** @internal */
+export function getCallTarget(call: object): CallTarget | undefined {
+  return (call as { [callTargetSymbol]?: CallTarget })[callTargetSymbol]
+}
+
+/**
+ * @internal
+ * Identifies a call with its arguments. Functions and signals are ignored.
+ */
+export function getCallKey(call: object, args: unknown): string {
+  const target = getCallTarget(call)
+  const key = target
+    ? `${target.method} ${target.path} ${stableStringify(target.pathParams)}`
+    : ''
+  return `${key} ${stableStringify(args)}`
+}
+
+/**
+ * @internal
+ * Tags a resource or path parameter node of the client with its path, e.g.
+ * `/users/:id` for `api.users.id`.
+ */
+export function withNodePath<N extends object>(node: N, path: string): N {
+  Object.defineProperty(node, nodePathSymbol, { value: path })
+  return node
+}
+
+/** @internal */
+export function getNodePath(node: object): string | undefined {
+  return (node as { [nodePathSymbol]?: string })[nodePathSymbol]
+}
@@ -1,7 +1,10 @@
 import type { EndpointInput, InferInput } from '../endpoint/input'
 import type { AliasOptionFromApiSchema } from '../utils/alias'
 import type { EmptyObjectIsNever } from '../utils/types'
+import type { ClientAuthOptions } from './auth'
 import type { InterceptorCallback } from './interceptor'
+import type { QueryCacheOptions } from './query-cache'
+import type { RetryOptions } from './retry'
 
 export type EndpointArgsType<
   I extends EndpointInput,
@@ -12,6 +15,11 @@ export type EndpointArgsType<
   transformRequest?: InterceptorCallback<RequestInit>
   transformResponse?: InterceptorCallback<Response>
   fetch?: (input: Request) => Response | Promise<Response>
+  retry?: RetryOptions | false
+  /** Milliseconds before the request fails with a timeout `NetworkError` */
+  timeout?: number
+  /** Options of the query cache for this call, `false` bypasses it */
+  queryCache?: QueryCacheOptions | false
 } & AdditionalArgs &
   FetchOptions
 
@@ -32,5 +40,14 @@ export type CreateApiClientArgs<
   transformResponse?: InterceptorCallback<Response>
   fetch?: (input: Request) => Response | Promise<Response>
   alias?: Record<never, string>
+  retry?: RetryOptions | false
+  /** Milliseconds before requests fail with a timeout `NetworkError` */
+  timeout?: number
+  /** Caches GET responses and deduplicates identical requests in flight */
+  queryCache?: QueryCacheOptions
+  /** WebSocket implementation used by `$ws` calls, defaults to the global one */
+  WebSocket?: typeof WebSocket
+  /** Adds credentials to requests of endpoints with an auth scheme */
+  auth?: ClientAuthOptions
 } & AliasOptionFromApiSchema<T> &
   FetchOptions
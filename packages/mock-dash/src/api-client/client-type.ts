@@ -1,17 +1,31 @@
 import type { Endpoint } from '../endpoint/endpoint'
 import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import type { Pagination } from '../endpoint/pagination'
 import type { StreamEndpoint } from '../endpoint/stream-endpoint'
 import type { WebSocketEndpoint } from '../endpoint/ws-endpoint'
 import type { ToCamelCase } from '../utils/to-camel-case'
 import type { Combine } from '../utils/types'
 import type { ExtractEndpoints, GetNextSegments } from './common-types'
 import type { HttpEndpointCallSignature } from './http-call'
+import type { PaginateSignature } from './pagination'
 import type { StreamEndpointCallSignature } from './stream-call'
 import type { WebSocketEndpointCallSignature } from './ws-call'
 
 export type EndpointCallSignatureResolver<T extends Endpoint> =
-  T extends HttpEndpoint<infer _P, infer R, infer _M, infer I, any>
-    ? HttpEndpointCallSignature<R, I>
+  T extends HttpEndpoint<
+    infer _P,
+    infer R,
+    infer _M,
+    infer I,
+    any,
+    infer E,
+    infer H,
+    any
+  >
+    ? HttpEndpointCallSignature<R, I, E, H> &
+        (T extends { pagination: Pagination }
+          ? PaginateSignature<R, I>
+          : unknown)
     : T extends WebSocketEndpoint<infer _P, infer R, infer _M, infer I, any>
       ? {
           $ws: WebSocketEndpointCallSignature<R, I>
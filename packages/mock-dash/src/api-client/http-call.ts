@@ -1,36 +1,58 @@
 import z from 'zod'
 import type { $ZodErrorTree } from 'zod/v4/core'
+import type {
+  EndpointErrors,
+  EndpointResponseHeaders,
+} from '../endpoint/endpoint'
 import type { HttpEndpoint } from '../endpoint/http-endpoint'
 import type { EndpointInputType } from '../endpoint/input'
+import { isPaginatedEndpoint } from '../endpoint/pagination'
 import { createCoercingSchema } from '../utils/create-coercing-schema'
-import type { Errors } from '../utils/errors'
-import { ApiError, ValidationError } from '../utils/errors'
+import type { Errors, TypedApiError } from '../utils/errors'
+import { ApiError, NetworkError, ValidationError } from '../utils/errors'
 import { extractFromFormData } from '../utils/extract-from-form-data'
 import { _prepareFetch } from './_prepare-fetch'
+import { resolveAuthScheme } from './auth'
 import type {
   CreateApiClientArgs,
   EndpointArgs,
   FetchOptions,
 } from './client-base'
 import type { InterceptorManager } from './interceptor'
+import { createPaginate } from './pagination'
+import type { QueryCache } from './query-cache'
+import { raceSignal } from './timeout'
 
-// The successful return type from an HTTP endpoint call
-export type HttpSuccessResult<R extends z.ZodType> = {
+// The successful return type from an HTTP endpoint call, with the parsed
+// headers when the endpoint declares `responseHeaders`
+export type HttpSuccessResult<
+  R extends z.ZodType,
+  H extends EndpointResponseHeaders | undefined = undefined,
+> = {
   data: z.infer<R>
   response: Response
   error?: never
-}
+} & (H extends EndpointResponseHeaders ? { headers: z.infer<H> } : unknown)
+
+// The parsed response headers of an HTTP endpoint, undefined when it declares none
+export type HttpResponseHeaders<
+  H extends EndpointResponseHeaders | undefined = undefined,
+> = H extends EndpointResponseHeaders ? z.infer<H> : undefined
 
 // The error return type from an HTTP endpoint call (e.g., 404, 500)
-export type HttpErrorResult = {
+export type HttpErrorResult<
+  E extends EndpointErrors = Record<never, z.ZodType>,
+> = {
   data?: never
-  error: Errors
+  error: TypedApiError<E> | Errors
   response?: Response
 }
 
 export type HttpEndpointCallSignature<
   R extends z.ZodType,
   I extends EndpointInputType,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 > = {
   // Form data parsing signature
   safeParseForm: I extends { json: z.ZodType }
@@ -50,7 +72,9 @@ export type HttpEndpointCallSignature<
           }
     : never
   // Call signature
-  (...args: EndpointArgs<I>): Promise<HttpSuccessResult<R> | HttpErrorResult>
+  (
+    ...args: EndpointArgs<I>
+  ): Promise<HttpSuccessResult<R, H> | HttpErrorResult<E>>
   // Throwing version
   orThrow: (...args: EndpointArgs<I>) => Promise<z.infer<R>>
 }
@@ -66,11 +90,12 @@ export function callHttpEndpoint(
     request: InterceptorManager<FetchOptions>
     response: InterceptorManager<Response>
   },
+  queryCache?: QueryCache,
 ): HttpEndpointCallSignature<z.ZodType, Required<EndpointInputType>> {
-  const fn = async (
+  const request = async (
     inputData: EndpointArgs<Required<EndpointInputType>>[0],
   ) => {
-    const { fullUrl, response, error } = await _prepareFetch(
+    const { fullUrl, response, timeout, error } = await _prepareFetch(
       pathParams,
       endpoint,
       inputData,
@@ -90,7 +115,7 @@ export function callHttpEndpoint(
       const contentType = response.headers.get('content-type')
 
       if (contentType?.includes('text/')) {
-        jsonResponse = await response.text()
+        jsonResponse = await raceSignal(response.text(), timeout?.signal)
       } else if (
         response.status === 204 ||
         endpoint.response instanceof z.ZodVoid ||
@@ -100,9 +125,12 @@ export function callHttpEndpoint(
         // No content response
         jsonResponse = undefined
       } else {
-        jsonResponse = await response.json()
+        jsonResponse = await raceSignal(response.json(), timeout?.signal)
       }
     } catch (error) {
+      if (error instanceof NetworkError) {
+        return { error, response }
+      }
       return {
         error: new ApiError(
           'Failed to parse response as JSON',
@@ -115,6 +143,8 @@ export function callHttpEndpoint(
         ),
         response,
       }
+    } finally {
+      timeout?.clear()
     }
 
     // Validate response against schema
@@ -136,12 +166,58 @@ export function callHttpEndpoint(
       }
     }
 
+    const headersResult = endpoint.responseHeaders?.safeParse(
+      Object.fromEntries(response.headers),
+    )
+    if (headersResult && !headersResult.success) {
+      return {
+        error: new ValidationError(
+          'Response headers validation failed',
+          headersResult.error,
+          'response',
+          {
+            status: response.status,
+            body: jsonResponse,
+            url: fullUrl,
+            method: endpoint.method.toUpperCase(),
+          },
+        ),
+        response,
+      }
+    }
+
     return {
       data: validationResult.data,
+      ...(headersResult && { headers: headersResult.data }),
       response,
     }
   }
 
+  // Responses that may differ per caller are never shared through the cache
+  const isPersonalized = (
+    inputData: EndpointArgs<Required<EndpointInputType>>[0],
+  ) =>
+    [inputData?.header, inputData?.cookie, inputData?.headers].some(
+      (values) => values && Object.keys(values).length > 0,
+    ) ||
+    (requestOptions.auth !== undefined &&
+      resolveAuthScheme(endpoint, requestOptions.auth) !== undefined)
+
+  const fn = (inputData: EndpointArgs<Required<EndpointInputType>>[0]) => {
+    if (!queryCache || endpoint.method !== 'get' || isPersonalized(inputData)) {
+      return request(inputData)
+    }
+
+    return queryCache.query(
+      endpoint.path,
+      pathParams,
+      inputData?.query,
+      inputData?.queryCache,
+      inputData?.signal,
+      (signal) => request({ ...inputData, signal }),
+    )
+  }
+
   const orThrowFn = async (
     ...args: EndpointArgs<Required<EndpointInputType>>
   ): Promise<z.infer<z.ZodType>> => {
@@ -152,6 +228,16 @@ export function callHttpEndpoint(
     return result.data
   }
 
+  if (isPaginatedEndpoint(endpoint)) {
+    Object.assign(fn, {
+      paginate: createPaginate(
+        (args) =>
+          orThrowFn(args as EndpointArgs<Required<EndpointInputType>>[0]),
+        endpoint.pagination,
+      ),
+    })
+  }
+
   if (endpoint.input?.json) {
     let schema = endpoint.input.json
 
@@ -23,8 +23,23 @@ type InferObjects<T extends Endpoint> =
             ? z.infer<z.ZodObject<I['query']>>
             : undefined
           form: I extends { form: any } ? z.infer<I['form']> : undefined
+          header: I extends { header: any }
+            ? z.infer<z.ZodObject<I['header']>>
+            : undefined
+          cookie: I extends { cookie: any }
+            ? z.infer<z.ZodObject<I['cookie']>>
+            : undefined
           params: ParsedPathParameters<P>
-        } & (T extends HttpEndpoint<infer _P, infer R, infer _M, infer _I, any>
+        } & (T extends HttpEndpoint<
+          infer _P,
+          infer R,
+          infer _M,
+          infer _I,
+          any,
+          any,
+          any,
+          any
+        >
           ? {
               response: z.infer<R>
               parseError: I extends { json: any }
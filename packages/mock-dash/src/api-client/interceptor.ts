@@ -2,6 +2,11 @@
 export interface InterceptorContext {
   readonly method?: string
   readonly path: string
+  /**
+   * Attempt number of the request, starting at 1 and increased on every retry.
+   * Always set by the client, optional so contexts built by hand stay valid.
+   */
+  readonly attempt?: number
 }
 
 /** Function shape for interceptor handlers */
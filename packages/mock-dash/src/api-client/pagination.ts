@@ -0,0 +1,101 @@
+import type z from 'zod'
+import type { EndpointInput, InferInput } from '../endpoint/input'
+import type { Pagination } from '../endpoint/pagination'
+import type { EndpointArgsType } from './client-base'
+
+type PaginateArgs = { query?: Record<string, unknown> } | undefined
+
+// The arguments can be omitted when the pagination parameters are the only required ones
+type PaginateArgsOf<I extends EndpointInput> =
+  {
+    [K in keyof InferInput<I>]: Record<string, never>
+  } extends InferInput<I>
+    ? [args?: EndpointArgsType<I>]
+    : [args: EndpointArgsType<I>]
+
+export type PaginateSignature<R extends z.ZodType, I extends EndpointInput> = {
+  /**
+   * Requests the pages one after the other, starting at the page of the
+   * query, and yields their data. Rejects with the error of a failed page.
+   */
+  paginate: (
+    ...args: PaginateArgsOf<I>
+  ) => AsyncGenerator<z.infer<R>, void, undefined>
+}
+
+// Missing values, e.g. a `null` total, are not read as 0
+function readNumber(value: unknown) {
+  if (typeof value === 'string' && value.trim() !== '') value = Number(value)
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function readProperty(data: unknown, name: string) {
+  return (data as Record<string, unknown> | null)?.[name]
+}
+
+/**
+ * @internal
+ * Walks the pages of a paginated endpoint with the throwing call of the
+ * endpoint. The walk ends on an empty page, after `total` items or without a
+ * next cursor. A short page is not the end, servers may cap the page size.
+ */
+export function createPaginate(
+  request: (args: PaginateArgs) => Promise<unknown>,
+  pagination: Pagination,
+) {
+  return async function* paginate(args?: PaginateArgs) {
+    const query: Record<string, unknown> = { ...args?.query }
+    // Without a requested page size, the size of the first page is used
+    let limit = pagination.limit
+      ? readNumber(query[pagination.limit])
+      : undefined
+    let offset =
+      pagination.style === 'offset'
+        ? (readNumber(query[pagination.offset]) ?? 0)
+        : 0
+    const firstPage =
+      pagination.style === 'page' ? (pagination.firstPage ?? 1) : 0
+    let page =
+      pagination.style === 'page'
+        ? (readNumber(query[pagination.page]) ?? firstPage)
+        : 0
+
+    for (let first = true; ; first = false) {
+      const data = await request({ ...args, query: { ...query } })
+
+      if (pagination.style === 'cursor') {
+        yield data
+        const cursor = readProperty(data, pagination.nextCursor)
+        if (cursor === undefined || cursor === null || cursor === '') return
+        query[pagination.cursor] = cursor
+        continue
+      }
+
+      const items = pagination.items
+        ? readProperty(data, pagination.items)
+        : data
+      const count = Array.isArray(items) ? items.length : 0
+      // The empty page past the last one is not yielded
+      if (count === 0 && !first) return
+      yield data
+      if (count === 0) return
+      limit ??= count
+
+      offset += count
+      page += 1
+      // Number of items up to the next page
+      const seen =
+        pagination.style === 'offset' ? offset : (page - firstPage) * limit
+      const total = pagination.total
+        ? readNumber(readProperty(data, pagination.total))
+        : undefined
+      if (total !== undefined && seen >= total) return
+
+      if (pagination.style === 'offset') {
+        query[pagination.offset] = offset
+      } else {
+        query[pagination.page] = page
+      }
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import type z from 'zod'
+import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import type { ParsedPathParameters } from '../endpoint/input'
+import { stableStringify } from '../utils/stable-stringify'
+import type { EmptyObjectIsNever } from '../utils/types'
+import type { ExtractEndpoints } from './common-types'
+
+export type QueryCacheOptions = {
+  /** Milliseconds a cached response is served without a request, defaults to 0 */
+  readonly ttl?: number
+  /**
+   * Milliseconds after the `ttl` during which the stale response is served
+   * while it is refreshed in the background, defaults to 0
+   */
+  readonly staleWhileRevalidate?: number
+}
+
+type CacheableEndpoint<T extends Record<string, unknown>> =
+  ExtractEndpoints<T>[number] extends infer E
+    ? E extends HttpEndpoint<any, any, 'get', any, any, any, any, any>
+      ? E
+      : never
+    : never
+
+/** Paths of the GET endpoints whose responses can be cached */
+export type CacheablePath<T extends Record<string, unknown>> =
+  CacheableEndpoint<T>['path']
+
+type CacheableEndpointAt<
+  T extends Record<string, unknown>,
+  P extends string,
+> = Extract<CacheableEndpoint<T>, { path: P }>
+
+/** Path parameters and query identifying a cached response */
+export type QueryCacheArgs<
+  T extends Record<string, unknown>,
+  P extends string,
+> = (EmptyObjectIsNever<ParsedPathParameters<P>> extends never
+  ? { params?: undefined }
+  : { params: ParsedPathParameters<P> }) &
+  (CacheableEndpointAt<T, P> extends HttpEndpoint<
+    any,
+    any,
+    any,
+    infer I,
+    any,
+    any,
+    any,
+    any
+  >
+    ? I extends { query: object }
+      ? { query?: z.infer<z.ZodObject<I['query']>> }
+      : { query?: undefined }
+    : never)
+
+/** The cached response data of a GET endpoint */
+export type QueryCacheData<
+  T extends Record<string, unknown>,
+  P extends string,
+> = CacheableEndpointAt<T, P> extends HttpEndpoint<
+  any,
+  infer R,
+  any,
+  any,
+  any,
+  any,
+  any,
+  any
+>
+  ? z.infer<R>
+  : never
+
+type QueryCacheKeyArgs<
+  T extends Record<string, unknown>,
+  P extends string,
+> = EmptyObjectIsNever<ParsedPathParameters<P>> extends never
+  ? [args?: QueryCacheArgs<T, P>]
+  : [args: QueryCacheArgs<T, P>]
+
+type CachedResult = { data: unknown; response: Response; error?: never }
+
+type QueriedResult = { data?: unknown; response?: Response; error?: unknown }
+
+type CacheKeyParts = {
+  path: string
+  params: string
+}
+
+type CacheEntry = CacheKeyParts & {
+  result: CachedResult
+  updatedAt: number
+}
+
+type InFlightRequest = CacheKeyParts & {
+  promise: Promise<unknown>
+  /** Aborts the shared request once every caller aborted */
+  controller: AbortController
+  /** Callers that did not abort, callers without a signal never do */
+  waiting: number
+}
+
+function createQueryKey(path: string, params: string, query: unknown) {
+  return `${path} ${params} ${stableStringify(query)}`
+}
+
+/**
+ * Caches successful GET responses of an API client and deduplicates identical
+ * requests that are in flight. Entries are keyed by endpoint path, path
+ * parameters and query. Calls with header or cookie inputs, custom headers or
+ * auth credentials bypass the cache, as their responses may differ per caller.
+ */
+export class QueryCache<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> {
+  #entries = new Map<string, CacheEntry>()
+  #inFlight = new Map<string, InFlightRequest>()
+  #options: QueryCacheOptions | undefined
+
+  constructor(options?: QueryCacheOptions) {
+    this.#options = options
+  }
+
+  /**
+   * Returns the cached data of a GET endpoint, whether it is stale or not.
+   *
+   * @example
+   * ```typescript
+   * const user = client.queryCache.getCached('/users/:id', {
+   *   params: { id: '1' },
+   * })
+   * ```
+   */
+  public getCached<P extends CacheablePath<T>>(
+    path: P,
+    ...[args]: QueryCacheKeyArgs<T, P>
+  ): QueryCacheData<T, P> | undefined {
+    const key = createQueryKey(path, stableStringify(args?.params), args?.query)
+    return this.#entries.get(key)?.result.data as QueryCacheData<T, P>
+  }
+
+  /**
+   * Stores data for a GET endpoint, e.g. after a mutation returned the updated
+   * resource. Accepts an updater receiving the currently cached data.
+   *
+   * @example
+   * ```typescript
+   * client.queryCache.setCached(
+   *   '/users',
+   *   (users = []) => [...users, createdUser],
+   * )
+   * ```
+   */
+  public setCached<P extends CacheablePath<T>>(
+    path: P,
+    data:
+      | QueryCacheData<T, P>
+      | ((current: QueryCacheData<T, P> | undefined) => QueryCacheData<T, P>),
+    ...[args]: QueryCacheKeyArgs<T, P>
+  ): void {
+    const params = stableStringify(args?.params)
+    const key = createQueryKey(path, params, args?.query)
+    const value =
+      typeof data === 'function'
+        ? (data as (current: unknown) => unknown)(
+            this.#entries.get(key)?.result.data,
+          )
+        : data
+
+    this.#inFlight.delete(key)
+    this.#entries.set(key, {
+      path,
+      params,
+      // Responses set by hand carry the data as JSON, like a fetched one
+      result: { data: value, response: Response.json(value) },
+      updatedAt: Date.now(),
+    })
+  }
+
+  /**
+   * Removes cached responses so the next call fetches them again. Without a
+   * path the whole cache is cleared. Without a query every cached query of
+   * the path (and its params) is removed.
+   *
+   * @example
+   * ```typescript
+   * await client.api.users.id('1').patch({ json: { name: 'Jane' } })
+   * client.queryCache.invalidate('/users/:id', { params: { id: '1' } })
+   * ```
+   */
+  public invalidate<P extends CacheablePath<T>>(
+    path?: P,
+    args?: Partial<QueryCacheArgs<T, P>>,
+  ): void {
+    const params = args?.params ? stableStringify(args.params) : undefined
+    const key =
+      path && args?.query
+        ? createQueryKey(path, stableStringify(args.params), args.query)
+        : undefined
+    const matches = (entryKey: string, parts: CacheKeyParts) =>
+      key
+        ? entryKey === key
+        : (!path || parts.path === path) && (!params || parts.params === params)
+
+    for (const [entryKey, entry] of this.#entries) {
+      if (matches(entryKey, entry)) this.#entries.delete(entryKey)
+    }
+    // Responses of requests started before the invalidation are not stored
+    for (const [entryKey, request] of this.#inFlight) {
+      if (matches(entryKey, request)) this.#inFlight.delete(entryKey)
+    }
+  }
+
+  /**
+   * @internal
+   * Serves a GET call from the cache, joins an identical request in flight or
+   * sends it with `request`. Only successful results are cached. The shared
+   * request gets its own signal, aborted once the `signal` of every caller
+   * waiting for it aborted.
+   */
+  public async query<R extends QueriedResult>(
+    path: string,
+    pathParams: Record<string, string>,
+    query: unknown,
+    callOptions: QueryCacheOptions | false | undefined,
+    signal: AbortSignal | null | undefined,
+    request: (signal?: AbortSignal) => Promise<R>,
+  ): Promise<R> {
+    if (callOptions === false || (!this.#options && !callOptions)) {
+      return request(signal ?? undefined)
+    }
+
+    const { ttl = 0, staleWhileRevalidate = 0 } = {
+      ...this.#options,
+      ...callOptions,
+    }
+    const params = stableStringify(pathParams)
+    const key = createQueryKey(path, params, query)
+    const entry = this.#entries.get(key)
+    const age = entry ? Date.now() - entry.updatedAt : Number.POSITIVE_INFINITY
+
+    if (entry && age < ttl) {
+      return entry.result as R
+    }
+
+    if (entry && age < ttl + staleWhileRevalidate) {
+      // Nobody waits for the refresh, so it is never aborted
+      this.#fetch(key, path, params, undefined, request).catch(() => {})
+      return entry.result as R
+    }
+
+    return this.#fetch(key, path, params, signal, request)
+  }
+
+  #fetch<R extends QueriedResult>(
+    key: string,
+    path: string,
+    params: string,
+    signal: AbortSignal | null | undefined,
+    request: (signal: AbortSignal) => Promise<R>,
+  ): Promise<R> {
+    const pending =
+      this.#inFlight.get(key) ?? this.#send(key, path, params, request)
+    pending.waiting++
+
+    if (signal) {
+      const onAbort = () => {
+        if (--pending.waiting === 0) pending.controller.abort(signal.reason)
+      }
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        const removeListener = () =>
+          signal.removeEventListener('abort', onAbort)
+        signal.addEventListener('abort', onAbort, { once: true })
+        pending.promise.then(removeListener, removeListener)
+      }
+    }
+
+    return pending.promise as Promise<R>
+  }
+
+  #send<R extends QueriedResult>(
+    key: string,
+    path: string,
+    params: string,
+    request: (signal: AbortSignal) => Promise<R>,
+  ): InFlightRequest {
+    const controller = new AbortController()
+    const promise: Promise<R> = request(controller.signal)
+      .then((result) => {
+        // Skip results of requests that were invalidated meanwhile
+        if (!result.error && this.#inFlight.get(key)?.promise === promise) {
+          this.#entries.set(key, {
+            path,
+            params,
+            result: result as CachedResult,
+            updatedAt: Date.now(),
+          })
+        }
+        return result
+      })
+      .finally(() => {
+        if (this.#inFlight.get(key)?.promise === promise) {
+          this.#inFlight.delete(key)
+        }
+      })
+
+    const pending = { path, params, promise, controller, waiting: 0 }
+    this.#inFlight.set(key, pending)
+    return pending
+  }
+}
@@ -0,0 +1,212 @@
+import type z from 'zod'
+import type { Endpoint } from '../endpoint/endpoint'
+import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import type {
+  EndpointInputType,
+  InferInput,
+  ParsedPathParameters,
+} from '../endpoint/input'
+import type { ToCamelCase } from '../utils/to-camel-case'
+import type { Combine, EmptyObjectIsNever, Prettify } from '../utils/types'
+import { type CallTarget, getCallTarget, getNodePath } from './call-key'
+import type { EndpointArgs } from './client-base'
+import type { Client } from './client-type'
+import type { ExtractEndpoints, GetNextSegments } from './common-types'
+
+type Segment<S extends string> = S extends `{${infer ALIAS}}` ? ALIAS : S
+
+/** The path segments starting a query key, `/users/:id` becomes `['users', ':id']` */
+export type PathKey<P extends string> = P extends `/${infer REST}`
+  ? PathKey<REST>
+  : P extends `${infer HEAD}/${infer TAIL}`
+    ? [Segment<HEAD>, ...PathKey<TAIL>]
+    : P extends ''
+      ? []
+      : [Segment<P>]
+
+type KeyParams<P extends string> =
+  EmptyObjectIsNever<ParsedPathParameters<P>> extends never
+    ? { params?: undefined }
+    : { params: ParsedPathParameters<P> }
+
+/** The query key of a call: its path segments followed by the method and inputs */
+export type EndpointQueryKey<
+  P extends string,
+  M extends string,
+  I extends EndpointInputType,
+> = readonly [
+  ...PathKey<P>,
+  Prettify<{ method: M } & KeyParams<P> & Partial<InferInput<I>>>,
+]
+
+export type EndpointMutationKey<P extends string, M extends string> = readonly [
+  ...PathKey<P>,
+  { method: M },
+]
+
+export type EndpointQueryOptions<
+  P extends string,
+  M extends string,
+  R extends z.ZodType,
+  I extends EndpointInputType,
+> = {
+  queryKey: EndpointQueryKey<P, M, I>
+  queryFn: (context: { signal: AbortSignal }) => Promise<z.infer<R>>
+}
+
+export type EndpointMutationOptions<
+  P extends string,
+  M extends string,
+  R extends z.ZodType,
+  I extends EndpointInputType,
+> = {
+  mutationKey: EndpointMutationKey<P, M>
+  mutationFn: (...args: EndpointArgs<I>) => Promise<z.infer<R>>
+}
+
+export type EndpointOptionsFactory<
+  P extends string,
+  M extends string,
+  R extends z.ZodType,
+  I extends EndpointInputType,
+> = {
+  /** The key `queryOptions` uses for these arguments */
+  queryKey: (...args: EndpointArgs<I>) => EndpointQueryKey<P, M, I>
+  /** Options for `useQuery`, `prefetchQuery` and friends */
+  queryOptions: (...args: EndpointArgs<I>) => EndpointQueryOptions<P, M, R, I>
+  /** The key `mutationOptions` uses */
+  mutationKey: () => EndpointMutationKey<P, M>
+  /** Options for `useMutation`, the variables are the arguments of the call */
+  mutationOptions: () => EndpointMutationOptions<P, M, R, I>
+}
+
+type EndpointOptionsFactories<T extends Endpoint> =
+  T extends HttpEndpoint<infer P, infer R, infer M, infer I, any, any, any, any>
+    ? { [K in M]: EndpointOptionsFactory<P, M, R, I> }
+    : never
+
+type QueryOptionsRecursiveNode<P extends string, E_Union extends Endpoint> = {
+  /** The key prefix shared by every endpoint below this path */
+  readonly $key: PathKey<P>
+} & Combine<
+  E_Union extends any
+    ? E_Union['path'] extends (P extends '' ? '/' : P)
+      ? EndpointOptionsFactories<E_Union>
+      : never
+    : never
+> &
+  (string extends GetNextSegments<P, E_Union>
+    ? Record<string, any>
+    : {
+        [S in GetNextSegments<P, E_Union> as S extends `:${infer PARAM}`
+          ? ToCamelCase<PARAM>
+          : S extends `{${infer ALIAS}}`
+            ? ToCamelCase<ALIAS>
+            : ToCamelCase<S>]: S extends `:${infer _PARAM}`
+          ? ((
+              value: string,
+            ) => QueryOptionsRecursiveNode<`${P}/${S}`, E_Union>) & {
+              readonly $key: PathKey<`${P}/${S}`>
+            }
+          : QueryOptionsRecursiveNode<`${P}/${S}`, E_Union>
+      })
+
+export type QueryOptionsClient<T extends Record<string, unknown>> =
+  QueryOptionsRecursiveNode<'', ExtractEndpoints<T>[number]>
+
+type HttpCall = ((args?: Record<string, unknown>) => Promise<unknown>) & {
+  orThrow: (args?: Record<string, unknown>) => Promise<unknown>
+}
+
+function toPathKey(path: string): string[] {
+  return path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/^\{(.*)\}$/, '$1'))
+}
+
+function toQueryKey(target: CallTarget, args?: Record<string, unknown>) {
+  const input: Record<string, unknown> = { method: target.method }
+  if (Object.keys(target.pathParams).length > 0) {
+    input.params = { ...target.pathParams }
+  }
+  for (const key of ['query', 'json', 'form', 'header', 'cookie']) {
+    if (args?.[key] !== undefined) input[key] = args[key]
+  }
+  return [...toPathKey(target.path), input]
+}
+
+function createOptionsFactory(call: HttpCall, target: CallTarget) {
+  const mutationKey = () => [
+    ...toPathKey(target.path),
+    { method: target.method },
+  ]
+
+  return {
+    queryKey: (args?: Record<string, unknown>) => toQueryKey(target, args),
+    queryOptions: (args?: Record<string, unknown>) => ({
+      queryKey: toQueryKey(target, args),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        call.orThrow({ ...args, signal }),
+    }),
+    mutationKey,
+    mutationOptions: () => ({
+      mutationKey: mutationKey(),
+      mutationFn: (args?: Record<string, unknown>) => call.orThrow(args),
+    }),
+  }
+}
+
+function buildQueryOptionsFromClient(
+  node: Record<string, unknown>,
+): Record<string, unknown> {
+  const optionsNode: Record<string, unknown> = {
+    $key: toPathKey(getNodePath(node) ?? ''),
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (typeof value === 'function') {
+      const target = getCallTarget(value)
+
+      if (target && 'orThrow' in value) {
+        optionsNode[key] = createOptionsFactory(value as HttpCall, target)
+      } else if (!target) {
+        // A path parameter, e.g. `api.users.id`
+        optionsNode[key] = Object.assign(
+          (paramValue: string) =>
+            buildQueryOptionsFromClient(value(paramValue)),
+          { $key: toPathKey(getNodePath(value) ?? '') },
+        )
+      }
+    } else if (value && typeof value === 'object') {
+      // Resources; stream and WebSocket methods end up without factories
+      optionsNode[key] = buildQueryOptionsFromClient(
+        value as Record<string, unknown>,
+      )
+    }
+  }
+
+  return optionsNode
+}
+
+/**
+ * Mirrors the client tree with TanStack Query option factories. Query keys
+ * start with the path segments of the endpoint, so `$key` prefixes match
+ * every call below a path.
+ *
+ * @example
+ * ```typescript
+ * const queries = createQueryOptions(client)
+ *
+ * useQuery(queries.users.id('1').get.queryOptions())
+ * useMutation(queries.users.id('1').patch.mutationOptions())
+ * queryClient.invalidateQueries({ queryKey: queries.users.id.$key })
+ * ```
+ */
+export function createQueryOptions<T extends Record<string, unknown>>(client: {
+  api: Client<T>
+}): QueryOptionsClient<T> {
+  return buildQueryOptionsFromClient(
+    client.api as Record<string, unknown>,
+  ) as QueryOptionsClient<T>
+}
@@ -0,0 +1,122 @@
+import type { HttpMethod } from '../endpoint/endpoint'
+
+export type RetryOptions = {
+  /** Total number of attempts including the first one, defaults to 3 */
+  readonly attempts?: number
+  /** Delay before the first retry in milliseconds, doubled on every retry. Defaults to 300 */
+  readonly baseDelay?: number
+  /** Upper bound of a single delay in milliseconds, defaults to 10 000 */
+  readonly maxDelay?: number
+  /** Picks a random delay between 0 and the backoff delay, defaults to true */
+  readonly jitter?: boolean
+  /** Response statuses that are retried, defaults to 408, 429, 500, 502, 503 and 504 */
+  readonly statuses?: readonly number[]
+  /** Retries requests failing with a `NetworkError` other than a timeout, defaults to true */
+  readonly networkErrors?: boolean
+  /**
+   * Retries requests that hit the client `timeout`, defaults to false as the
+   * next attempt is likely as slow. Requests aborted by their `signal` are
+   * never retried.
+   */
+  readonly timeouts?: boolean
+  /** Methods that are retried, defaults to the idempotent `get`, `put` and `delete` */
+  readonly methods?: readonly HttpMethod[]
+}
+
+type RetryPolicy = Required<RetryOptions>
+
+const defaultRetryPolicy: RetryPolicy = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  jitter: true,
+  statuses: [408, 429, 500, 502, 503, 504],
+  networkErrors: true,
+  timeouts: false,
+  methods: ['get', 'put', 'delete'],
+}
+
+/**
+ * @internal
+ * Merges the per call options over the client options. Returns `undefined`
+ * when the request must not be retried.
+ */
+export function resolveRetryPolicy(
+  clientOptions: RetryOptions | false | undefined,
+  callOptions: RetryOptions | false | undefined,
+  method: HttpMethod,
+): RetryPolicy | undefined {
+  if (callOptions === false || (!clientOptions && !callOptions)) {
+    return undefined
+  }
+
+  const policy: RetryPolicy = {
+    ...defaultRetryPolicy,
+    ...clientOptions,
+    ...callOptions,
+  }
+  if (policy.attempts <= 1 || !policy.methods.includes(method)) {
+    return undefined
+  }
+
+  return policy
+}
+
+/** `Retry-After` holds either a number of seconds or an HTTP date */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+
+  return undefined
+}
+
+/**
+ * @internal
+ * Delay before the next attempt. A `Retry-After` header of the failed response
+ * takes precedence over the exponential backoff.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response?: Response,
+): number {
+  const retryAfter = parseRetryAfter(
+    response?.headers.get('Retry-After') ?? null,
+  )
+  if (retryAfter !== undefined) return Math.min(retryAfter, policy.maxDelay)
+
+  const backoff = Math.min(
+    policy.baseDelay * 2 ** (attempt - 1),
+    policy.maxDelay,
+  )
+  return policy.jitter ? Math.random() * backoff : backoff
+}
+
+/**
+ * @internal
+ * Resolves after `ms` milliseconds, or rejects with the abort reason as soon as
+ * the signal aborts.
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
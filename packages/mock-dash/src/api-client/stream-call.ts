@@ -18,6 +18,7 @@ import type {
   FetchOptions,
 } from './client-base'
 import type { InterceptorManager } from './interceptor'
+import { createTimeoutError, withReadTimeout } from './timeout'
 
 // Represents a successfully parsed SSE event
 type SSEEvent<K, T> = {
@@ -108,7 +109,7 @@ export function callStreamEndpoint(
   },
 ): StreamEndpointCallSignature<StreamResponse, any> {
   return async (inputData) => {
-    const { fullUrl, response, error } = await _prepareFetch(
+    const { fullUrl, response, timeout, error } = await _prepareFetch(
       pathParams,
       endpoint,
       inputData,
@@ -122,6 +123,9 @@ export function callStreamEndpoint(
       }
     }
 
+    // Once connected, the timeout applies to every single read
+    timeout?.clear()
+
     if (!response.body) {
       return {
         error: new ApiError('Stream response has no body', response.status, {
@@ -132,16 +136,26 @@ export function callStreamEndpoint(
       }
     }
 
+    const readTimeout = inputData?.timeout ?? requestOptions.timeout
+    const body = readTimeout
+      ? withReadTimeout(response.body, readTimeout, () =>
+          createTimeoutError('Stream read timed out', readTimeout, {
+            url: fullUrl,
+            method: endpoint.method.toUpperCase(),
+          }),
+        )
+      : response.body
+
     // Return the correct generator based on the response type
     let streamGenerator: AsyncGenerator<any, void, void>
     const schema = endpoint.response
 
     if (isSSEResponse(schema)) {
-      streamGenerator = sseStreamParser(response.body, schema.events)
+      streamGenerator = sseStreamParser(body, schema.events)
     } else if (isJSONStreamResponse(schema)) {
-      streamGenerator = ndjsonStreamParser(response.body, schema.itemSchema)
+      streamGenerator = ndjsonStreamParser(body, schema.itemSchema)
     } else if (isBinaryStreamResponse(schema)) {
-      streamGenerator = binaryStreamParser(response.body)
+      streamGenerator = binaryStreamParser(body)
     } else {
       return {
         error: new ApiError('Unknown stream response type', response.status, {
@@ -0,0 +1,210 @@
+import { describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineAuth } from '../../endpoint/auth'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { ApiError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+const bearer = defineAuth({ type: 'bearer' })
+
+/** A mock server only accepting the current token */
+function createAuthServer(apiSchema: Record<string, unknown>) {
+  const tokens = { current: 'token-1' }
+  const { app } = createMockServer(apiSchema, {
+    auth: {
+      scheme: bearer,
+      verify: (credentials) =>
+        credentials.type === 'bearer' && credentials.token === tokens.current,
+    },
+  })
+  return { app, tokens }
+}
+
+describe('Client auth', () => {
+  it('should send the credentials of the scheme', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: z.object({ token: z.string() }) }),
+    }
+    apiSchema.getMe.defineMock((ctx) => ({
+      token: ctx.honoContext.req.header('authorization') ?? '',
+    }))
+    const { app } = createAuthServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+      auth: { scheme: bearer, getCredentials: async () => 'token-1' },
+    })
+
+    const { data } = await client.api.me.get()
+
+    expect(data).toEqual({ token: 'Bearer token-1' })
+  })
+
+  it('should send no credentials to public endpoints', async () => {
+    const apiSchema = {
+      getHealth: defineGet('/health', {
+        response: z.object({ ok: z.boolean() }),
+        options: { auth: false },
+      }),
+    }
+    const fetch = vi.fn(async (_request: Request) =>
+      Response.json({ ok: true }),
+    )
+    const getCredentials = vi.fn(() => 'token-1')
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      auth: { scheme: bearer, getCredentials },
+    })
+
+    await client.api.health.get()
+
+    expect(fetch.mock.calls[0][0].headers.has('Authorization')).toBe(false)
+    expect(getCredentials).not.toHaveBeenCalled()
+  })
+
+  it('should fail with a 401 when logged out', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: z.object({ token: z.string() }) }),
+    }
+    apiSchema.getMe.defineMock((ctx) => ({
+      token: ctx.honoContext.req.header('authorization') ?? '',
+    }))
+    const { app } = createAuthServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+      auth: { scheme: bearer, getCredentials: () => undefined },
+    })
+
+    const { error } = await client.api.me.get()
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect((error as ApiError).status).toBe(401)
+  })
+
+  it('should refresh once for concurrent 401s and send the requests again', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: z.object({ token: z.string() }) }),
+      createNote: definePost('/notes', {
+        input: { json: z.object({ text: z.string() }) },
+        response: z.object({ text: z.string() }),
+      }),
+    }
+    apiSchema.getMe.defineMock((ctx) => ({
+      token: ctx.honoContext.req.header('authorization') ?? '',
+    }))
+    apiSchema.createNote.defineMock((ctx) => ctx.inputs.json)
+    const { app, tokens } = createAuthServer(apiSchema)
+    tokens.current = 'token-2'
+
+    let token = 'token-1'
+    const refresh = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      token = 'token-2'
+    })
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+      auth: { scheme: bearer, getCredentials: () => token, refresh },
+    })
+
+    const results = await Promise.all([
+      client.api.me.get(),
+      client.api.me.get({ queryCache: false }),
+      client.api.notes.post({ json: { text: 'Hello' } }),
+    ])
+
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(results.map((result) => result.data)).toEqual([
+      { token: 'Bearer token-2' },
+      { token: 'Bearer token-2' },
+      { text: 'Hello' },
+    ])
+  })
+
+  it('should return the 401 when the refresh fails', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: z.object({ token: z.string() }) }),
+      createNote: definePost('/notes', {
+        input: { json: z.object({ text: z.string() }) },
+        response: z.object({ text: z.string() }),
+      }),
+    }
+    apiSchema.getMe.defineMock((ctx) => ({
+      token: ctx.honoContext.req.header('authorization') ?? '',
+    }))
+    apiSchema.createNote.defineMock((ctx) => ctx.inputs.json)
+    const { app, tokens } = createAuthServer(apiSchema)
+    tokens.current = 'token-2'
+
+    const refresh = vi.fn(async () => {
+      throw new Error('Session expired')
+    })
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+      auth: { scheme: bearer, getCredentials: () => 'token-1', refresh },
+    })
+
+    const [first, second] = await Promise.all([
+      client.api.me.get(),
+      client.api.notes.post({ json: { text: 'Hello' } }),
+    ])
+
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect((first.error as ApiError).status).toBe(401)
+    expect((second.error as ApiError).status).toBe(401)
+  })
+
+  it('should add basic, api key and cookie credentials', async () => {
+    const apiSchema = {
+      basic: defineGet('/basic', {
+        response: z.string(),
+        options: { auth: defineAuth({ type: 'basic' }) },
+      }),
+      query: defineGet('/query', {
+        input: { query: { page: z.string() } },
+        response: z.string(),
+        options: {
+          auth: defineAuth({ type: 'apiKey', in: 'query', name: 'api_key' }),
+        },
+      }),
+      session: defineGet('/session', {
+        response: z.string(),
+        options: { auth: defineAuth({ type: 'cookie', name: 'sid' }) },
+      }),
+    }
+    const requests: Request[] = []
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async (request) => {
+        requests.push(request)
+        return new Response('ok', { headers: { 'Content-Type': 'text/plain' } })
+      },
+      auth: {
+        getCredentials: (scheme) =>
+          scheme.type === 'basic'
+            ? { username: 'john', password: 'secret' }
+            : 'k 1',
+      },
+    })
+
+    await client.api.basic.get()
+    await client.api.query.get({ query: { page: '2' } })
+    await client.api.session.get()
+
+    expect(requests[0].headers.get('Authorization')).toBe(
+      `Basic ${btoa('john:secret')}`,
+    )
+    expect(requests[1].url).toBe('http://localhost/query?page=2&api_key=k%201')
+    expect(requests[2].headers.get('Cookie')).toBe('sid=k%201')
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { ValidationError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+describe('Header and cookie inputs', () => {
+  it('should send headers and cookies typed in the mock inputs', async () => {
+    const apiSchema = {
+      getProfile: defineGet('/profile', {
+        input: {
+          header: {
+            'x-api-version': z.coerce.number().int(),
+            'accept-language': z.string().optional(),
+          },
+          cookie: { session: z.string() },
+        },
+        response: z.object({
+          version: z.string(),
+          language: z.string().nullable(),
+          session: z.string(),
+        }),
+      }),
+    }
+    apiSchema.getProfile.defineMock((ctx) => {
+      expectTypeOf(ctx.inputs.header['x-api-version']).toEqualTypeOf<number>()
+      expectTypeOf(ctx.inputs.cookie.session).toEqualTypeOf<string>()
+
+      return {
+        version: String(ctx.inputs.header['x-api-version']),
+        language: ctx.inputs.header['accept-language'] ?? null,
+        session: ctx.inputs.cookie.session,
+      }
+    })
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { data } = await client.api.profile.get({
+      header: { 'x-api-version': 2, 'accept-language': 'nl' },
+      cookie: { session: 'a b;c' },
+    })
+
+    expect(data).toEqual({ version: '2', language: 'nl', session: 'a b;c' })
+  })
+
+  it('should require the inputs in the call arguments', async () => {
+    const apiSchema = {
+      createNote: definePost('/notes', {
+        input: {
+          header: { 'idempotency-key': z.uuid() },
+          json: z.object({ text: z.string() }),
+        },
+        response: z.object({ key: z.string(), text: z.string() }),
+      }),
+    }
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: vi.fn(),
+    })
+
+    expectTypeOf(client.api.notes.post)
+      .parameter(0)
+      .toHaveProperty('header')
+      .toEqualTypeOf<{ 'idempotency-key': string }>()
+
+    // @ts-expect-error the header input is required
+    await client.api.notes.post({ json: { text: 'Hello' } })
+  })
+
+  it('should validate the inputs before sending the request', async () => {
+    const apiSchema = {
+      createNote: definePost('/notes', {
+        input: {
+          header: { 'idempotency-key': z.uuid() },
+          json: z.object({ text: z.string() }),
+        },
+        response: z.object({ key: z.string(), text: z.string() }),
+      }),
+    }
+    const fetch = vi.fn()
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+
+    const { error } = await client.api.notes.post({
+      header: { 'idempotency-key': 'not-a-uuid' },
+      json: { text: 'Hello' },
+    })
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).message).toBe('Invalid headers')
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject requests without the inputs on the mock server', async () => {
+    const apiSchema = {
+      getProfile: defineGet('/profile', {
+        input: {
+          header: {
+            'x-api-version': z.coerce.number().int(),
+            'accept-language': z.string().optional(),
+          },
+          cookie: { session: z.string() },
+        },
+        response: z.object({
+          version: z.string(),
+          language: z.string().nullable(),
+          session: z.string(),
+        }),
+      }),
+    }
+    apiSchema.getProfile.defineMock({
+      version: '1',
+      language: null,
+      session: 'abc',
+    })
+
+    const { app } = createMockServer(apiSchema)
+
+    const missingCookie = await app.request('/profile', {
+      headers: { 'X-Api-Version': '1' },
+    })
+    const valid = await app.request('/profile', {
+      headers: { 'X-Api-Version': '1', Cookie: 'session=abc' },
+    })
+
+    expect(missingCookie.status).toBe(400)
+    expect(valid.status).toBe(200)
+  })
+
+  it('should let the headers option override header inputs', async () => {
+    const apiSchema = {
+      createNote: definePost('/notes', {
+        input: {
+          header: { 'idempotency-key': z.uuid() },
+          json: z.object({ text: z.string() }),
+        },
+        response: z.object({ key: z.string(), text: z.string() }),
+      }),
+    }
+    const fetch = vi.fn(async (request: Request) =>
+      Response.json({
+        key: request.headers.get('idempotency-key'),
+        text: 'Hello',
+      }),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+
+    const key = '4b0c6ff0-5b52-4d52-9d1c-0e0d0ef7d8a1'
+    const { data } = await client.api.notes.post({
+      header: { 'idempotency-key': crypto.randomUUID() },
+      headers: { 'idempotency-key': key },
+      json: { text: 'Hello' },
+    })
+
+    expect(data?.key).toBe(key)
+  })
+})
@@ -0,0 +1,289 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { definePaginated } from '../../endpoint/pagination'
+import { ApiError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+const users = Array.from({ length: 25 }, (_, index) => ({
+  id: String(index + 1),
+  name: `User ${index + 1}`,
+}))
+
+async function collect<T>(pages: AsyncIterable<T>) {
+  const result: T[] = []
+  for await (const page of pages) result.push(page)
+  return result
+}
+
+describe('Client pagination', () => {
+  it('should walk every page', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              page: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', limit: 'limit' },
+      ),
+    }
+    apiSchema.getUsers.defineMock(users)
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const pages = await collect(client.api.users.get.paginate())
+
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5])
+    expect(pages.flat()).toEqual(users)
+  })
+
+  it('should start at the page of the query and keep its limit', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              page: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', limit: 'limit' },
+      ),
+    }
+    apiSchema.getUsers.defineMock(users)
+    const { app } = createMockServer(apiSchema)
+    const requests: string[] = []
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: (request) => {
+        requests.push(request.url)
+        return app.fetch(request)
+      },
+    })
+
+    const pages = await collect(
+      client.api.users.get.paginate({ query: { page: 4, limit: 5 } }),
+    )
+
+    expect(pages.flat()).toEqual(users.slice(15))
+    // The last page is full, so the end is found with an empty page
+    expect(requests).toEqual([
+      'http://localhost/users?page=4&limit=5',
+      'http://localhost/users?page=5&limit=5',
+      'http://localhost/users?page=6&limit=5',
+    ])
+  })
+
+  it('should stop after the total number of items', async () => {
+    const apiSchema = {
+      getPosts: definePaginated(
+        defineGet('/posts', {
+          input: {
+            query: {
+              offset: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.object({ items: z.array(userModel), total: z.number() }),
+        }),
+        {
+          style: 'offset',
+          offset: 'offset',
+          limit: 'limit',
+          items: 'items',
+          total: 'total',
+        },
+      ),
+    }
+    apiSchema.getPosts.defineMock(users)
+    const { app } = createMockServer(apiSchema)
+    const requests: string[] = []
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: (request) => {
+        requests.push(request.url)
+        return app.fetch(request)
+      },
+    })
+
+    const pages = await collect(
+      client.api.posts.get.paginate({ query: { limit: 5 } }),
+    )
+
+    expectTypeOf(pages).toEqualTypeOf<
+      Array<{ items: Array<{ id: string; name: string }>; total: number }>
+    >()
+    expect(pages.flatMap((page) => page.items)).toEqual(users)
+    expect(requests).toHaveLength(5)
+  })
+
+  it('should only stop on an empty page without a total', async () => {
+    const apiSchema = {
+      getPosts: definePaginated(
+        defineGet('/posts', {
+          input: { query: { page: z.coerce.number().optional() } },
+          response: z.object({
+            items: z.array(userModel),
+            total: z.number().nullable(),
+          }),
+        }),
+        { style: 'page', page: 'page', items: 'items', total: 'total' },
+      ),
+    }
+    // The server caps the page size and leaves the total out
+    const pages = [users.slice(0, 10), users.slice(10, 15), users.slice(15)]
+    const requests: string[] = []
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async (request) => {
+        requests.push(request.url)
+        const page = Number(new URL(request.url).searchParams.get('page') ?? 1)
+        return Response.json({ items: pages[page - 1] ?? [], total: null })
+      },
+    })
+
+    const result = await collect(client.api.posts.get.paginate())
+
+    expect(result.flatMap((page) => page.items)).toEqual(users)
+    expect(requests).toEqual([
+      'http://localhost/posts',
+      'http://localhost/posts?page=2',
+      'http://localhost/posts?page=3',
+      'http://localhost/posts?page=4',
+    ])
+  })
+
+  it('should follow the next cursor', async () => {
+    const apiSchema = {
+      getEvents: definePaginated(
+        defineGet('/events', {
+          input: { query: { cursor: z.string().optional() } },
+          response: z.object({
+            items: z.array(userModel),
+            nextCursor: z.string().optional(),
+          }),
+        }),
+        {
+          style: 'cursor',
+          cursor: 'cursor',
+          items: 'items',
+          nextCursor: 'nextCursor',
+        },
+      ),
+    }
+    apiSchema.getEvents.defineMock(users)
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const pages = await collect(client.api.events.get.paginate())
+
+    expect(pages.map((page) => page.nextCursor)).toEqual([
+      '10',
+      '20',
+      undefined,
+    ])
+    expect(pages.flatMap((page) => page.items)).toEqual(users)
+  })
+
+  it('should reject with the error of a failed page', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              page: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', limit: 'limit' },
+      ),
+    }
+    apiSchema.getUsers.defineMock(users)
+    const { app } = createMockServer(apiSchema)
+    let count = 0
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: (request) =>
+        ++count === 2
+          ? Response.json({ message: 'Unavailable' }, { status: 503 })
+          : app.fetch(request),
+    })
+
+    const pages: unknown[] = []
+    const walk = async () => {
+      for await (const page of client.api.users.get.paginate()) {
+        pages.push(page)
+      }
+    }
+
+    await expect(walk()).rejects.toBeInstanceOf(ApiError)
+    expect(pages).toHaveLength(1)
+  })
+
+  it('should only add paginate to paginated endpoints', () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              page: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', limit: 'limit' },
+      ),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUsers.defineMock(users)
+    const client = createApiClient({ apiSchema, baseURL: 'http://localhost' })
+
+    expect('paginate' in client.api.users.id('1').get).toBe(false)
+    // @ts-expect-error the endpoint is not paginated
+    client.api.users.id('1').get.paginate
+  })
+
+  it('should require the query parameters other than the pagination ones', () => {
+    const apiSchema = {
+      search: definePaginated(
+        defineGet('/search', {
+          input: {
+            query: { q: z.string(), page: z.coerce.number().optional() },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page' },
+      ),
+    }
+    const client = createApiClient({ apiSchema, baseURL: 'http://localhost' })
+
+    expectTypeOf(client.api.search.get.paginate)
+      .parameter(0)
+      .toEqualTypeOf<Parameters<typeof client.api.search.get>[0]>()
+  })
+})
@@ -0,0 +1,355 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi,
+} from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet, definePatch } from '../../endpoint/define-endpoint'
+import { createApiClient } from '../api-client'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('Query cache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should deduplicate identical requests in flight', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { page: z.coerce.number().optional() } },
+        response: z.array(userModel),
+      }),
+    }
+    apiSchema.getUsers.defineMock((ctx) => [
+      { id: String(ctx.inputs.query.page ?? 1), name: 'John' },
+    ])
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    const [first, second, otherPage] = await Promise.all([
+      client.api.users.get({ query: { page: 1 } }),
+      client.api.users.get({ query: { page: 1 } }),
+      client.api.users.get({ query: { page: 2 } }),
+    ])
+
+    expect(first).toBe(second)
+    expect(otherPage.data).not.toEqual(first.data)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should abort a shared request only once every caller aborted', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { page: z.coerce.number().optional() } },
+        response: z.array(userModel),
+      }),
+    }
+    // Responds once its signal aborts
+    const fetch = vi.fn(
+      (request: Request) =>
+        new Promise<Response>((_, reject) => {
+          request.signal.addEventListener('abort', () =>
+            reject(request.signal.reason),
+          )
+        }),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const results = Promise.all([
+      client.api.users.get({ query: { page: 1 }, signal: first.signal }),
+      client.api.users.get({ query: { page: 1 }, signal: second.signal }),
+    ])
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fetch).toHaveBeenCalledOnce()
+
+    first.abort()
+    expect(fetch.mock.calls[0][0].signal.aborted).toBe(false)
+
+    second.abort()
+    expect(fetch.mock.calls[0][0].signal.aborted).toBe(true)
+    const [firstResult, secondResult] = await results
+    expect(firstResult.error).toBeDefined()
+    expect(secondResult).toBe(firstResult)
+  })
+
+  it('should not share responses of calls with headers, cookies or credentials', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', {
+        input: { header: { 'x-user': z.string().optional() } },
+        response: userModel,
+      }),
+    }
+    const fetch = vi.fn(async (request: Request) =>
+      Response.json({
+        id: request.headers.get('x-user') ?? 'anonymous',
+        name: request.headers.get('authorization') ?? 'anonymous',
+      }),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    await client.api.me.get({ header: { 'x-user': '1' } })
+    const { data } = await client.api.me.get({ header: { 'x-user': '2' } })
+    expect(data).toEqual({ id: '2', name: 'anonymous' })
+
+    let token = 'token-1'
+    const authClient = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+      auth: { scheme: { type: 'bearer' }, getCredentials: () => token },
+    })
+
+    await authClient.api.me.get({ header: {} })
+    token = 'token-2'
+    const { data: other } = await authClient.api.me.get({ header: {} })
+    expect(other).toEqual({ id: 'anonymous', name: 'Bearer token-2' })
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('should serve fresh responses until the ttl elapsed', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    // Every response carries a version to tell fetched and cached data apart
+    let version = 0
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `v${++version}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    const first = await client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(999)
+    expect((await client.api.users.id('1').get()).data).toEqual(first.data)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    const refetched = await client.api.users.id('1').get()
+    expect(refetched.data).toEqual({ id: '1', name: 'v2' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should serve stale responses while revalidating', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    // Every response carries a version to tell fetched and cached data apart
+    let version = 0
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `v${++version}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000, staleWhileRevalidate: 5000 },
+    })
+
+    await client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(2000)
+
+    const stale = await client.api.users.id('1').get()
+    expect(stale.data).toEqual({ id: '1', name: 'v1' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(
+      client.queryCache.getCached('/users/:id', { params: { id: '1' } }),
+    ).toEqual({ id: '1', name: 'v2' })
+  })
+
+  it('should invalidate cached responses by endpoint path', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      updateUser: definePatch('/users/:id', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.updateUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: ctx.inputs.json.name,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    await client.api.users.id('1').get()
+    await client.api.users.id('2').get()
+    await client.api.users.id('1').patch({ json: { name: 'Jane' } })
+
+    client.queryCache.invalidate('/users/:id', { params: { id: '1' } })
+    await client.api.users.id('1').get()
+    await client.api.users.id('2').get()
+    expect(fetch).toHaveBeenCalledTimes(4)
+
+    client.queryCache.invalidate('/users/:id')
+    await client.api.users.id('2').get()
+    expect(fetch).toHaveBeenCalledTimes(5)
+  })
+
+  it('should not store responses of requests invalidated in flight', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    const pending = client.api.users.id('1').get()
+    client.queryCache.invalidate()
+    await pending
+
+    expect(
+      client.queryCache.getCached('/users/:id', { params: { id: '1' } }),
+    ).toBeUndefined()
+  })
+
+  it('should read and write typed cache entries', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { page: z.coerce.number().optional() } },
+        response: z.array(userModel),
+      }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    const fetch = vi.fn()
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    client.queryCache.setCached(
+      '/users/:id',
+      { id: '1', name: 'Set' },
+      {
+        params: { id: '1' },
+      },
+    )
+    client.queryCache.setCached('/users', (users = []) => [
+      ...users,
+      { id: '9', name: 'Appended' },
+    ])
+
+    const user = client.queryCache.getCached('/users/:id', {
+      params: { id: '1' },
+    })
+    expectTypeOf(user).toEqualTypeOf<z.infer<typeof userModel> | undefined>()
+    expect(user).toEqual({ id: '1', name: 'Set' })
+
+    expect((await client.api.users.id('1').get()).data).toEqual(user)
+    expect((await client.api.users.get({ query: {} })).data).toEqual([
+      { id: '9', name: 'Appended' },
+    ])
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('should bypass the cache on request', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    // Every response carries a version to tell fetched and cached data apart
+    let version = 0
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `v${++version}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    await client.api.users.id('1').get()
+    const fresh = await client.api.users.id('1').get({ queryCache: false })
+
+    expect(fresh.data).toEqual({ id: '1', name: 'v2' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not cache errors', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    const fetch = vi.fn(async () => new Response(null, { status: 500 }))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      queryCache: { ttl: 1000 },
+    })
+
+    await client.api.users.id('1').get()
+    const { error } = await client.api.users.id('1').get()
+
+    expect(error).toBeDefined()
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,191 @@
+import { MutationObserver, QueryClient } from '@tanstack/query-core'
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import {
+  defineGet,
+  definePatch,
+  definePost,
+} from '../../endpoint/define-endpoint'
+import { ApiError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+import { createQueryOptions } from '../query-options'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('createQueryOptions', () => {
+  it('builds query keys from the path, params and query', () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { page: z.coerce.number().optional() } },
+        response: z.array(userModel),
+      }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+      updateUser: definePatch('/users/:id', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: vi.fn(),
+    })
+    const queries = createQueryOptions({ api: client.api })
+
+    expect(queries.users.get.queryKey({ query: { page: 2 } })).toEqual([
+      'users',
+      { method: 'get', query: { page: 2 } },
+    ])
+    expect(queries.users.id('1').get.queryKey()).toEqual([
+      'users',
+      ':id',
+      { method: 'get', params: { id: '1' } },
+    ])
+    expect(queries.users.id('1').patch.mutationKey()).toEqual([
+      'users',
+      ':id',
+      { method: 'patch' },
+    ])
+    expect(queries.$key).toEqual([])
+    expect(queries.users.$key).toEqual(['users'])
+    expect(queries.users.id.$key).toEqual(['users', ':id'])
+    expect(queries.users.id('1').$key).toEqual(['users', ':id'])
+
+    expectTypeOf(queries.users.id.$key).toEqualTypeOf<['users', ':id']>()
+    expectTypeOf(queries.users.id('1').get.queryKey()).toEqualTypeOf<
+      readonly ['users', ':id', { method: 'get'; params: { id: string } }]
+    >()
+  })
+
+  it('fetches through the client and infers the data type', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+    const queries = createQueryOptions({ api: client.api })
+    const queryClient = new QueryClient()
+
+    const user = await queryClient.fetchQuery(
+      queries.users.id('1').get.queryOptions(),
+    )
+
+    expect(user).toEqual({ id: '1', name: 'John' })
+    expectTypeOf(user).toEqualTypeOf<{ id: string; name: string }>()
+    expect(
+      queryClient.getQueryData(queries.users.id('1').get.queryKey()),
+    ).toEqual(user)
+  })
+
+  it('rejects with the error of the call', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock(() => {
+      throw new ApiError('User not found', 404)
+    })
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+    const queries = createQueryOptions({ api: client.api })
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    })
+
+    await expect(
+      queryClient.fetchQuery(queries.users.id('1').get.queryOptions()),
+    ).rejects.toBeInstanceOf(ApiError)
+  })
+
+  it('invalidates every query below a path prefix', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { page: z.coerce.number().optional() } },
+        response: z.array(userModel),
+      }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+    const queries = createQueryOptions({ api: client.api })
+    const queryClient = new QueryClient()
+
+    await queryClient.fetchQuery(queries.users.get.queryOptions({ query: {} }))
+    await queryClient.fetchQuery(queries.users.id('1').get.queryOptions())
+    await queryClient.fetchQuery(queries.users.id('2').get.queryOptions())
+
+    const isInvalidated = (queryKey: readonly unknown[]) =>
+      queryClient.getQueryState(queryKey)?.isInvalidated
+
+    await queryClient.invalidateQueries({
+      queryKey: queries.users.id.$key,
+      refetchType: 'none',
+    })
+    expect(isInvalidated(queries.users.get.queryKey({ query: {} }))).toBe(false)
+    expect(isInvalidated(queries.users.id('1').get.queryKey())).toBe(true)
+    expect(isInvalidated(queries.users.id('2').get.queryKey())).toBe(true)
+
+    await queryClient.invalidateQueries({
+      queryKey: queries.users.$key,
+      refetchType: 'none',
+    })
+    expect(isInvalidated(queries.users.get.queryKey({ query: {} }))).toBe(true)
+  })
+
+  it('runs mutations with the call arguments as variables', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: '2',
+      name: ctx.inputs.json.name,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const queries = createQueryOptions({ api: client.api })
+    const queryClient = new QueryClient()
+    const observer = new MutationObserver(
+      queryClient,
+      queries.users.post.mutationOptions(),
+    )
+
+    const user = await observer.mutate({ json: { name: 'Jane' } })
+
+    expect(user).toEqual({ id: '2', name: 'Jane' })
+    expectTypeOf(user).toEqualTypeOf<{ id: string; name: string }>()
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,96 @@
+import { Hono } from 'hono'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { respond } from '../../create-mock-server/respond'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { ValidationError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('Response headers', () => {
+  it('should return the parsed headers with the data', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number(),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    apiSchema.getUsers.defineMock(
+      respond({
+        headers: { 'X-Total-Count': '42', ETag: '"v1"' },
+        body: [{ id: '1', name: 'John' }],
+      }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const result = await client.api.users.get()
+    if (result.error) throw result.error
+
+    expectTypeOf(result.headers).toEqualTypeOf<{
+      'x-total-count': number
+      etag?: string | undefined
+    }>()
+    expect(result.headers).toEqual({ 'x-total-count': 42, etag: '"v1"' })
+    expect(result.data).toEqual([{ id: '1', name: 'John' }])
+  })
+
+  it('should not add headers to endpoints without a schema', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock({ id: '1', name: 'John' })
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const result = await client.api.users.id('1').get()
+    if (result.error) throw result.error
+
+    expect('headers' in result).toBe(false)
+  })
+
+  it('should return a validation error for invalid headers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number(),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    const app = new Hono().get('/users', (c) =>
+      c.json([], 200, { 'X-Total-Count': 'many' }),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { error } = await client.api.users.get()
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).message).toBe(
+      'Response headers validation failed',
+    )
+    expect((error as ValidationError).getFieldErrors()).toHaveProperty(
+      'x-total-count',
+    )
+  })
+})
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { ApiError, NetworkError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+/** Answers with the given responses in order, repeating the last one */
+function createFetch(...responses: Array<() => Response>) {
+  let calls = 0
+  return vi.fn(async (_input: Request) => {
+    const response = responses[Math.min(calls, responses.length - 1)]
+    calls++
+    return response()
+  })
+}
+
+const unavailable = () => new Response('Unavailable', { status: 503 })
+const ok = () => Response.json({ id: '1' })
+
+describe('Retry policy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should retry failed statuses with exponential backoff', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(unavailable, unavailable, ok)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 100, jitter: false },
+    })
+    const attempts: Array<number | undefined> = []
+    client.interceptors.request.use((context, options) => {
+      attempts.push(context.attempt)
+      return options
+    })
+
+    const result = client.api.users.id('1').get()
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(199)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect((await result).data).toEqual({ id: '1' })
+    expect(attempts).toEqual([1, 2, 3])
+  })
+
+  it('should return the last error once all attempts failed', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(unavailable)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { attempts: 2, baseDelay: 100 },
+    })
+
+    const result = client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(100)
+
+    const { error } = await result
+    expect(error).toBeInstanceOf(ApiError)
+    expect((error as ApiError).status).toBe(503)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should wait as long as the Retry-After header asks', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(
+      () =>
+        new Response(null, { status: 429, headers: { 'Retry-After': '2' } }),
+      ok,
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 100 },
+    })
+
+    const result = client.api.users.id('1').get()
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect((await result).data).toEqual({ id: '1' })
+  })
+
+  it('should retry network errors', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(() => {
+      throw new TypeError('fetch failed')
+    }, ok)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 100, jitter: false },
+    })
+
+    const result = client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect((await result).data).toEqual({ id: '1' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should only retry idempotent methods by default', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(unavailable, ok)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 100 },
+    })
+
+    const { error } = await client.api.users.post({ json: { name: 'John' } })
+    expect(error).toBeInstanceOf(ApiError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    const result = client.api.users.post({
+      json: { name: 'John' },
+      retry: { methods: ['post'] },
+    })
+    await vi.advanceTimersByTimeAsync(100)
+    expect((await result).data).toEqual({ id: '1' })
+  })
+
+  it('should let calls override or disable the client policy', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(unavailable, ok)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 100 },
+    })
+
+    const { error } = await client.api.users.id('1').get({ retry: false })
+    expect(error).toBeInstanceOf(ApiError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    const withoutPolicy = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: createFetch(unavailable, ok),
+    })
+    const result = withoutPolicy.api.users.id('1').get({
+      retry: { baseDelay: 50, jitter: false },
+    })
+    await vi.advanceTimersByTimeAsync(50)
+    expect((await result).data).toEqual({ id: '1' })
+  })
+
+  it('should stop waiting when the request is aborted', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createFetch(unavailable)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { baseDelay: 1000 },
+    })
+    const controller = new AbortController()
+
+    const result = client.api.users.id('1').get({ signal: controller.signal })
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+
+    const { error } = await result
+    expect(error).toBeInstanceOf(NetworkError)
+    expect((error as NetworkError).timeout).toBe(true)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,275 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { defineJSONStream } from '../../endpoint/stream-response'
+import { defineWebSocket } from '../../endpoint/ws-response'
+import { NetworkError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+/** Responds after `delay` milliseconds, ignoring the request signal */
+function createSlowFetch(delay: number) {
+  return vi.fn(
+    (_input: Request) =>
+      new Promise<Response>((resolve) => {
+        setTimeout(() => resolve(Response.json({ id: '1' })), delay)
+      }),
+  )
+}
+
+/** A body that sends the given chunks and then stalls */
+function stallingBody(...chunks: string[]) {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+    },
+  })
+}
+
+/** A WebSocket that never opens */
+class StalledWebSocket extends EventTarget {
+  static OPEN = 1
+  readyState = 0
+
+  close() {
+    this.readyState = 3
+    this.dispatchEvent(new Event('close'))
+  }
+}
+
+describe('Request timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should fail requests that take longer than the client timeout', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: createSlowFetch(1000),
+      timeout: 500,
+    })
+
+    const result = client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(500)
+
+    const { error } = await result
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error?.message).toBe('Request timed out after 500ms')
+    expect((error as NetworkError).timeout).toBe(true)
+  })
+
+  it('should let calls override the client timeout', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: createSlowFetch(1000),
+      timeout: 500,
+    })
+
+    const result = client.api.users.id('1').get({ timeout: 2000 })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect((await result).data).toEqual({ id: '1' })
+  })
+
+  it('should combine the timeout with the signal of the caller', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = createSlowFetch(1000)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      timeout: 500,
+    })
+    const controller = new AbortController()
+
+    const result = client.api.users.id('1').get({ signal: controller.signal })
+    await vi.advanceTimersByTimeAsync(100)
+    controller.abort()
+
+    const { error } = await result
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error?.message).toBe('Request timeout')
+    expect(fetch.mock.calls[0][0].signal.aborted).toBe(true)
+  })
+
+  it('should retry timed out requests only when asked to', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const fetch = vi.fn(
+      (_input: Request) =>
+        new Promise<Response>((resolve) => {
+          const delay = fetch.mock.calls.length === 1 ? 1000 : 100
+          setTimeout(() => resolve(Response.json({ id: '1' })), delay)
+        }),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      timeout: 500,
+      retry: { baseDelay: 10, jitter: false },
+    })
+
+    const failed = client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(500)
+    expect((await failed).error?.message).toBe('Request timed out after 500ms')
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    fetch.mockClear()
+    const retried = client.api.users.id('1').get({ retry: { timeouts: true } })
+    await vi.advanceTimersByTimeAsync(610)
+    expect((await retried).data).toEqual({ id: '1' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not leave listeners on the signal of the caller', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: () => Promise.resolve(new Response(null, { status: 503 })),
+      timeout: 500,
+      retry: { attempts: 3, baseDelay: 10, jitter: false },
+    })
+    const { signal } = new AbortController()
+    let listeners = 0
+    const addEventListener = signal.addEventListener.bind(signal)
+    const removeEventListener = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (
+      ...args: Parameters<typeof addEventListener>
+    ) => {
+      listeners++
+      addEventListener(...args)
+    }
+    signal.removeEventListener = (
+      ...args: Parameters<typeof removeEventListener>
+    ) => {
+      listeners--
+      removeEventListener(...args)
+    }
+
+    const result = client.api.users.id('1').get({ signal })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect((await result).error).toBeDefined()
+    expect(listeners).toBe(0)
+  })
+
+  it('should include reading the response body', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async () =>
+        new Response(stallingBody('{"id":'), {
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      timeout: 500,
+    })
+
+    const result = client.api.users.id('1').get()
+    await vi.advanceTimersByTimeAsync(500)
+
+    const { error } = await result
+    expect(error?.message).toBe('Request timed out after 500ms')
+  })
+
+  it('should apply to every read of a stream', async () => {
+    const apiSchema = {
+      items: defineGet('/items', {
+        response: defineJSONStream(z.object({ id: z.number() })),
+      }),
+    }
+
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async () => new Response(stallingBody('{"id":1}\n')),
+      timeout: 500,
+    })
+
+    const { data } = await client.api.items.get.$stream()
+    if (!data) throw new Error('expected a stream')
+
+    expect((await data.next()).value).toMatchObject({ data: { id: 1 } })
+
+    const next = data.next()
+    const failure = expect(next).rejects.toThrow(
+      'Stream read timed out after 500ms',
+    )
+    await vi.advanceTimersByTimeAsync(500)
+    await failure
+  })
+
+  it('should close WebSockets that do not connect in time', async () => {
+    const apiSchema = {
+      chat: defineGet('/chat', {
+        response: defineWebSocket([z.string()], [z.string()]),
+      }),
+    }
+
+    vi.stubGlobal('WebSocket', StalledWebSocket)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      timeout: 500,
+    })
+
+    const { data } = await client.api.chat.get.$ws()
+    if (!data) throw new Error('expected a WebSocket')
+
+    const chunks: unknown[] = []
+    const collected = (async () => {
+      for await (const chunk of data) chunks.push(chunk)
+    })()
+    await vi.advanceTimersByTimeAsync(500)
+    await collected
+
+    expect(chunks).toEqual([
+      { type: 'status', status: 'connecting' },
+      { type: 'error', error: expect.any(NetworkError) },
+      { type: 'status', status: 'closed' },
+    ])
+    expect((chunks[1] as { error: Error }).error.message).toBe(
+      'WebSocket connection timed out after 500ms',
+    )
+  })
+})
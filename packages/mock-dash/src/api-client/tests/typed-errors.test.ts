@@ -0,0 +1,128 @@
+import { Hono } from 'hono'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { ApiError, isApiErrorStatus, ValidationError } from '../../utils/errors'
+import { createApiClient } from '../api-client'
+
+const notFoundSchema = z.object({ message: z.string(), resource: z.string() })
+const problemSchema = z.object({
+  fields: z.record(z.string(), z.array(z.string())),
+})
+
+describe('Typed error responses', () => {
+  it('should return typed errors from mocks with their status', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string(), name: z.string() }),
+        errors: { 404: notFoundSchema },
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => {
+      if (ctx.inputs.param.id === 'missing') {
+        return ctx.error(404, { message: 'Not found', resource: 'user' })
+      }
+      return { id: ctx.inputs.param.id, name: 'John' }
+    })
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const found = await client.api.users.id('1').get()
+    expect(found.data).toEqual({ id: '1', name: 'John' })
+
+    const { error } = await client.api.users.id('missing').get()
+    expect(error).toBeInstanceOf(ApiError)
+
+    if (!isApiErrorStatus(error, 404)) throw new Error('expected a 404')
+    expectTypeOf(error.body).toEqualTypeOf<z.infer<typeof notFoundSchema>>()
+    expect(error.status).toBe(404)
+    expect(error.body).toEqual({ message: 'Not found', resource: 'user' })
+  })
+
+  it('should narrow the body by status', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: z.object({ id: z.string(), name: z.string() }),
+        errors: { 404: notFoundSchema, 422: problemSchema },
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) =>
+      ctx.error(422, { fields: { name: [`"${ctx.inputs.json.name}" taken`] } }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { error } = await client.api.users.post({ json: { name: 'john' } })
+
+    expect(isApiErrorStatus(error, 404)).toBe(false)
+    if (!isApiErrorStatus(error, 422)) throw new Error('expected a 422')
+    expectTypeOf(error.body).toEqualTypeOf<z.infer<typeof problemSchema>>()
+    expect(error.body.fields.name).toEqual(['"john" taken'])
+  })
+
+  it('should fall back to an untyped body for undeclared statuses', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string(), name: z.string() }),
+        errors: { 404: notFoundSchema },
+      }),
+    }
+    const app = new Hono().get('/users/:id', (c) =>
+      c.json({ message: 'boom' }, 500),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { error } = await client.api.users.id('1').get()
+
+    if (!isApiErrorStatus(error, 500)) throw new Error('expected a 500')
+    expectTypeOf(error.body).toBeUnknown()
+    expect(error.body).toEqual({ message: 'boom' })
+  })
+
+  it('should fail validation when the error body does not match', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string(), name: z.string() }),
+        errors: { 404: notFoundSchema },
+      }),
+    }
+    const app = new Hono().get('/users/:id', (c) =>
+      c.json({ unexpected: true }, 404),
+    )
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { error } = await client.api.users.id('1').get()
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).status).toBe(404)
+    expect((error as ValidationError).validationType).toBe('response')
+    expect(isApiErrorStatus(error, 404)).toBe(false)
+  })
+
+  it('should leave the body of errors without one undefined', () => {
+    const error = new ApiError<{ message: string }>('Failed', 500)
+
+    expect(error.body).toBeUndefined()
+    expectTypeOf(error.body).toEqualTypeOf<{ message: string } | undefined>()
+  })
+})
@@ -0,0 +1,111 @@
+import { NetworkError } from '../utils/errors'
+
+export type RequestTimeout = {
+  /** Aborts once the timeout elapsed or the signal of the caller aborted */
+  readonly signal: AbortSignal
+  /** Stops the timer, an abort of the caller's signal is still forwarded */
+  readonly clear: () => void
+}
+
+/**
+ * @internal
+ * The error reported when a request, a stream read or a WebSocket connection
+ * takes longer than the configured timeout.
+ */
+export function createTimeoutError(
+  message: string,
+  timeout: number,
+  options: { url: string; method: string },
+) {
+  return new NetworkError(`${message} after ${timeout}ms`, {
+    ...options,
+    timeout: true,
+  })
+}
+
+/**
+ * @internal
+ * Combines the timeout with the signal of the caller. The timer aborts the
+ * signal with the error returned by `onTimeout`. `AbortSignal.any` follows the
+ * caller's signal without adding a listener per attempt to it.
+ */
+export function createRequestTimeout(
+  timeout: number,
+  signal: AbortSignal | null | undefined,
+  onTimeout: () => Error,
+): RequestTimeout {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(onTimeout()), timeout)
+
+  return {
+    signal: signal
+      ? AbortSignal.any([signal, controller.signal])
+      : controller.signal,
+    clear: () => clearTimeout(timer),
+  }
+}
+
+/**
+ * @internal
+ * Rejects with the abort reason as soon as the signal aborts, even when the
+ * promise itself ignores the signal (e.g. a custom `fetch` implementation).
+ */
+export function raceSignal<T>(
+  promise: T | Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  if (!signal) return Promise.resolve(promise)
+  if (signal.aborted) {
+    Promise.resolve(promise).catch(() => {})
+    return Promise.reject(signal.reason)
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    Promise.resolve(promise)
+      .then(resolve, reject)
+      .finally(() => {
+        signal.removeEventListener('abort', onAbort)
+      })
+  })
+}
+
+/**
+ * @internal
+ * Wraps a stream so every read fails with the error returned by `onTimeout`
+ * when no chunk arrives within `timeout` milliseconds.
+ */
+export function withReadTimeout(
+  stream: ReadableStream<Uint8Array>,
+  timeout: number,
+  onTimeout: () => Error,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader()
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(onTimeout()), timeout)
+      })
+
+      try {
+        const { done, value } = await Promise.race([reader.read(), timedOut])
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        reader.cancel(error).catch(() => {})
+        controller.error(error)
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
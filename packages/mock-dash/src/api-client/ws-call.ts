@@ -13,6 +13,7 @@ import type {
   FetchOptions,
 } from './client-base'
 import type { InterceptorManager } from './interceptor'
+import { createTimeoutError } from './timeout'
 
 // Represents a successfully parsed message
 type WebSocketMessage<T> = {
@@ -156,11 +157,12 @@ export function callWebSocketEndpoint(
     const wsUrl = fullUrl.replace(/^http/, 'ws')
 
     // Create WebSocket connection
+    const WebSocketImpl = requestOptions.WebSocket ?? WebSocket
     let ws: WebSocket
     try {
       // Note: WebSocket in browsers doesn't support custom headers directly
       // For authenticated WebSockets, use query parameters or protocols
-      ws = new WebSocket(wsUrl)
+      ws = new WebSocketImpl(wsUrl)
     } catch (error) {
       return {
         error: new NetworkError(
@@ -172,13 +174,34 @@ export function callWebSocketEndpoint(
       }
     }
 
+    // Close the socket when it does not open within the timeout
+    const connectTimeout = new AbortController()
+    const timeout = inputData?.timeout ?? requestOptions.timeout
+    if (timeout) {
+      const timer = setTimeout(() => {
+        connectTimeout.abort(
+          createTimeoutError('WebSocket connection timed out', timeout, {
+            url: wsUrl,
+            method: endpoint.method,
+          }),
+        )
+        ws.close()
+      }, timeout)
+      ws.addEventListener('open', () => clearTimeout(timer))
+      ws.addEventListener('close', () => clearTimeout(timer))
+    }
+
     // Create the async generator for messages
-    const messageGenerator = wsMessageParser(ws, schema.serverToClient)
+    const messageGenerator = wsMessageParser(
+      ws,
+      schema.serverToClient,
+      connectTimeout.signal,
+    )
 
     // Create the controller for sending messages and closing the connection
     const controller: WebSocketController<WebSocketResponse<any>> = {
       send: (data) => {
-        if (ws.readyState === WebSocket.OPEN) {
+        if (ws.readyState === WebSocketImpl.OPEN) {
           const message = JSON.stringify(data)
           ws.send(message)
         } else {
@@ -188,7 +211,7 @@ export function callWebSocketEndpoint(
         }
       },
       sendRaw: (data) => {
-        if (ws.readyState === WebSocket.OPEN) {
+        if (ws.readyState === WebSocketImpl.OPEN) {
           ws.send(data)
         } else {
           throw new Error(
@@ -217,6 +240,7 @@ export function callWebSocketEndpoint(
 async function* wsMessageParser<S extends Array<z.ZodType>>(
   ws: WebSocket,
   schemas: S,
+  connectTimeout: AbortSignal,
 ): AsyncGenerator<WSChunk<WebSocketResponse<S>>, void, void> {
   // Queue for storing messages
   const messageQueue: (WSChunk<WebSocketResponse<S>> | null)[] = []
@@ -305,6 +329,19 @@ async function* wsMessageParser<S extends Array<z.ZodType>>(
     }
   })
 
+  const onConnectTimeout = () => {
+    messageQueue.push({ type: 'error', error: connectTimeout.reason })
+    if (resolver) {
+      resolver()
+      resolver = null
+    }
+  }
+  if (connectTimeout.aborted) {
+    onConnectTimeout()
+  } else {
+    connectTimeout.addEventListener('abort', onConnectTimeout, { once: true })
+  }
+
   ws.addEventListener('error', () => {
     connectionError = new Error('WebSocket error occurred')
     messageQueue.push({
@@ -0,0 +1,105 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { Endpoint } from '../endpoint/endpoint'
+import { toOpenAPI } from '../to-openapi/to-openapi'
+import type { ExportCliOptions } from './parse-args'
+
+let yaml: typeof import('yaml') | undefined
+
+/**
+ * The schema module creates its endpoints with the installed `mock-dash`
+ * package, which is a different copy than the one bundled into the CLI. Use
+ * its `toOpenAPI` so `instanceof` checks keep working.
+ */
+async function resolveToOpenAPI(
+  apiSchema: Record<string, unknown>,
+): Promise<typeof toOpenAPI> {
+  const endpoint = Object.values(apiSchema).find(
+    (value) => typeof value === 'object' && value !== null && 'method' in value,
+  )
+  if (!endpoint || endpoint instanceof Endpoint) return toOpenAPI
+
+  const packageName = 'mock-dash'
+  const installed = await import(/* @vite-ignore */ packageName)
+  return installed.toOpenAPI
+}
+
+export async function runOpenAPIExport({
+  input,
+  outFile,
+  exportName,
+  format,
+  title,
+  version,
+  servers,
+}: ExportCliOptions) {
+  if (!input) {
+    console.error('Missing <schema-module> argument.')
+    printHelpAboutExport()
+    process.exit(1)
+  }
+
+  try {
+    const modulePath = path.resolve(process.cwd(), input)
+    const schemaModule = await import(pathToFileURL(modulePath).href)
+    const apiSchema: Record<string, unknown> = exportName
+      ? schemaModule[exportName]
+      : schemaModule
+    if (!apiSchema || typeof apiSchema !== 'object') {
+      throw new Error(`Export "${exportName}" not found in ${input}`)
+    }
+
+    const convert = await resolveToOpenAPI(apiSchema)
+    const document = convert(apiSchema, {
+      info: { title, version },
+      servers: servers.length ? servers.map((url) => ({ url })) : undefined,
+    })
+
+    const outputFormat = format ?? (/\.ya?ml$/i.test(outFile) ? 'yaml' : 'json')
+    let contents: string
+    if (outputFormat === 'yaml') {
+      yaml = yaml ?? (await import('yaml'))
+      contents = yaml.stringify(document)
+    } else {
+      contents = `${JSON.stringify(document, null, 2)}\n`
+    }
+
+    const destPath = path.resolve(process.cwd(), outFile)
+    fs.writeFileSync(destPath, contents)
+    console.log(`✔ OpenAPI document exported: ${destPath}`)
+  } catch (err) {
+    console.error(
+      'Failed to export OpenAPI document:',
+      err instanceof Error ? err.message : String(err),
+    )
+    process.exit(1)
+  }
+}
+
+export function printHelpAboutExport() {
+  console.log(
+    `mock-dash CLI
+
+Usage:
+  mock-dash export <schema-module> [--out <file>] [--export <name>] [--format <json|yaml>] [--title <title>] [--version <version>] [--server <url>]
+
+Options:
+  --out, -o <file>        Output file path (default: openapi.json)
+  --export, -e <name>     Named export holding the api schema (default: all exports of the module)
+  --format, -f <format>   json or yaml (default: derived from the output file extension)
+  --title <title>         Title of the API (default: API)
+  --version <version>     Version of the API (default: 1.0.0)
+  --server, -s <url>      Server URL. Can be used multiple times or comma-separated.
+  --help, -h              Show this help message
+
+The schema module is loaded with Node.js. TypeScript modules require a runtime
+with type stripping (Node.js 22.18+) or a loader such as tsx.
+
+Examples:
+  mock-dash export ./dist/api-schema.js
+  mock-dash export ./src/api-schema.ts --export apiSchema --out openapi.yaml
+  mock-dash export ./api-schema.js --title "Shop API" --server https://api.example.com
+`,
+  )
+}
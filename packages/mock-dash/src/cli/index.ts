@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import { runOpenAPIExport } from './export'
 import { runSchemaGenerator } from './generate'
 import { parseArgs } from './parse-args'
 
@@ -11,6 +12,11 @@ async function main() {
     process.exit(0)
   }
 
+  if (cliArguments.command === 'export') {
+    await runOpenAPIExport(cliArguments)
+    process.exit(0)
+  }
+
   console.log('Unknown command. Run `mock-dash --help` for more information.')
   process.exit(1)
 }
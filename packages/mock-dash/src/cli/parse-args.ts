@@ -1,3 +1,4 @@
+import { printHelpAboutExport } from './export'
 import { printHelpAboutGenerate } from './generate'
 
 export type GenerateCliOptions = {
@@ -8,8 +9,26 @@ export type GenerateCliOptions = {
   propertiesRequiredByDefault: boolean // Treat schema objects without required as having all properties required.
 }
 
-type CliOptions = GenerateCliOptions
+export type ExportCliOptions = {
+  command: 'export'
+  input: string | undefined
+  outFile: string
+  exportName: string | undefined // Named export holding the api schema
+  format: 'json' | 'yaml' | undefined
+  title: string
+  version: string
+  servers: string[]
+}
 
+type CliOptions = GenerateCliOptions | ExportCliOptions
+
+export function parseArgs(
+  argv: [string, string, 'generate', ...string[]],
+): GenerateCliOptions
+export function parseArgs(
+  argv: [string, string, 'export', ...string[]],
+): ExportCliOptions
+export function parseArgs(argv: string[]): CliOptions
 export function parseArgs(argv: string[]): CliOptions {
   const args = argv.slice(2)
 
@@ -23,6 +42,10 @@ export function parseArgs(argv: string[]): CliOptions {
     return parseGenerateArgs(args)
   }
 
+  if (command === 'export') {
+    return parseExportArgs(args)
+  }
+
   printHelp()
   process.exit(0)
 }
@@ -36,6 +59,7 @@ Usage:
 
 Commands:
   generate    Generate TypeScript schema from OpenAPI specification
+  export      Export an OpenAPI 3.1 document from a TypeScript schema
 
 Run 'mock-dash <command> --help' for more information on a command.
 `,
@@ -76,3 +100,62 @@ function parseGenerateArgs(args: string[]): GenerateCliOptions {
 
   return ctx
 }
+
+function parseExportArgs(args: string[]): ExportCliOptions {
+  const ctx: ExportCliOptions = {
+    command: 'export',
+    input: args[1],
+    outFile: 'openapi.json',
+    exportName: undefined,
+    format: undefined,
+    title: 'API',
+    version: '1.0.0',
+    servers: [],
+  }
+
+  for (let i = 2; i < args.length; i++) {
+    const arg = args[i]
+    if ((arg === '--out' || arg === '-o') && i + 1 < args.length) {
+      ctx.outFile = args[i + 1]
+      i++
+    }
+
+    if ((arg === '--export' || arg === '-e') && i + 1 < args.length) {
+      ctx.exportName = args[i + 1]
+      i++
+    }
+
+    if ((arg === '--format' || arg === '-f') && i + 1 < args.length) {
+      const format = args[i + 1]
+      if (format !== 'json' && format !== 'yaml') {
+        console.error(`Invalid --format "${format}", expected json or yaml.`)
+        printHelpAboutExport()
+        process.exit(1)
+      }
+      ctx.format = format
+      i++
+    }
+
+    if (arg === '--title' && i + 1 < args.length) {
+      ctx.title = args[i + 1]
+      i++
+    }
+
+    if (arg === '--version' && i + 1 < args.length) {
+      ctx.version = args[i + 1]
+      i++
+    }
+
+    if ((arg === '--server' || arg === '-s') && i + 1 < args.length) {
+      ctx.servers.push(...args[i + 1].split(','))
+      i++
+    }
+
+    if (arg === '--help' || arg === '-h') {
+      printHelpAboutExport()
+      process.exit(0)
+    }
+  }
+
+  return ctx
+}
@@ -0,0 +1,13 @@
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+
+export const userModel = z.object({ id: z.string(), name: z.string() })
+
+export const getUser = defineGet('/users/:id', { response: userModel })
+
+export const createUser = definePost('/users', {
+  input: { json: z.object({ name: z.string() }) },
+  response: userModel,
+})
+
+export const apiSchema = { getUser }
@@ -0,0 +1,137 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import YAML from 'yaml'
+import { runOpenAPIExport } from '../export'
+import { runSchemaGenerator } from '../generate'
+import { parseArgs } from '../parse-args'
+
+const SCHEMA_MODULE = './src/cli/tests/api-schema.ts'
+const OUTPUT_JSON = 'openapi.test-export.json'
+const OUTPUT_YAML = 'openapi.test-export.yaml'
+const OUTPUT_TS = 'mock-dash-schema.test-export.ts'
+
+function removeOutputs() {
+  for (const file of [OUTPUT_JSON, OUTPUT_YAML, OUTPUT_TS]) {
+    const dest = path.resolve(process.cwd(), file)
+    if (fs.existsSync(dest)) fs.unlinkSync(dest)
+  }
+}
+
+describe('runOpenAPIExport CLI integration', () => {
+  beforeEach(() => {
+    removeOutputs()
+  })
+
+  afterEach(() => {
+    removeOutputs()
+    vi.restoreAllMocks()
+  })
+
+  it('exports every endpoint of a schema module as JSON', async () => {
+    const args = parseArgs([
+      'node',
+      'mock-dash',
+      'export',
+      SCHEMA_MODULE,
+      '--out',
+      OUTPUT_JSON,
+      '--title',
+      'Users API',
+      '--version',
+      '2.0.0',
+      '--server',
+      'https://api.example.com,https://staging.example.com',
+    ])
+    await runOpenAPIExport(args)
+
+    const document = JSON.parse(
+      fs.readFileSync(path.resolve(process.cwd(), OUTPUT_JSON), 'utf8'),
+    )
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual({ title: 'Users API', version: '2.0.0' })
+    expect(document.servers).toEqual([
+      { url: 'https://api.example.com' },
+      { url: 'https://staging.example.com' },
+    ])
+    expect(document.paths['/users/{id}'].get.operationId).toBe('getUser')
+    expect(document.paths['/users'].post.operationId).toBe('createUser')
+  })
+
+  it('exports a named export as YAML', async () => {
+    const args = parseArgs([
+      'node',
+      'mock-dash',
+      'export',
+      SCHEMA_MODULE,
+      '--export',
+      'apiSchema',
+      '--out',
+      OUTPUT_YAML,
+    ])
+    expect(args).toMatchObject({ exportName: 'apiSchema', format: undefined })
+    await runOpenAPIExport(args)
+
+    const document = YAML.parse(
+      fs.readFileSync(path.resolve(process.cwd(), OUTPUT_YAML), 'utf8'),
+    )
+    expect(document.info).toEqual({ title: 'API', version: '1.0.0' })
+    expect(Object.keys(document.paths)).toEqual(['/users/{id}'])
+  })
+
+  it('exits with an error on an invalid format', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('exit')
+    })
+
+    expect(() =>
+      parseArgs([
+        'node',
+        'mock-dash',
+        'export',
+        SCHEMA_MODULE,
+        '--format',
+        'xml',
+      ]),
+    ).toThrow('exit')
+    expect(error).toHaveBeenCalledWith(
+      'Invalid --format "xml", expected json or yaml.',
+    )
+    expect(exit).toHaveBeenCalledWith(1)
+  })
+
+  it('produces documents that can be generated back into a schema', async () => {
+    await runOpenAPIExport(
+      parseArgs([
+        'node',
+        'mock-dash',
+        'export',
+        SCHEMA_MODULE,
+        '--out',
+        OUTPUT_JSON,
+      ]),
+    )
+    await runSchemaGenerator(
+      parseArgs([
+        'node',
+        'mock-dash',
+        'generate',
+        OUTPUT_JSON,
+        '--out',
+        OUTPUT_TS,
+      ]),
+    )
+
+    const contents = fs.readFileSync(
+      path.resolve(process.cwd(), OUTPUT_TS),
+      'utf8',
+    )
+    expect(contents).toContain('defineGet("/users/:id"')
+    expect(contents).toContain(
+      'response: z.object({ "id": z.string(), "name": z.string() })',
+    )
+    expect(contents).toContain('definePost("/users"')
+  })
+})
@@ -0,0 +1,111 @@
+import type { Context, MiddlewareHandler } from 'hono'
+import { getCookie } from 'hono/cookie'
+import type z from 'zod'
+import type { AuthCredentials, AuthScheme } from '../endpoint/auth'
+import type { Endpoint } from '../endpoint/endpoint'
+import type { Random } from '../utils/random'
+import type { MaybePromise } from '../utils/types'
+
+/** `true` accepts the credentials, `false` responds 401 and `'forbidden'` 403 */
+export type AuthVerdict = boolean | 'forbidden'
+
+export type MockAuthOptions = {
+  /** Scheme of endpoints without an `auth` option */
+  readonly scheme?: AuthScheme
+  /** Decides on the credentials of a request, defaults to accepting any */
+  readonly verify?: (
+    credentials: AuthCredentials,
+    context: { endpoint: Endpoint; honoContext: Context },
+  ) => MaybePromise<AuthVerdict>
+}
+
+function fromBase64(value: string) {
+  const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+function readCredentials(
+  c: Context,
+  scheme: AuthScheme,
+): AuthCredentials | undefined {
+  const authorization = c.req.header('authorization') ?? ''
+
+  switch (scheme.type) {
+    case 'bearer': {
+      const token = authorization.match(/^Bearer\s+(.+)$/i)?.[1]
+      return token ? { type: 'bearer', token } : undefined
+    }
+    case 'basic': {
+      const encoded = authorization.match(/^Basic\s+(.+)$/i)?.[1]
+      if (!encoded) return undefined
+      try {
+        const decoded = fromBase64(encoded)
+        const separator = decoded.indexOf(':')
+        if (separator < 0) return undefined
+        return {
+          type: 'basic',
+          username: decoded.slice(0, separator),
+          password: decoded.slice(separator + 1),
+        }
+      } catch {
+        return undefined
+      }
+    }
+    case 'apiKey': {
+      const key =
+        scheme.in === 'header'
+          ? c.req.header(scheme.name)
+          : c.req.query(scheme.name)
+      return key ? { type: 'apiKey', key } : undefined
+    }
+    case 'cookie': {
+      const value = getCookie(c, scheme.name)
+      return value ? { type: 'cookie', value } : undefined
+    }
+  }
+}
+
+function challenge(scheme: AuthScheme) {
+  if (scheme.type === 'bearer') return 'Bearer realm="mock-dash"'
+  if (scheme.type === 'basic') return 'Basic realm="mock-dash"'
+  return undefined
+}
+
+/**
+ * @internal
+ * Rejects requests without accepted credentials with 401, or 403 when `verify`
+ * forbids them. The body is generated from the `errors` schema of the status
+ * when the endpoint declares one, with the random source `createRandom` gives
+ * for the request. Returns `undefined` for public endpoints.
+ */
+export function createAuthGuard(
+  options: MockAuthOptions | undefined,
+  endpoint: Endpoint,
+  zodToMock: (schema: z.ZodType, random: Random) => unknown,
+  createRandom: (c: Context) => Random,
+): MiddlewareHandler | undefined {
+  const endpointAuth = endpoint.options?.auth
+  const scheme =
+    endpointAuth === false ? undefined : (endpointAuth ?? options?.scheme)
+  if (!scheme) return undefined
+
+  const reject = (c: Context, status: 401 | 403, message: string) => {
+    const schema = endpoint.errors?.[status]
+    const body = schema ? zodToMock(schema, createRandom(c)) : { message }
+    const header = status === 401 ? challenge(scheme) : undefined
+    return c.json(body, status, header ? { 'WWW-Authenticate': header } : {})
+  }
+
+  return async (c, next) => {
+    const credentials = readCredentials(c, scheme)
+    if (!credentials) return reject(c, 401, 'Missing credentials')
+
+    const verdict = options?.verify
+      ? await options.verify(credentials, { endpoint, honoContext: c })
+      : true
+    if (verdict === 'forbidden') return reject(c, 403, 'Forbidden')
+    if (!verdict) return reject(c, 401, 'Invalid credentials')
+
+    await next()
+  }
+}
@@ -0,0 +1,160 @@
+import type { Context, MiddlewareHandler, ValidationTargets } from 'hono'
+import { getCookie } from 'hono/cookie'
+import type { Endpoint } from '../endpoint/endpoint'
+import type { InferInput, ParsedPathParameters } from '../endpoint/input'
+import type { DeepPartial } from '../utils/types'
+
+export type CallRecorderOptions = {
+  /** Number of calls kept, older calls are dropped first, defaults to 1000 */
+  readonly limit?: number
+}
+
+/** The inputs of a recorded call, validated when the request passed validation */
+export type RecordedInputs<E extends Endpoint = Endpoint> =
+  E extends Endpoint<infer _R, infer P, infer _M, infer I>
+    ? InferInput<I> & { param: ParsedPathParameters<P> }
+    : never
+
+/** A request handled by the mock server */
+export type RecordedCall<E extends Endpoint = Endpoint> = {
+  readonly endpoint: E
+  readonly url: string
+  readonly inputs: RecordedInputs<E>
+  /** Request headers, with lower case names */
+  readonly headers: Record<string, string>
+  /** When the request arrived, in milliseconds since the epoch */
+  readonly timestamp: number
+  readonly status: number
+}
+
+export type ExpectCalledOptions = {
+  /** Exact number of matching calls, defaults to at least one */
+  readonly times?: number
+}
+
+/** Reads the requests a mock server has handled */
+export type CallRecorder = {
+  /** The calls of an endpoint, or of every endpoint, oldest first */
+  calls<E extends Endpoint>(endpoint?: E): RecordedCall<E>[]
+  /**
+   * Throws unless the endpoint was called with inputs matching `inputs`.
+   * Objects match when every property given in `inputs` matches.
+   * Returns the matching calls.
+   */
+  expectCalled<E extends Endpoint>(
+    endpoint: E,
+    inputs?: DeepPartial<RecordedInputs<E>>,
+    options?: ExpectCalledOptions,
+  ): RecordedCall<E>[]
+  /** Forgets every recorded call */
+  clearCalls(): void
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) return true
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matches(actual[index], item))
+    )
+  }
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime()
+  }
+  if (expected && typeof expected === 'object') {
+    return (
+      !!actual &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) =>
+        matches((actual as Record<string, unknown>)[key], value),
+      )
+    )
+  }
+  return false
+}
+
+async function readInput(c: Context, target: keyof ValidationTargets) {
+  const valid = c.req.valid(target as never)
+  if (valid !== undefined) return valid
+
+  // The request was rejected, record what was sent
+  if (target === 'query') return c.req.query()
+  if (target === 'json') return c.req.json().catch(() => undefined)
+  if (target === 'form') return c.req.parseBody().catch(() => undefined)
+  if (target === 'header') return c.req.header()
+  if (target === 'cookie') return getCookie(c)
+  return undefined
+}
+
+function describeCall(endpoint: Endpoint) {
+  return `${endpoint.method.toUpperCase()} ${endpoint.path}`
+}
+
+/**
+ * @internal
+ * Creates the call history of a mock server and the middleware recording the
+ * requests of each endpoint.
+ */
+export function createCallRecorder(options: CallRecorderOptions = {}) {
+  const limit = options.limit ?? 1000
+  let history: RecordedCall[] = []
+
+  const recorder: CallRecorder = {
+    calls: <E extends Endpoint>(endpoint?: E) =>
+      (endpoint
+        ? history.filter((call) => call.endpoint === endpoint)
+        : [...history]) as RecordedCall<E>[],
+    expectCalled: (endpoint, inputs, expectOptions) => {
+      const calls = recorder.calls(endpoint)
+      const matching = calls.filter((call) =>
+        matches(call.inputs, inputs ?? {}),
+      )
+      const times = expectOptions?.times
+
+      if (
+        times === undefined ? matching.length > 0 : matching.length === times
+      ) {
+        return matching
+      }
+
+      const expectation =
+        times === undefined ? 'at least once' : `${times} times`
+      const received = calls
+        .map((call) => `\n  ${JSON.stringify(call.inputs)}`)
+        .join('')
+      throw new Error(
+        `Expected ${describeCall(endpoint)} to be called ${expectation}` +
+          (inputs ? ` with ${JSON.stringify(inputs)}` : '') +
+          `, but ${matching.length} of ${calls.length} calls matched${received}`,
+      )
+    },
+    clearCalls: () => {
+      history = []
+    },
+  }
+
+  const record =
+    (endpoint: Endpoint): MiddlewareHandler =>
+    async (c, next) => {
+      const timestamp = Date.now()
+      await next()
+
+      const inputs: Record<string, unknown> = { param: c.req.param() }
+      for (const target of Object.keys(endpoint.input ?? {})) {
+        inputs[target] = await readInput(c, target as keyof ValidationTargets)
+      }
+
+      history.push({
+        endpoint,
+        url: c.req.url,
+        inputs: inputs as RecordedInputs,
+        headers: c.req.header(),
+        timestamp,
+        status: c.res.status,
+      })
+      if (history.length > limit) history.shift()
+    }
+
+  return { recorder, record }
+}
@@ -0,0 +1,290 @@
+import z from 'zod'
+import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import { MockError } from '../utils/errors'
+import { createRandom } from '../utils/random'
+import type { MockGenerationOptions } from './create-mock-server'
+import type { EndpointInputContext } from './mock'
+
+type ZodToMock = NonNullable<MockGenerationOptions['zodToMock']>
+
+export type CollectionOptions<S extends z.ZodObject> = {
+  /** Property used to identify items, defaults to `'id'` */
+  idKey?: keyof z.output<S> & string
+  /**
+   * Initial items of the collection. A number generates that many items
+   * using the mock server's `zodToMock`.
+   */
+  seed?: Array<z.input<S>> | (() => Array<z.input<S>>) | number
+  /** Creates ids for items created without one, defaults to `crypto.randomUUID()` */
+  generateId?: () => string | number
+}
+
+type CollectionOperation =
+  | 'list'
+  | 'get'
+  | 'create'
+  | 'replace'
+  | 'update'
+  | 'remove'
+
+export function isCollection(value: unknown): value is Collection {
+  return value instanceof Collection
+}
+
+/**
+ * A Zod-validated in-memory store shared between mock endpoints.
+ * Collections placed in the api schema are re-seeded every time
+ * `createMockServer` is called.
+ */
+export class Collection<S extends z.ZodObject = z.ZodObject> {
+  public readonly schema: S
+  public readonly idKey: keyof z.output<S> & string
+  readonly #options: CollectionOptions<S>
+  #zodToMock?: ZodToMock
+  #randomSeed?: number | string
+  #items: Array<z.output<S>> = []
+  #bindings = new Map<HttpEndpoint, (ctx: EndpointInputContext) => unknown>()
+
+  constructor(schema: S, options: CollectionOptions<S> = {}) {
+    this.schema = schema
+    this.idKey = options.idKey ?? 'id'
+    this.#options = options
+    this.reset()
+  }
+
+  /**
+   * @internal
+   * Called by `createMockServer` to reset the collection to its seed.
+   */
+  initialize(zodToMock?: ZodToMock, randomSeed?: number | string) {
+    this.#zodToMock = zodToMock
+    this.#randomSeed = randomSeed
+    this.reset()
+  }
+
+  /** Restores the collection to its seed items */
+  reset() {
+    const { seed } = this.#options
+    let items: Array<z.input<S>> = []
+
+    if (typeof seed === 'number') {
+      if (this.#zodToMock) {
+        const random = createRandom(this.#randomSeed)
+        for (let i = 0; i < seed; i++) {
+          items.push(this.#zodToMock(this.schema, random) as z.input<S>)
+        }
+      }
+    } else if (typeof seed === 'function') {
+      items = seed()
+    } else if (seed) {
+      items = seed
+    }
+
+    this.#items = items.map((item) => this.schema.parse(item))
+  }
+
+  /** Returns every item in the collection */
+  all(): Array<z.output<S>> {
+    return structuredClone(this.#items)
+  }
+
+  /** Returns the item with the given id, or undefined */
+  find(id: string | number): z.output<S> | undefined {
+    const item = this.#items[this.#indexOf(id)]
+    return item ? structuredClone(item) : undefined
+  }
+
+  /** Returns the item with the given id, throws a 404 `MockError` if missing */
+  get(id: string | number): z.output<S> {
+    return structuredClone(this.#items[this.#requireIndex(id)])
+  }
+
+  /** Validates and adds an item, generating an id when none is given */
+  insert(input: Partial<z.input<S>>): z.output<S> {
+    const candidate: Record<string, unknown> = { ...input }
+    if (candidate[this.idKey] === undefined || candidate[this.idKey] === null) {
+      candidate[this.idKey] = this.#options.generateId
+        ? this.#options.generateId()
+        : crypto.randomUUID()
+    }
+
+    if (this.#indexOf(candidate[this.idKey] as string | number) !== -1) {
+      throw new MockError(
+        `Item with ${this.idKey} "${candidate[this.idKey]}" already exists`,
+        409,
+      )
+    }
+
+    const item = this.#validate(candidate)
+    this.#items.push(item)
+
+    return structuredClone(item)
+  }
+
+  /** Replaces the item with the given id, keeping its id */
+  replace(id: string | number, input: Partial<z.input<S>>): z.output<S> {
+    const index = this.#requireIndex(id)
+    const item = this.#validate({
+      ...input,
+      [this.idKey]: this.#items[index][this.idKey],
+    })
+    this.#items[index] = item
+
+    return structuredClone(item)
+  }
+
+  /** Merges the given fields into the item with the given id */
+  update(id: string | number, input: Partial<z.input<S>>): z.output<S> {
+    const index = this.#requireIndex(id)
+    const item = this.#validate({
+      ...this.#items[index],
+      ...input,
+      [this.idKey]: this.#items[index][this.idKey],
+    })
+    this.#items[index] = item
+
+    return structuredClone(item)
+  }
+
+  /** Removes the item with the given id and returns it */
+  remove(id: string | number): z.output<S> {
+    const index = this.#requireIndex(id)
+    const [item] = this.#items.splice(index, 1)
+
+    return item
+  }
+
+  /**
+   * Serves the given endpoints from this collection on every mock server whose
+   * api schema contains it. The endpoints themselves are not changed: the
+   * binding takes precedence over their `defineMock` mock, and per-server
+   * overrides take precedence over the binding.
+   *
+   * The operation is derived from the endpoint: `GET /items` lists,
+   * `GET /items/:id` reads, `POST` creates, `PUT` replaces, `PATCH` updates
+   * and `DELETE` removes. The id is read from the last path parameter.
+   * `DELETE` endpoints respond with the removed item, or without content
+   * when their response is `z.void()`.
+   */
+  bind(
+    ...endpoints: Array<HttpEndpoint<any, any, any, any, any, any, any, any>>
+  ): this {
+    for (const endpoint of endpoints) {
+      const param = lastPathParam(endpoint.path)
+      const operation = resolveOperation(endpoint.method, param)
+
+      if (!param && operation !== 'list' && operation !== 'create') {
+        throw new Error(
+          `Cannot bind ${endpoint.method.toUpperCase()} ${endpoint.path} to a collection: the path has no id parameter`,
+        )
+      }
+
+      this.#bindings.set(endpoint, (ctx: EndpointInputContext) => {
+        const id = param
+          ? (ctx.inputs.param as Record<string, string>)[param]
+          : undefined
+        const json = (ctx.inputs as { json?: Partial<z.input<S>> }).json ?? {}
+
+        switch (operation) {
+          case 'list':
+            return this.all()
+          case 'get':
+            return this.get(id!)
+          case 'create':
+            return this.insert(json)
+          case 'replace':
+            return this.replace(id!, json)
+          case 'update':
+            return this.update(id!, json)
+          case 'remove': {
+            const item = this.remove(id!)
+            // DELETE endpoints often respond without content
+            return endpoint.response instanceof z.ZodVoid ? undefined : item
+          }
+        }
+      })
+    }
+
+    return this
+  }
+
+  /**
+   * @internal
+   * The mocks of the bound endpoints, registered by `createMockServer`.
+   */
+  get bindings(): ReadonlyMap<
+    HttpEndpoint,
+    (ctx: EndpointInputContext) => unknown
+  > {
+    return this.#bindings
+  }
+
+  #indexOf(id: string | number) {
+    return this.#items.findIndex(
+      (item) => String(item[this.idKey]) === String(id),
+    )
+  }
+
+  #requireIndex(id: string | number) {
+    const index = this.#indexOf(id)
+    if (index === -1) {
+      throw new MockError(`Item with ${this.idKey} "${id}" not found`, 404)
+    }
+
+    return index
+  }
+
+  #validate(candidate: unknown): z.output<S> {
+    const result = this.schema.safeParse(candidate)
+    if (!result.success) {
+      throw new MockError('Invalid collection item', 400)
+    }
+
+    return result.data
+  }
+}
+
+function lastPathParam(path: string): string | undefined {
+  const last = path.replace(/\/$/, '').split('/').pop()
+  return last?.startsWith(':') ? last.slice(1) : undefined
+}
+
+function resolveOperation(
+  method: string,
+  param: string | undefined,
+): CollectionOperation {
+  switch (method) {
+    case 'get':
+      return param ? 'get' : 'list'
+    case 'post':
+      return 'create'
+    case 'put':
+      return 'replace'
+    case 'patch':
+      return 'update'
+    case 'delete':
+      return 'remove'
+    default:
+      throw new Error(
+        `Cannot bind ${method.toUpperCase()} endpoints to a collection`,
+      )
+  }
+}
+
+/**
+ * Creates an in-memory collection validated by the given object schema.
+ *
+ * @example
+ * ```typescript
+ * const users = defineCollection(userSchema, { seed: [{ id: '1', name: 'Ada' }] })
+ * users.bind(apiSchema.getUsers, apiSchema.getUser, apiSchema.createUser)
+ *
+ * const { app } = createMockServer({ users, ...apiSchema })
+ * ```
+ */
+export function defineCollection<S extends z.ZodObject>(
+  schema: S,
+  options?: CollectionOptions<S>,
+): Collection<S> {
+  return new Collection(schema, options)
+}
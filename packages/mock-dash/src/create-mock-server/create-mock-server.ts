@@ -1,11 +1,19 @@
 import type { createNodeWebSocket } from '@hono/node-ws'
 import { zValidator } from '@hono/zod-validator'
-import { Hono, type MiddlewareHandler, type ValidationTargets } from 'hono'
+import {
+  type Context,
+  Hono,
+  type MiddlewareHandler,
+  type ValidationTargets,
+} from 'hono'
+import { getCookie } from 'hono/cookie'
 import { type SSEMessage, stream, streamSSE } from 'hono/streaming'
+import type { ContentfulStatusCode, StatusCode } from 'hono/utils/http-status'
 import type { SendOptions, UpgradeWebSocket, WSContext } from 'hono/ws'
 import z from 'zod'
 import { Endpoint } from '../endpoint/endpoint'
 import { isHttpEndpoint } from '../endpoint/http-endpoint'
+import type { NetworkOptions } from '../endpoint/network'
 import {
   isBinaryStreamEndpoint,
   isJSONStreamEndpoint,
@@ -20,18 +28,59 @@ import type { AliasOptionFromApiSchema } from '../utils/alias'
 import { buildEndpointPath } from '../utils/build-endpoint-path'
 import { createMock } from '../utils/create-mock'
 import { MockError } from '../utils/errors'
+import { createRandom, type Random } from '../utils/random'
 import { isBinaryArrayBuffer } from '../utils/type-guards'
+import { zodToMock as defaultZodToMock } from '../utils/zod-to-mock'
+import { createAuthGuard, type MockAuthOptions } from './auth'
+import { type CallRecorderOptions, createCallRecorder } from './calls'
+import { isCollection } from './collection'
+import { type FixtureOptions, handleFixture } from './fixtures'
 import type { EndpointInputContext } from './mock'
+import { createNetworkSimulation } from './network'
+import { createMockOverrides } from './overrides'
+import { createPageMock } from './pagination'
+import {
+  createWebSocketProxy,
+  preserveRawRequest,
+  proxyRequest,
+  type UpstreamOptions,
+} from './proxy'
+import { applyMockResponse, isMockResponse } from './respond'
+import { createScenarios, type ScenarioOptions } from './scenarios'
+
+// Statuses sent without a body, whatever the response schema
+const contentlessStatusCodes: StatusCode[] = [101, 204, 205, 304]
+
+// Request header overriding the `seed` option for a single request
+const seedHeader = 'x-mock-seed'
 
 export type MockGenerationOptions<
   T extends Record<string, unknown> = Record<string, unknown>,
 > = {
   readonly base?: string
   readonly addMiddleware?: (app: Hono) => void
-  readonly zodToMock?: <Z extends z.ZodType>(response: Z) => z.infer<Z>
+  /** Generates responses for endpoints without a mock, defaults to the built-in `zodToMock` */
+  readonly zodToMock?: <Z extends z.ZodType>(
+    response: Z,
+    random: Random,
+  ) => z.infer<Z>
   readonly createNodeWebSocket?: typeof createNodeWebSocket
   readonly upgradeWebSocket?: UpgradeWebSocket
   readonly alias?: Record<never, string>
+  readonly fixtures?: FixtureOptions
+  readonly fallback?: UpstreamOptions
+  readonly scenarios?: ScenarioOptions
+  /** Latency and failure simulation applied to every endpoint */
+  readonly network?: NetworkOptions
+  /** History of handled requests read with `calls`, `false` disables it */
+  readonly calls?: CallRecorderOptions | false
+  /** Rejects requests to endpoints with an auth scheme that lack credentials */
+  readonly auth?: MockAuthOptions
+  /**
+   * Seeds the random data of mocks, so every run produces the same data.
+   * Requests can pick their own seed with the `x-mock-seed` header.
+   */
+  readonly seed?: number | string
 } & AliasOptionFromApiSchema<T>
 
 export function createMockServer<T extends Record<string, unknown>>(
@@ -48,6 +97,24 @@ export function createMockServer<T extends Record<string, unknown>>(
 
   options.addMiddleware?.(app)
 
+  const scenarios = createScenarios(app, options.scenarios)
+  const callRecorder = createCallRecorder(options.calls || undefined)
+  const overrides = createMockOverrides()
+  const zodToMock = options.zodToMock ?? defaultZodToMock
+
+  function createRequestRandom(c: Context) {
+    const seed = c.req.header(seedHeader) ?? options.seed
+    // Derived from the request, so its data does not depend on the order of requests
+    return createRandom(
+      seed === undefined
+        ? undefined
+        : `${seed} ${c.req.method} ${c.req.url.slice(new URL(c.req.url).origin.length)}`,
+    )
+  }
+
+  // One sequence for every request, so retries of a failed request can succeed
+  const networkRandom = createRandom(options.seed)
+
   function processEndpoint(
     endpoint: Endpoint,
     //mock?: IMock<HttpMethodPath, z.ZodType | ZodArray<z.ZodType>, any>,
@@ -59,16 +126,41 @@ export function createMockServer<T extends Record<string, unknown>>(
     const method = endpoint.method
     const path = buildEndpointPath(endpoint.path, options.alias)
 
-    const inputValidators = (
-      endpoint.input
+    const networkSimulation = createNetworkSimulation(
+      options.network,
+      endpoint.options?.network,
+      networkRandom,
+    )
+
+    const authGuard = createAuthGuard(
+      options.auth,
+      endpoint,
+      zodToMock,
+      createRequestRandom,
+    )
+
+    const webSocketProxy =
+      options.fallback && isWebSocketEndpoint(endpoint)
+        ? createWebSocketProxy(upgradeWebSocket!, options.fallback)
+        : undefined
+
+    const inputValidators = [
+      ...(options.calls !== false ? [callRecorder.record(endpoint)] : []),
+      ...(networkSimulation ? [networkSimulation] : []),
+      ...(authGuard ? [authGuard] : []),
+      ...((isHttpEndpoint(endpoint) && options.fixtures?.mode === 'record') ||
+      options.fallback
+        ? [preserveRawRequest]
+        : []),
+      ...(endpoint.input
         ? Object.entries(endpoint.input).map(([target, zodType]) =>
             zValidator(
               target as keyof ValidationTargets,
               zodType instanceof z.ZodType ? zodType : z.object(zodType),
             ),
           )
-        : []
-    ) as [
+        : []),
+    ] as [
       MiddlewareHandler,
       MiddlewareHandler,
       MiddlewareHandler,
@@ -81,13 +173,51 @@ export function createMockServer<T extends Record<string, unknown>>(
           query: c.req.query(),
           json: await c.req.json().catch(() => ({})),
           form: await c.req.parseBody().catch(() => ({})),
+          header: c.req.header(),
+          cookie: getCookie(c),
           param: c.req.param(),
         }
 
+        const random = createRequestRandom(c)
+
         const fakerContext: EndpointInputContext<any> = {
           inputs,
           endpoint,
           honoContext: c,
+          random,
+          error: (status, body) => {
+            throw new MockError(`Mock responded with ${status}`, status, {
+              body,
+            })
+          },
+        }
+
+        const scenarioName = scenarios.resolve(c)
+        const scenario =
+          scenarioName && isHttpEndpoint(endpoint)
+            ? endpoint.getScenario(scenarioName)
+            : undefined
+
+        // Scenarios and overrides are chosen per request, so they win over fixtures
+        if (
+          isHttpEndpoint(endpoint) &&
+          options.fixtures &&
+          !scenario &&
+          !overrides.isOverridden(endpoint)
+        ) {
+          const fixtureResponse = await handleFixture(
+            options.fixtures,
+            endpoint,
+            c,
+          )
+          if (fixtureResponse) return fixtureResponse
+        }
+
+        // Endpoints without a mock are served by the real backend
+        if (options.fallback && !scenario && !overrides.resolve(endpoint)) {
+          if (webSocketProxy) return webSocketProxy(c, next)
+
+          return proxyRequest(c, options.fallback)
         }
 
         if (isWebSocketEndpoint(endpoint)) {
@@ -119,7 +249,7 @@ export function createMockServer<T extends Record<string, unknown>>(
           }
 
           const upgradedWebSocketHandler = upgradeWebSocket!((_c) => {
-            let mock = endpoint.getMock()
+            let mock = overrides.resolve(endpoint)
             if (!mock) {
               mock = {
                 onClose() {
@@ -237,22 +367,17 @@ export function createMockServer<T extends Record<string, unknown>>(
               write,
             })
 
-            const mock = endpoint.getMock()
+            const mock = overrides.resolve(endpoint)
             if (mock) {
               await mock({ ...fakerContext, stream: cloneStream })
             } else {
-              if (!options.zodToMock)
-                throw new MockError(
-                  'No mock defined for SSE endpoint and zodToMock is not provided',
-                  500,
-                )
-
               // Default mock behavior: send one message per event type
               for (const [eventName, schema] of Object.entries(
                 endpoint.response.events,
               )) {
-                const mockData = options.zodToMock(
+                const mockData = zodToMock(
                   schema as z.ZodType,
+                  random,
                 ) as unknown
                 await write({ event: eventName, data: mockData })
               }
@@ -291,7 +416,7 @@ export function createMockServer<T extends Record<string, unknown>>(
               }
             }
 
-            const mock = endpoint.getMock()
+            const mock = overrides.resolve(endpoint)
             if (mock) {
               Object.assign(cloneStream, {
                 write: (data: unknown) => writeBase(data, false),
@@ -300,13 +425,7 @@ export function createMockServer<T extends Record<string, unknown>>(
 
               await mock({ ...fakerContext, stream: cloneStream })
             } else {
-              if (!options.zodToMock)
-                throw new MockError(
-                  'No mock defined for SSE endpoint and zodToMock is not provided',
-                  500,
-                )
-
-              writeBase(options.zodToMock(endpoint.response.itemSchema), false)
+              writeBase(zodToMock(endpoint.response.itemSchema, random), false)
             }
           })
         }
@@ -315,7 +434,7 @@ export function createMockServer<T extends Record<string, unknown>>(
           return stream(c, async (stream) => {
             c.header('Content-Type', endpoint.response.contentType)
 
-            const mock = endpoint.getMock()
+            const mock = overrides.resolve(endpoint)
 
             if (mock) {
               await mock({ ...fakerContext, stream })
@@ -330,19 +449,89 @@ export function createMockServer<T extends Record<string, unknown>>(
         }
 
         if (isHttpEndpoint(endpoint)) {
-          const mock = endpoint.getMock()
+          if (scenario?.delay) {
+            await new Promise((resolve) => setTimeout(resolve, scenario.delay))
+          }
 
-          if (!mock && !options.zodToMock) {
-            return c.text('No mock defined for endpoint', 500)
+          for (const [name, value] of Object.entries(scenario?.headers ?? {})) {
+            c.header(name, value)
           }
 
-          let result: unknown
-          if (mock) result = await createMock(mock, fakerContext)
-          else if (options.zodToMock)
-            result = options.zodToMock(endpoint.response)
+          const scenarioStatus = scenario?.status ?? 200
+          if (scenario && !scenario.mock && scenarioStatus >= 400) {
+            return c.json(
+              { message: `Mock scenario "${scenarioName}"` },
+              scenarioStatus,
+            )
+          }
 
-          if (endpoint.response instanceof z.ZodVoid) {
-            return c.body(null)
+          const mock = scenario?.mock ?? overrides.resolve(endpoint)
+
+          // Mock functions run once here, so their result can be a `respond()` envelope
+          const resolved =
+            typeof mock === 'function' ? await mock(fakerContext) : mock
+          const response = isMockResponse(resolved) ? resolved : undefined
+
+          const body = response ? response.body : resolved
+          const mockOptions = { random, schema: endpoint.response, zodToMock }
+          const result =
+            mock && !(response && body === undefined)
+              ? ((await createPageMock(
+                  body,
+                  endpoint,
+                  fakerContext,
+                  mockOptions,
+                  // Bound collections list every item, like data mocks
+                  typeof mock === 'function' &&
+                    !overrides.isRegistered(endpoint, mock),
+                )) ?? (await createMock(body, fakerContext, mockOptions)))
+              : zodToMock(endpoint.response, random)
+
+          const status = response?.status ?? scenarioStatus
+          if (response) {
+            const validation = endpoint.response.safeParse(result)
+            if (!validation.success) {
+              throw new MockError(
+                `Mock response does not match the response schema\n${z.prettifyError(validation.error)}`,
+                500,
+              )
+            }
+
+            applyMockResponse(c, response)
+          }
+
+          if (endpoint.responseHeaders) {
+            const headers = Object.fromEntries(
+              Object.entries({
+                ...scenario?.headers,
+                ...response?.headers,
+              }).map(([name, value]) => [name.toLowerCase(), value]),
+            )
+
+            if (mock) {
+              // Headers of mocks are validated like their body, mocks must supply them
+              const validation = endpoint.responseHeaders.safeParse(headers)
+              if (!validation.success) {
+                throw new MockError(
+                  `Mock response headers do not match the responseHeaders schema\n${z.prettifyError(validation.error)}`,
+                  500,
+                )
+              }
+            } else {
+              const generated = zodToMock(endpoint.responseHeaders, random)
+              for (const [name, value] of Object.entries(generated)) {
+                if (!(name in headers) && value !== undefined) {
+                  c.header(name, String(value))
+                }
+              }
+            }
+          }
+
+          if (
+            endpoint.response instanceof z.ZodVoid ||
+            contentlessStatusCodes.includes(status)
+          ) {
+            return c.body(null, status)
           }
 
           if (
@@ -353,15 +542,18 @@ export function createMockServer<T extends Record<string, unknown>>(
               return c.json({ message: 'a string is expected' }, 400)
             }
 
-            return c.text(result)
+            return c.text(result, status as ContentfulStatusCode)
           }
 
-          return c.json(result)
+          return c.json(result, status as ContentfulStatusCode)
         }
 
         return c.text('Endpoint definition not implemented', 400)
       } catch (error) {
         if (error instanceof MockError) {
+          if (error.body !== undefined) {
+            return c.json(error.body, error.status)
+          }
           return c.text(error.message, error.status)
         }
       }
@@ -369,15 +561,24 @@ export function createMockServer<T extends Record<string, unknown>>(
   }
 
   for (const apiDefinition of Object.values(apiSchema)) {
-    // if (apiDefinition instanceof Collection) {
-    //   apiDefinition.initialize(fake)
-    //   continue
-    // }
+    if (isCollection(apiDefinition)) {
+      apiDefinition.initialize(zodToMock, options.seed)
+      for (const [endpoint, mock] of apiDefinition.bindings) {
+        overrides.register(endpoint, mock)
+      }
+      continue
+    }
 
     if (apiDefinition instanceof Endpoint) {
       processEndpoint(apiDefinition)
     }
   }
 
-  return { app, injectWebSocket }
+  return {
+    app,
+    injectWebSocket,
+    scenarios: scenarios.controller,
+    ...callRecorder.recorder,
+    ...overrides.controller,
+  }
 }
@@ -0,0 +1,221 @@
+import type { Context } from 'hono'
+import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import { forwardRequest, type UpstreamFetch } from './proxy'
+
+/** A recorded upstream response */
+export type Fixture = {
+  key: string
+  method: string
+  path: string
+  params: Record<string, string>
+  /** Repeated query parameters are kept as arrays */
+  query: Record<string, string | string[]>
+  status: number
+  headers: Record<string, string>
+  body: unknown
+  /** Set when `body` holds the base64 encoded bytes of a binary response */
+  encoding?: 'base64'
+}
+
+/** Persistence used by record and replay mode */
+export type FixtureStore = {
+  read(key: string): Promise<Fixture | undefined>
+  write(fixture: Fixture): Promise<void>
+}
+
+export type FixtureOptions =
+  | {
+      /** Forward requests upstream and persist the validated responses */
+      mode: 'record'
+      upstream: string
+      store: FixtureStore
+      fetch?: UpstreamFetch
+    }
+  | {
+      /** Serve persisted responses instead of the defined mocks */
+      mode: 'replay'
+      store: FixtureStore
+    }
+
+function sortedEntries<T>(record: Record<string, T>) {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+}
+
+/**
+ * Builds the key fixtures are stored under. Two requests share a fixture when
+ * they hit the same endpoint with the same path parameters and query.
+ */
+export function createFixtureKey(
+  method: string,
+  path: string,
+  params: Record<string, string> = {},
+  query: Record<string, string | string[]> = {},
+) {
+  let key = `${method.toUpperCase()} ${path}`
+
+  const paramEntries = sortedEntries(params)
+  if (paramEntries.length) {
+    key += ` ${JSON.stringify(Object.fromEntries(paramEntries))}`
+  }
+
+  const queryString = new URLSearchParams(
+    sortedEntries(query).flatMap(([name, value]) =>
+      Array.isArray(value)
+        ? value.map((item) => [name, item])
+        : [[name, value]],
+    ),
+  ).toString()
+  if (queryString) {
+    key += ` ?${queryString}`
+  }
+
+  return key
+}
+
+/**
+ * Keeps fixtures in memory, useful for tests and non-Node runtimes. Files are
+ * stored by `createFileFixtureStore` from `mock-dash/node`.
+ */
+export function createMemoryFixtureStore(
+  fixtures: Fixture[] = [],
+): FixtureStore {
+  const entries = new Map(fixtures.map((fixture) => [fixture.key, fixture]))
+
+  return {
+    async read(key) {
+      return entries.get(key)
+    },
+    async write(fixture) {
+      entries.set(fixture.key, fixture)
+    },
+  }
+}
+
+// Bodies of other content types are recorded as bytes
+function isTextContentType(contentType: string | null) {
+  return (
+    !contentType ||
+    /^text\/|json|xml|javascript|x-www-form-urlencoded/.test(contentType)
+  )
+}
+
+function encodeBase64(bytes: Uint8Array) {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function decodeBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
+
+// Single query values stay strings so the keys of existing fixtures are kept
+function readQuery(c: Context) {
+  return Object.fromEntries(
+    Object.entries(c.req.queries()).map(([name, values]) => [
+      name,
+      values.length === 1 ? values[0] : values,
+    ]),
+  )
+}
+
+function fixtureResponse(
+  status: number,
+  headers: HeadersInit,
+  body: BodyInit | null,
+) {
+  return new Response(status === 204 || status === 304 ? null : body, {
+    status,
+    headers,
+  })
+}
+
+/**
+ * @internal
+ * Records or replays the response for an HTTP endpoint. Resolves to undefined
+ * when replaying and no fixture exists, so the regular mock can answer.
+ */
+export async function handleFixture(
+  options: FixtureOptions,
+  endpoint: HttpEndpoint,
+  c: Context,
+): Promise<Response | undefined> {
+  const params = c.req.param() as Record<string, string>
+  const query = readQuery(c)
+  const key = createFixtureKey(endpoint.method, endpoint.path, params, query)
+
+  if (options.mode === 'replay') {
+    const fixture = await options.store.read(key)
+    if (!fixture) return undefined
+
+    return fixtureResponse(
+      fixture.status,
+      fixture.headers,
+      fixture.body === undefined
+        ? null
+        : fixture.encoding === 'base64'
+          ? decodeBase64(fixture.body as string)
+          : typeof fixture.body === 'string'
+            ? fixture.body
+            : JSON.stringify(fixture.body),
+    )
+  }
+
+  let upstreamResponse: Response
+  try {
+    upstreamResponse = await forwardRequest(c, options.upstream, options.fetch)
+  } catch (error) {
+    return c.text(
+      `Upstream request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      502,
+    )
+  }
+
+  const contentType = upstreamResponse.headers.get('content-type')
+  const bytes = new Uint8Array(await upstreamResponse.arrayBuffer())
+  const binary = bytes.length > 0 && !isTextContentType(contentType)
+  const text = binary ? '' : new TextDecoder().decode(bytes)
+  let body: unknown = binary ? encodeBase64(bytes) : text || undefined
+  if (text && contentType?.includes('json')) {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      // Keep the raw text when upstream sends invalid JSON
+    }
+  }
+
+  // Binary bodies cannot be checked against the response schema
+  if (upstreamResponse.ok && !binary) {
+    const validation = endpoint.response.safeParse(body)
+    if (!validation.success) {
+      return c.json(
+        {
+          message:
+            'Upstream response does not match the endpoint response schema',
+          issues: validation.error.issues,
+        },
+        502,
+      )
+    }
+  }
+
+  await options.store.write({
+    key,
+    method: endpoint.method,
+    path: endpoint.path,
+    params,
+    query,
+    status: upstreamResponse.status,
+    headers: Object.fromEntries(upstreamResponse.headers),
+    body,
+    ...(binary && { encoding: 'base64' as const }),
+  })
+
+  return fixtureResponse(
+    upstreamResponse.status,
+    upstreamResponse.headers,
+    bytes.length > 0 ? bytes : null,
+  )
+}
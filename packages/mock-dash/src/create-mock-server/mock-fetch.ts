@@ -0,0 +1,74 @@
+import { Hono } from 'hono'
+
+// Marks the responses of requests that no endpoint matched
+const unhandledHeader = 'x-mock-dash-unhandled'
+
+export type UnhandledRequestStrategy = 'bypass' | 'warn' | 'error'
+
+export type MockFetchOptions = {
+  /** Only requests to URLs starting with this are routed to the mocks, defaults to every URL */
+  readonly baseURL?: string
+  /** What happens to requests no endpoint matches, defaults to `'bypass'` */
+  readonly onUnhandledRequest?: UnhandledRequestStrategy
+  /** The object whose `fetch` is replaced, defaults to `globalThis` */
+  readonly target?: { fetch: typeof fetch }
+}
+
+export type MockFetchController = {
+  /** Routes a request into the mocks, falling back to the original fetch */
+  readonly fetch: typeof fetch
+  /** Restores the original fetch */
+  readonly stop: () => void
+}
+
+/**
+ * Replaces `fetch` so requests are served by the mock server in the same
+ * page, without a server process. Requests no endpoint matches are passed to
+ * the original fetch.
+ *
+ * @example
+ * ```typescript
+ * const { app } = createMockServer(apiSchema)
+ * const mocks = setupMockFetch(app, { baseURL: location.origin })
+ *
+ * // Later, e.g. in a test teardown
+ * mocks.stop()
+ * ```
+ */
+export function setupMockFetch(
+  app: Hono<any, any, any>,
+  options: MockFetchOptions = {},
+): MockFetchController {
+  const target = options.target ?? globalThis
+  const originalFetch = target.fetch
+  const onUnhandledRequest = options.onUnhandledRequest ?? 'bypass'
+
+  const router = new Hono().route('/', app)
+  router.notFound((c) => c.body(null, 404, { [unhandledHeader]: 'true' }))
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init)
+    if (options.baseURL && !request.url.startsWith(options.baseURL)) {
+      return originalFetch.call(target, request)
+    }
+
+    const response = await router.fetch(request.clone())
+    if (!response.headers.has(unhandledHeader)) return response
+
+    const message = `No mock endpoint matches ${request.method} ${request.url}`
+    if (onUnhandledRequest === 'error') throw new TypeError(message)
+    if (onUnhandledRequest === 'warn') console.warn(message)
+
+    return originalFetch.call(target, request)
+  }
+
+  target.fetch = mockFetch
+
+  return {
+    fetch: mockFetch,
+    stop: () => {
+      // Leave fetch alone when something else has replaced it since
+      if (target.fetch === mockFetch) target.fetch = originalFetch
+    },
+  }
+}
@@ -1,14 +1,34 @@
 import type { Context } from 'hono'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import type z from 'zod'
 import type { Endpoint } from '../endpoint/endpoint'
 import type { InferInput, ParsedPathParameters } from '../endpoint/input'
+import type { Random } from '../utils/random'
+
+/**
+ * Ends the mock with an error response. Endpoints declaring `errors` only
+ * accept their declared status codes and bodies.
+ */
+type MockErrorResponder<E> = [keyof E & ContentfulStatusCode] extends [never]
+  ? (status: ContentfulStatusCode, body?: unknown) => never
+  : <S extends keyof E & ContentfulStatusCode>(
+      status: S,
+      body: E[S] extends z.ZodType ? z.input<E[S]> : never,
+    ) => never
 
 export type EndpointInputContext<E extends Endpoint = Endpoint> =
   E extends Endpoint<infer _R, infer P, infer _M, infer I>
     ? {
-        endpoint: Omit<E, 'getMock' | 'defineMock'>
+        endpoint: Omit<
+          E,
+          'getMock' | 'defineMock' | 'getScenario' | 'defineScenario'
+        >
         inputs: InferInput<I> & {
           param: ParsedPathParameters<P>
         }
         honoContext: Context
+        /** Seeded by the `seed` option or the `x-mock-seed` header of the request */
+        random: Random
+        error: MockErrorResponder<NonNullable<E['errors']>>
       }
     : never
@@ -0,0 +1,76 @@
+import type { MiddlewareHandler } from 'hono'
+import type { LatencyOptions, NetworkOptions } from '../endpoint/network'
+import type { Random } from '../utils/random'
+
+function sampleLatency(latency: LatencyOptions, random: Random): number {
+  if (typeof latency === 'number') return latency
+  if (typeof latency === 'function') return latency()
+  if ('min' in latency) {
+    return latency.min + random.next() * (latency.max - latency.min)
+  }
+
+  // Box-Muller transform
+  const u = 1 - random.next()
+  const v = random.next()
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  return latency.mean + z * latency.stdDev
+}
+
+function hits(rate: number | undefined, random: Random) {
+  return !!rate && random.next() < rate
+}
+
+/**
+ * A response whose body fails while being read, which surfaces as a network
+ * error on the client and aborts the socket on real servers.
+ */
+function droppedResponse() {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.error(new Error('Simulated dropped connection'))
+      },
+    }),
+  )
+}
+
+/**
+ * @internal
+ * Merges the server and endpoint network options into a middleware that delays,
+ * fails or drops requests before they reach the mock. Returns `undefined` when
+ * no simulation is configured. `random` is shared by every request of a server,
+ * so a retried request draws new values and a seeded server simulates the same
+ * network for the same sequence of requests.
+ */
+export function createNetworkSimulation(
+  serverOptions: NetworkOptions | undefined,
+  endpointOptions: NetworkOptions | false | undefined,
+  random: Random,
+): MiddlewareHandler | undefined {
+  if (endpointOptions === false) return undefined
+
+  const options = { ...serverOptions, ...endpointOptions }
+  if (!options.latency && !options.failureRate && !options.dropRate) {
+    return undefined
+  }
+
+  return async (c, next) => {
+    const delay = options.latency ? sampleLatency(options.latency, random) : 0
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+
+    if (hits(options.dropRate, random)) {
+      return droppedResponse()
+    }
+
+    if (hits(options.failureRate, random)) {
+      return c.json(
+        { message: 'Simulated network failure' },
+        options.failureStatus ?? 500,
+      )
+    }
+
+    await next()
+  }
+}
@@ -0,0 +1,76 @@
+import type { Endpoint } from '../endpoint/endpoint'
+
+/** The mocks `defineMock` accepts for an endpoint */
+export type EndpointMock<E extends Endpoint> = Parameters<E['defineMock']>[0]
+
+export type UseMock = <E extends Endpoint>(
+  endpoint: E,
+  mock: EndpointMock<E>,
+) => void
+
+/** Replaces endpoint mocks for a single mock server, e.g. in one test */
+export type MockOverrideController = {
+  /** Serves `mock` instead of the mock defined on the endpoint */
+  use: UseMock
+  /**
+   * Applies the overrides of `mocks` while `run` runs, then restores the
+   * overrides that were active before.
+   */
+  withMocks<T>(
+    mocks: (use: UseMock) => void,
+    run: () => T | Promise<T>,
+  ): Promise<T>
+  /** Removes every override, restoring the mocks defined on the endpoints */
+  resetHandlers(): void
+}
+
+/**
+ * @internal
+ * Creates the mock overrides of a mock server. They are kept per server, the
+ * endpoints themselves are never changed.
+ */
+export function createMockOverrides() {
+  let overrides = new Map<Endpoint, unknown>()
+  // Mocks of the server itself, e.g. bound collections, kept by `resetHandlers`
+  const registered = new Map<Endpoint, unknown>()
+
+  const use: UseMock = (endpoint, mock) => {
+    overrides.set(endpoint, mock)
+  }
+
+  const controller: MockOverrideController = {
+    use,
+    withMocks: async (mocks, run) => {
+      const previous = new Map(overrides)
+      mocks(use)
+      try {
+        return await run()
+      } finally {
+        overrides = previous
+      }
+    },
+    resetHandlers: () => {
+      overrides = new Map()
+    },
+  }
+
+  return {
+    controller,
+    /** Serves `mock` for an endpoint below the overrides */
+    register: (endpoint: Endpoint, mock: unknown) => {
+      registered.set(endpoint, mock)
+    },
+    /** Whether `mock` is the registered mock of an endpoint, e.g. a bound collection */
+    isRegistered: (endpoint: Endpoint, mock: unknown) =>
+      registered.has(endpoint) && registered.get(endpoint) === mock,
+    /** Whether `use` or `withMocks` replaced the mock of an endpoint */
+    isOverridden: (endpoint: Endpoint) => overrides.has(endpoint),
+    /** The override of an endpoint, its registered mock, or the mock defined on it */
+    resolve: <E extends Endpoint>(endpoint: E) =>
+      (overrides.has(endpoint)
+        ? overrides.get(endpoint)
+        : registered.has(endpoint)
+          ? registered.get(endpoint)
+          : endpoint.getMock()) as ReturnType<E['getMock']>,
+  }
+}
@@ -0,0 +1,87 @@
+import type z from 'zod'
+import type { HttpEndpoint } from '../endpoint/http-endpoint'
+import {
+  getItemsSchema,
+  isPaginatedEndpoint,
+  type Pagination,
+} from '../endpoint/pagination'
+import { type CreateMockOptions, createMock } from '../utils/create-mock'
+import type { EndpointInputContext } from './mock'
+
+function readNumber(query: Record<string, string>, name: string | undefined) {
+  const value = name === undefined ? Number.NaN : Number(query[name])
+  return Number.isInteger(value) && value >= 0 ? value : undefined
+}
+
+// Index of the first item of the page requested by the query
+function readStart(
+  query: Record<string, string>,
+  pagination: Pagination,
+  limit: number,
+) {
+  switch (pagination.style) {
+    case 'cursor':
+      // Cursors of the mock server are the index of the first item
+      return readNumber(query, pagination.cursor) ?? 0
+    case 'offset':
+      return readNumber(query, pagination.offset) ?? 0
+    case 'page': {
+      const firstPage = pagination.firstPage ?? 1
+      const page = readNumber(query, pagination.page) ?? firstPage
+      return Math.max(page - firstPage, 0) * limit
+    }
+  }
+}
+
+/**
+ * @internal
+ * Slices the items returned by the mock of a paginated endpoint into the page
+ * requested by the query, filling in the `total` and `nextCursor` properties.
+ * Returns `undefined` when the mock builds the page itself: it returned a page
+ * object, or it is a mock function of an array response, which reads the query.
+ */
+export async function createPageMock(
+  body: unknown,
+  endpoint: HttpEndpoint,
+  context: EndpointInputContext,
+  options: CreateMockOptions,
+  fromFunction: boolean,
+): Promise<unknown> {
+  if (!isPaginatedEndpoint(endpoint)) return undefined
+  const pagination = endpoint.pagination
+  if (pagination.items ? !Array.isArray(body) : fromFunction) {
+    return undefined
+  }
+
+  const items = (await createMock(body as never, context, {
+    ...options,
+    schema: getItemsSchema(endpoint.response, pagination),
+  })) as unknown[]
+
+  const query =
+    (context.inputs as { query?: Record<string, string> }).query ?? {}
+  const limit =
+    readNumber(query, pagination.limit) || (pagination.defaultLimit ?? 10)
+  const start = readStart(query, pagination, limit)
+  const end = start + limit
+  const page = items.slice(start, end)
+
+  if (!pagination.items) return page
+
+  const pageBody: Record<string, unknown> = { [pagination.items]: page }
+  if (pagination.style === 'cursor') {
+    const schema = (endpoint.response as z.ZodObject).shape[
+      pagination.nextCursor
+    ]
+    const last = schema?.safeParse(null).success ? null : undefined
+    pageBody[pagination.nextCursor] = end < items.length ? String(end) : last
+  } else if (pagination.total) {
+    pageBody[pagination.total] = items.length
+  }
+
+  // Other required properties of the page are generated
+  return createMock(pageBody as never, context, {
+    ...options,
+    schema: endpoint.response,
+  })
+}
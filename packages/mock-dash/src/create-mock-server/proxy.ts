@@ -0,0 +1,155 @@
+import type { Context, MiddlewareHandler } from 'hono'
+import type { UpgradeWebSocket, WSContext } from 'hono/ws'
+
+export type UpstreamFetch = (input: Request) => Response | Promise<Response>
+
+export type UpstreamOptions = {
+  /** Origin (and optional base path) of the real backend */
+  upstream: string
+  fetch?: UpstreamFetch
+  /** WebSocket implementation used to connect upstream, defaults to the global one */
+  WebSocket?: typeof WebSocket
+}
+
+const rawRequests = new WeakMap<Request, Request>()
+
+// Headers describing the upstream transfer; fetch has already decoded the body
+const hopByHopHeaders = [
+  'connection',
+  'content-encoding',
+  'content-length',
+  'keep-alive',
+  'transfer-encoding',
+]
+
+/**
+ * @internal
+ * Keeps an untouched copy of the incoming request so it can still be forwarded
+ * after the input validators have consumed the body.
+ */
+export const preserveRawRequest: MiddlewareHandler = async (c, next) => {
+  rawRequests.set(c.req.raw, c.req.raw.clone())
+  await next()
+}
+
+/**
+ * @internal
+ * Joins the upstream origin (and optional base path) with the incoming path.
+ */
+export function buildUpstreamUrl(upstream: string, requestUrl: string) {
+  const url = new URL(requestUrl)
+  return `${upstream.replace(/\/+$/, '')}${url.pathname}${url.search}`
+}
+
+/**
+ * @internal
+ * Sends the current request to the upstream server and returns its response
+ * with mutable headers so later middleware can still modify it.
+ */
+export async function forwardRequest(
+  c: Context,
+  upstream: string,
+  fetchFn: UpstreamFetch = fetch,
+): Promise<Response> {
+  const source = rawRequests.get(c.req.raw) ?? c.req.raw
+  const headers = new Headers(source.headers)
+  headers.delete('host')
+  headers.delete('content-length')
+
+  const hasBody = source.method !== 'GET' && source.method !== 'HEAD'
+  const response = await fetchFn(
+    new Request(buildUpstreamUrl(upstream, c.req.url), {
+      method: source.method,
+      headers,
+      body: hasBody ? await source.arrayBuffer() : undefined,
+      redirect: 'manual',
+    }),
+  )
+
+  const responseHeaders = new Headers(response.headers)
+  for (const header of hopByHopHeaders) {
+    responseHeaders.delete(header)
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  })
+}
+
+/**
+ * @internal
+ * Forwards the current request upstream, answering with `502` when the
+ * upstream server cannot be reached.
+ */
+export async function proxyRequest(
+  c: Context,
+  options: UpstreamOptions,
+): Promise<Response> {
+  try {
+    return await forwardRequest(c, options.upstream, options.fetch)
+  } catch (error) {
+    return c.text(
+      `Upstream request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      502,
+    )
+  }
+}
+
+// Close codes that are reserved for the protocol and cannot be sent by peers
+const reservedCloseCodes = [1005, 1006, 1015]
+
+/**
+ * @internal
+ * Creates a WebSocket handler that relays every message between the client
+ * and the same path on the upstream server.
+ */
+export function createWebSocketProxy(
+  upgradeWebSocket: UpgradeWebSocket,
+  options: UpstreamOptions,
+): MiddlewareHandler {
+  const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket
+
+  return upgradeWebSocket((c) => {
+    const url = buildUpstreamUrl(options.upstream, c.req.url).replace(
+      /^http/,
+      'ws',
+    )
+    const pending: Array<string | ArrayBufferLike | Blob> = []
+    let upstreamSocket: WebSocket | undefined
+
+    return {
+      onOpen(_evt, ws: WSContext) {
+        upstreamSocket = new WebSocketImpl(url)
+        upstreamSocket.binaryType = 'arraybuffer'
+
+        upstreamSocket.addEventListener('open', () => {
+          for (const message of pending.splice(0)) {
+            upstreamSocket?.send(message as string)
+          }
+        })
+        upstreamSocket.addEventListener('message', (event) => {
+          ws.send(event.data)
+        })
+        upstreamSocket.addEventListener('close', (event) => {
+          if (reservedCloseCodes.includes(event.code)) ws.close()
+          else ws.close(event.code, event.reason)
+        })
+        upstreamSocket.addEventListener('error', () => {
+          ws.close(1011, 'Upstream WebSocket error')
+        })
+      },
+      onMessage(evt) {
+        if (upstreamSocket?.readyState === WebSocketImpl.OPEN) {
+          upstreamSocket.send(evt.data as string)
+        } else {
+          pending.push(evt.data)
+        }
+      },
+      onClose() {
+        upstreamSocket?.close()
+      },
+    }
+  })
+}
@@ -0,0 +1,77 @@
+import type { Context } from 'hono'
+import { setCookie } from 'hono/cookie'
+import type { CookieOptions } from 'hono/utils/cookie'
+import type {
+  RedirectStatusCode,
+  SuccessStatusCode,
+} from 'hono/utils/http-status'
+
+/** A cookie value, or the value with the attributes of the `Set-Cookie` header */
+export type MockCookie = string | ({ value: string } & CookieOptions)
+
+export type MockResponseInit<B> = {
+  /** Defaults to 200, error responses are sent with the `error` of the mock context */
+  readonly status?: SuccessStatusCode | RedirectStatusCode
+  readonly headers?: Record<string, string>
+  /** Sent as `Set-Cookie` headers */
+  readonly cookies?: Record<string, MockCookie>
+  /** Validated against the `response` schema, generated from it when omitted */
+  readonly body?: B
+}
+
+/** The status, headers and cookies of a mock response around its body */
+export class MockResponse<B = unknown> {
+  readonly status: SuccessStatusCode | RedirectStatusCode | undefined
+  readonly headers: Record<string, string>
+  readonly cookies: Record<string, MockCookie>
+  readonly body: B | undefined
+
+  constructor(init: MockResponseInit<B>) {
+    this.status = init.status
+    this.headers = init.headers ?? {}
+    this.cookies = init.cookies ?? {}
+    this.body = init.body
+  }
+}
+
+/**
+ * Wraps the body of a mock with a status code, headers and cookies. The body
+ * is a mock structure like any other, so it can use functions or `partialMock`.
+ *
+ * @example
+ * ```typescript
+ * apiSchema.createUser.defineMock((ctx) =>
+ *   respond({
+ *     status: 201,
+ *     headers: { Location: '/users/1' },
+ *     body: { id: '1', ...ctx.inputs.json },
+ *   }),
+ * )
+ * ```
+ */
+export function respond<B>(init: MockResponseInit<B>): MockResponse<B> {
+  return new MockResponse(init)
+}
+
+export function isMockResponse(value: unknown): value is MockResponse {
+  return value instanceof MockResponse
+}
+
+/**
+ * @internal
+ * Sets the headers and cookies of a mock response on the context.
+ */
+export function applyMockResponse(c: Context, response: MockResponse) {
+  for (const [name, value] of Object.entries(response.headers)) {
+    c.header(name, value)
+  }
+
+  for (const [name, cookie] of Object.entries(response.cookies)) {
+    if (typeof cookie === 'string') {
+      setCookie(c, name, cookie)
+    } else {
+      const { value, ...cookieOptions } = cookie
+      setCookie(c, name, value, cookieOptions as CookieOptions)
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { Context, Hono } from 'hono'
+import z from 'zod'
+
+export type ScenarioOptions = {
+  /** Scenario active when the server is created */
+  readonly initial?: string
+  /** Request header selecting the scenario for a single request, defaults to `x-mock-scenario` */
+  readonly header?: string
+  /**
+   * Path of the route used to read (`GET`) and switch (`PUT { scenario }`) the
+   * active scenario, defaults to `/__mock-dash/scenario`. `false` disables it.
+   */
+  readonly controlPath?: string | false
+}
+
+/** Switches the active scenario of a mock server from code */
+export type ScenarioController = {
+  /** The scenario applied to requests without a scenario header */
+  readonly active: string | undefined
+  set(name: string | undefined): void
+  /** Restores the initial scenario */
+  reset(): void
+}
+
+const controlBodySchema = z.object({ scenario: z.string().nullable() })
+
+/**
+ * @internal
+ * Creates the scenario state of a mock server and registers its control route.
+ */
+export function createScenarios(app: Hono, options: ScenarioOptions = {}) {
+  let active = options.initial
+  const header = options.header ?? 'x-mock-scenario'
+
+  const controller: ScenarioController = {
+    get active() {
+      return active
+    },
+    set(name) {
+      active = name
+    },
+    reset() {
+      active = options.initial
+    },
+  }
+
+  if (options.controlPath !== false) {
+    const path = options.controlPath ?? '/__mock-dash/scenario'
+
+    app.get(path, (c) => c.json({ scenario: active ?? null }))
+    app.put(path, async (c) => {
+      const result = controlBodySchema.safeParse(
+        await c.req.json().catch(() => undefined),
+      )
+      if (!result.success) {
+        return c.json(
+          { message: 'Expected a body like { "scenario": "name" | null }' },
+          400,
+        )
+      }
+
+      active = result.data.scenario ?? undefined
+      return c.json({ scenario: active ?? null })
+    })
+  }
+
+  return {
+    controller,
+    /** The scenario requested by the current request */
+    resolve: (c: Context) => c.req.header(header) || active,
+  }
+}
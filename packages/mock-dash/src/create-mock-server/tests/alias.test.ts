@@ -410,7 +410,7 @@ describe('Alias functionality in createMockServer', () => {
       })
     })
 
-    it('should return 500 when no mock defined and no zodToMock with aliases', async () => {
+    it('should generate a response when no mock defined and no zodToMock with aliases', async () => {
       const apiSchema = {
         getUser: defineGet('/{api}/users/:id', {
           response: z.object({ id: z.string(), name: z.string() }),
@@ -421,8 +421,11 @@ describe('Alias functionality in createMockServer', () => {
         alias: { api: '/api/v1' },
       })
       const res = await app.request('/api/v1/users/123')
-      expect(res.status).toBe(500)
-      expect(await res.text()).toContain('No mock defined')
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({
+        id: expect.any(String),
+        name: expect.any(String),
+      })
     })
   })
 
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineAuth } from '../../endpoint/auth'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+const bearer = defineAuth({ type: 'bearer' })
+
+describe('generateMockApi - auth', () => {
+  it('should reject requests without credentials with 401', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: userModel }),
+    }
+    apiSchema.getMe.defineMock({ id: '1', name: 'John' })
+
+    const { app } = createMockServer(apiSchema, {
+      auth: { scheme: bearer },
+    })
+
+    const res = await app.request('/me')
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('WWW-Authenticate')).toBe('Bearer realm="mock-dash"')
+    expect(await res.json()).toEqual({ message: 'Missing credentials' })
+  })
+
+  it('should accept any credentials by default', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: userModel }),
+    }
+    apiSchema.getMe.defineMock({ id: '1', name: 'John' })
+
+    const { app } = createMockServer(apiSchema, {
+      auth: { scheme: bearer },
+    })
+
+    const res = await app.request('/me', {
+      headers: { Authorization: 'Bearer anything' },
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ id: '1', name: 'John' })
+  })
+
+  it('should let verify reject or forbid credentials', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', { response: userModel }),
+    }
+    apiSchema.getMe.defineMock({ id: '1', name: 'John' })
+
+    const { app } = createMockServer(apiSchema, {
+      auth: {
+        scheme: bearer,
+        verify: (credentials) => {
+          if (credentials.type !== 'bearer') return false
+          if (credentials.token === 'guest') return 'forbidden'
+          return credentials.token === 'valid'
+        },
+      },
+    })
+    const request = (token: string) =>
+      app.request('/me', { headers: { Authorization: `Bearer ${token}` } })
+
+    expect((await request('valid')).status).toBe(200)
+    expect((await request('expired')).status).toBe(401)
+    const forbidden = await request('guest')
+    expect(forbidden.status).toBe(403)
+    expect(await forbidden.json()).toEqual({ message: 'Forbidden' })
+  })
+
+  it('should apply the scheme of the endpoint over the global one', async () => {
+    const apiSchema = {
+      getHealth: defineGet('/health', {
+        response: z.object({ ok: z.boolean() }),
+        options: { auth: false },
+      }),
+      getKeys: defineGet('/keys', {
+        response: z.array(z.string()),
+        options: {
+          auth: defineAuth({ type: 'apiKey', in: 'query', name: 'api_key' }),
+        },
+      }),
+    }
+    apiSchema.getHealth.defineMock({ ok: true })
+    apiSchema.getKeys.defineMock(['a'])
+
+    const { app } = createMockServer(apiSchema, {
+      auth: { scheme: bearer },
+    })
+
+    expect((await app.request('/health')).status).toBe(200)
+    expect((await app.request('/keys')).status).toBe(401)
+    expect((await app.request('/keys?api_key=secret')).status).toBe(200)
+  })
+
+  it('should read basic, header key and cookie credentials', async () => {
+    const seen: unknown[] = []
+    const apiSchema = {
+      basic: defineGet('/basic', {
+        response: z.string(),
+        options: { auth: defineAuth({ type: 'basic' }) },
+      }),
+      key: defineGet('/key', {
+        response: z.string(),
+        options: {
+          auth: defineAuth({ type: 'apiKey', in: 'header', name: 'x-api-key' }),
+        },
+      }),
+      session: defineGet('/session', {
+        response: z.string(),
+        options: { auth: defineAuth({ type: 'cookie', name: 'sid' }) },
+      }),
+    }
+    apiSchema.basic.defineMock('ok')
+    apiSchema.key.defineMock('ok')
+    apiSchema.session.defineMock('ok')
+
+    const { app } = createMockServer(apiSchema, {
+      auth: {
+        verify: (credentials) => {
+          seen.push(credentials)
+          return true
+        },
+      },
+    })
+
+    await app.request('/basic', {
+      headers: { Authorization: `Basic ${btoa('john:p:ss')}` },
+    })
+    await app.request('/key', { headers: { 'X-Api-Key': 'k1' } })
+    await app.request('/session', { headers: { Cookie: 'sid=s1' } })
+
+    expect(seen).toEqual([
+      { type: 'basic', username: 'john', password: 'p:ss' },
+      { type: 'apiKey', key: 'k1' },
+      { type: 'cookie', value: 's1' },
+    ])
+  })
+
+  it('should generate the body from the declared error schema', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', {
+        response: userModel,
+        errors: { 401: z.object({ code: z.literal('unauthenticated') }) },
+        options: { auth: bearer },
+      }),
+    }
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/me')
+
+    expect(res.status).toBe(401)
+    expect(await res.json()).toEqual({ code: 'unauthenticated' })
+  })
+
+  it('should generate the same error body for the same seed', async () => {
+    const apiSchema = {
+      getMe: defineGet('/me', {
+        response: userModel,
+        errors: { 401: z.object({ code: z.string(), traceId: z.uuid() }) },
+        options: { auth: bearer },
+      }),
+    }
+
+    const first = createMockServer(apiSchema, { seed: 3 })
+    const second = createMockServer(apiSchema, { seed: 3 })
+    const body = await (await first.app.request('/me')).json()
+
+    expect(await (await second.app.request('/me')).json()).toEqual(body)
+    expect(await (await first.app.request('/me')).json()).toEqual(body)
+  })
+})
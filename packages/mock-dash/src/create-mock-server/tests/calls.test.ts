@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function createUser(
+  app: ReturnType<typeof createMockServer>['app'],
+  body: unknown,
+) {
+  return app.request('/users?notify=true', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json', 'X-Client': 'test' },
+  })
+}
+
+const jane = { name: 'Jane', address: { city: 'Oslo', zip: '0150' } }
+
+describe('generateMockApi - calls', () => {
+  it('should record the calls of each endpoint', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      createUser: definePost('/users', {
+        input: {
+          json: z.object({
+            name: z.string(),
+            address: z.object({ city: z.string(), zip: z.string() }),
+          }),
+          query: { notify: z.coerce.boolean() },
+        },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+    const { app, calls } = createMockServer(apiSchema)
+
+    await app.request('/users/1')
+    await createUser(app, jane)
+
+    const [call] = calls(apiSchema.createUser)
+
+    expect(calls()).toHaveLength(2)
+    expect(calls(apiSchema.getUser)[0].inputs.param).toEqual({ id: '1' })
+    expect(call.inputs.json).toEqual(jane)
+    expect(call.inputs.query).toEqual({ notify: true })
+    expect(call.headers['x-client']).toBe('test')
+    expect(call.url).toBe('http://localhost/users?notify=true')
+    expect(call.status).toBe(200)
+    expect(call.timestamp).toBeTypeOf('number')
+  })
+
+  it('should record rejected requests with their raw inputs', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: {
+          json: z.object({
+            name: z.string(),
+            address: z.object({ city: z.string(), zip: z.string() }),
+          }),
+          query: { notify: z.coerce.boolean() },
+        },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+    const { app, calls } = createMockServer(apiSchema)
+
+    await createUser(app, { name: 1 })
+
+    const [call] = calls(apiSchema.createUser)
+    expect(call.status).toBe(400)
+    expect(call.inputs.json).toEqual({ name: 1 })
+  })
+
+  it('should match calls with partial inputs', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      createUser: definePost('/users', {
+        input: {
+          json: z.object({
+            name: z.string(),
+            address: z.object({ city: z.string(), zip: z.string() }),
+          }),
+          query: { notify: z.coerce.boolean() },
+        },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+    const { app, expectCalled } = createMockServer(apiSchema)
+
+    await createUser(app, jane)
+
+    expect(
+      expectCalled(apiSchema.createUser, {
+        json: { address: { city: 'Oslo' } },
+      }),
+    ).toHaveLength(1)
+    expect(() =>
+      expectCalled(apiSchema.createUser, { json: { name: 'John' } }),
+    ).toThrow(
+      'Expected POST /users to be called at least once with {"json":{"name":"John"}}, but 0 of 1 calls matched',
+    )
+    expect(() => expectCalled(apiSchema.getUser)).toThrow(
+      'Expected GET /users/:id to be called at least once, but 0 of 0 calls matched',
+    )
+  })
+
+  it('should check the number of matching calls', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    const { app, expectCalled } = createMockServer(apiSchema)
+
+    await app.request('/users/1')
+    await app.request('/users/1')
+    await app.request('/users/2')
+
+    expect(
+      expectCalled(apiSchema.getUser, { param: { id: '1' } }, { times: 2 }),
+    ).toHaveLength(2)
+    expect(() => expectCalled(apiSchema.getUser, {}, { times: 2 })).toThrow(
+      'to be called 2 times',
+    )
+  })
+
+  it('should clear and limit the history', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    const { app, calls, clearCalls } = createMockServer(apiSchema, {
+      calls: { limit: 2 },
+    })
+
+    await app.request('/users/1')
+    await app.request('/users/2')
+    await app.request('/users/3')
+
+    expect(calls().map((call) => call.inputs.param)).toEqual([
+      { id: '2' },
+      { id: '3' },
+    ])
+
+    clearCalls()
+    expect(calls()).toEqual([])
+  })
+
+  it('should not record calls when disabled', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app, calls } = createMockServer(apiSchema, {
+      calls: false,
+    })
+
+    await app.request('/users/1')
+
+    expect(calls()).toEqual([])
+  })
+})
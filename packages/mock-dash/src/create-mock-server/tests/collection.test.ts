@@ -0,0 +1,282 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import {
+  defineDelete,
+  defineGet,
+  definePatch,
+  definePost,
+  definePut,
+} from '../../endpoint/define-endpoint'
+import { defineCollection } from '../collection'
+import {
+  createMockServer,
+  type MockGenerationOptions,
+} from '../create-mock-server'
+
+const userModel = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.email(),
+})
+
+const seed = [
+  { id: '1', name: 'John Doe', email: 'john@example.com' },
+  { id: '2', name: 'Jane Smith', email: 'jane@example.com' },
+]
+
+function jsonRequest(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  }
+}
+
+describe('generateMockApi - collections', () => {
+  it('should list and read seeded items', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    users.bind(apiSchema.getUsers, apiSchema.getUser)
+
+    const { app } = createMockServer(apiSchema)
+
+    const list = await app.request('/users')
+    expect(list.status).toBe(200)
+    expect(await list.json()).toHaveLength(2)
+
+    const res = await app.request('/users/2')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      id: '2',
+      name: 'Jane Smith',
+      email: 'jane@example.com',
+    })
+  })
+
+  it('should return 404 for unknown ids', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      getUser: defineGet('/users/:id', { response: userModel }),
+      updateUser: definePatch('/users/:id', {
+        input: { json: userModel.omit({ id: true }).partial() },
+        response: userModel,
+      }),
+      deleteUser: defineDelete('/users/:id', { response: userModel }),
+    }
+    users.bind(apiSchema.getUser, apiSchema.updateUser, apiSchema.deleteUser)
+
+    const { app } = createMockServer(apiSchema)
+
+    const get = await app.request('/users/999')
+    expect(get.status).toBe(404)
+    expect(await get.text()).toContain('not found')
+
+    const patch = await app.request(
+      '/users/999',
+      jsonRequest('PATCH', { name: 'Nobody' }),
+    )
+    expect(patch.status).toBe(404)
+
+    const del = await app.request('/users/999', { method: 'DELETE' })
+    expect(del.status).toBe(404)
+  })
+
+  it('should create items with generated ids', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      createUser: definePost('/users', {
+        input: { json: userModel.omit({ id: true }) },
+        response: userModel,
+      }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    users.bind(apiSchema.createUser, apiSchema.getUser)
+
+    const { app } = createMockServer(apiSchema)
+
+    const res = await app.request(
+      '/users',
+      jsonRequest('POST', { name: 'New User', email: 'new@example.com' }),
+    )
+    expect(res.status).toBe(200)
+    const created = await res.json()
+    expect(created.id).toEqual(expect.any(String))
+    expect(created.name).toBe('New User')
+
+    const read = await app.request(`/users/${created.id}`)
+    expect(await read.json()).toEqual(created)
+  })
+
+  it('should replace, update and delete items', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      replaceUser: definePut('/users/:id', {
+        input: { json: userModel.omit({ id: true }) },
+        response: userModel,
+      }),
+      updateUser: definePatch('/users/:id', {
+        input: { json: userModel.omit({ id: true }).partial() },
+        response: userModel,
+      }),
+      deleteUser: defineDelete('/users/:id', { response: userModel }),
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    users.bind(
+      apiSchema.replaceUser,
+      apiSchema.updateUser,
+      apiSchema.deleteUser,
+      apiSchema.getUsers,
+    )
+
+    const { app } = createMockServer(apiSchema)
+
+    const put = await app.request(
+      '/users/1',
+      jsonRequest('PUT', { name: 'Replaced', email: 'replaced@example.com' }),
+    )
+    expect(await put.json()).toEqual({
+      id: '1',
+      name: 'Replaced',
+      email: 'replaced@example.com',
+    })
+
+    const patch = await app.request(
+      '/users/1',
+      jsonRequest('PATCH', { name: 'Patched' }),
+    )
+    expect(await patch.json()).toEqual({
+      id: '1',
+      name: 'Patched',
+      email: 'replaced@example.com',
+    })
+
+    const del = await app.request('/users/1', { method: 'DELETE' })
+    expect(del.status).toBe(200)
+    expect((await del.json()).name).toBe('Patched')
+
+    const list = await app.request('/users')
+    expect(await list.json()).toHaveLength(1)
+  })
+
+  it('should delete items of endpoints without a response body', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      deleteUser: defineDelete('/users/:id', { response: z.void() }),
+    }
+    users.bind(apiSchema.getUsers, apiSchema.deleteUser)
+
+    const { app } = createMockServer(apiSchema)
+
+    const del = await app.request('/users/1', { method: 'DELETE' })
+    expect(del.status).toBe(200)
+    expect(await del.text()).toBe('')
+    expect(await (await app.request('/users')).json()).toEqual([seed[1]])
+  })
+
+  it('should reset to the seed when a new server is created', async () => {
+    const users = defineCollection(userModel, { seed })
+    const apiSchema = {
+      users,
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      deleteUser: defineDelete('/users/:id', { response: userModel }),
+    }
+    users.bind(apiSchema.getUsers, apiSchema.deleteUser)
+
+    const first = createMockServer(apiSchema)
+    await first.app.request('/users/1', { method: 'DELETE' })
+    expect(await (await first.app.request('/users')).json()).toHaveLength(1)
+
+    const second = createMockServer(apiSchema)
+    expect(await (await second.app.request('/users')).json()).toHaveLength(2)
+  })
+
+  it('should generate seed items with zodToMock', async () => {
+    let counter = 0
+    const products = defineCollection(
+      z.object({ sku: z.string(), price: z.number() }),
+      { idKey: 'sku', seed: 3 },
+    )
+    const apiSchema = {
+      products,
+      getProducts: defineGet('/products', {
+        response: z.array(products.schema),
+      }),
+    }
+    products.bind(apiSchema.getProducts)
+
+    const { app } = createMockServer(apiSchema, {
+      zodToMock: (() => ({
+        sku: `sku-${++counter}`,
+        price: 10,
+      })) as MockGenerationOptions['zodToMock'],
+    })
+
+    const res = await app.request('/products')
+    expect(await res.json()).toEqual([
+      { sku: 'sku-1', price: 10 },
+      { sku: 'sku-2', price: 10 },
+      { sku: 'sku-3', price: 10 },
+    ])
+  })
+
+  it('should expose the store for custom mocks', () => {
+    const users = defineCollection(userModel, { generateId: () => 'fixed' })
+
+    const created = users.insert({ name: 'Ada', email: 'ada@example.com' })
+    expect(created.id).toBe('fixed')
+    expect(users.find('fixed')).toEqual(created)
+    expect(() =>
+      users.insert({ id: 'fixed', name: 'Ada', email: 'ada@example.com' }),
+    ).toThrow('already exists')
+    expect(() => users.update('fixed', { email: 'not-an-email' })).toThrow(
+      'Invalid collection item',
+    )
+
+    users.reset()
+    expect(users.all()).toEqual([])
+  })
+
+  it('should serve bindings per server without changing the endpoints', async () => {
+    const users = defineCollection(userModel, {
+      seed: [{ id: '1', name: 'John Doe', email: 'john@example.com' }],
+    })
+    const getUsers = defineGet('/users', { response: z.array(userModel) })
+    getUsers.defineMock([])
+    users.bind(getUsers)
+
+    const withCollection = createMockServer({ users, getUsers })
+    const withoutCollection = createMockServer({ getUsers })
+
+    expect(await (await withCollection.app.request('/users')).json()).toEqual(
+      users.all(),
+    )
+    expect(
+      await (await withoutCollection.app.request('/users')).json(),
+    ).toEqual([])
+    expect(getUsers.getMock()).toEqual([])
+
+    withCollection.use(getUsers, [
+      { id: '2', name: 'Jane Smith', email: 'jane@example.com' },
+    ])
+    const overridden = await withCollection.app.request('/users')
+    expect(
+      (await overridden.json()).map((user: { id: string }) => user.id),
+    ).toEqual(['2'])
+  })
+
+  it('should reject binding endpoints without an id parameter', () => {
+    const users = defineCollection(userModel)
+    const endpoint = definePatch('/users', { response: userModel })
+
+    expect(() => users.bind(endpoint)).toThrow('the path has no id parameter')
+  })
+})
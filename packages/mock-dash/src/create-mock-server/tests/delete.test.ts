@@ -123,7 +123,7 @@ describe('generateMockApi - DELETE endpoints', () => {
     expect(res.body).toBeNull()
   })
 
-  it('should return 500 when no mock defined and zodToMock not provided', async () => {
+  it('should generate a response from the schema when no mock is defined', async () => {
     const apiSchema = {
       deleteUser: defineDelete('/users/:id', {
         response: z.object({ deleted: z.boolean() }),
@@ -133,8 +133,8 @@ describe('generateMockApi - DELETE endpoints', () => {
     const { app } = createMockServer(apiSchema)
 
     const res = await app.request('/users/123', { method: 'DELETE' })
-    expect(res.status).toBe(500)
-    expect(await res.text()).toContain('No mock defined')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ deleted: expect.any(Boolean) })
   })
 
   it('should validate query parameters for DELETE', async () => {
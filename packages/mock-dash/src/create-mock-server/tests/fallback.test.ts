@@ -0,0 +1,217 @@
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import {
+  defineWebSocketHelper,
+  type UpgradeWebSocket,
+  WSContext,
+  type WSEvents,
+} from 'hono/ws'
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { defineSSE } from '../../endpoint/stream-response'
+import { defineWebSocket } from '../../endpoint/ws-response'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function createUpstream() {
+  const upstream = new Hono()
+    .get('/users/:id', (c) =>
+      c.json({ id: c.req.param('id'), name: 'Real User' }),
+    )
+    .post('/users', async (c) => c.json(await c.req.json(), 201))
+    .get('/events', (c) =>
+      streamSSE(c, async (stream) => {
+        await stream.writeSSE({ event: 'tick', data: '{"count":1}' })
+        await stream.writeSSE({ event: 'tick', data: '{"count":2}' })
+      }),
+    )
+
+  return (req: Request) => upstream.fetch(req)
+}
+
+describe('generateMockApi - fallback to upstream', () => {
+  it('should proxy HTTP endpoints without a mock', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      createUser: definePost('/users', {
+        input: { json: z.object({ id: z.string(), name: z.string() }) },
+        response: userModel,
+      }),
+      getMe: defineGet('/me', { response: userModel }),
+    }
+    apiSchema.getMe.defineMock({ id: 'me', name: 'Mocked Me' })
+
+    const { app } = createMockServer(apiSchema, {
+      fallback: {
+        upstream: 'https://staging.example.com',
+        fetch: createUpstream(),
+      },
+      zodToMock: () => {
+        throw new Error('zodToMock should not be used for proxied endpoints')
+      },
+    })
+
+    const proxied = await app.request('/users/7')
+    expect(proxied.status).toBe(200)
+    expect(await proxied.json()).toEqual({ id: '7', name: 'Real User' })
+
+    const posted = await app.request('/users', {
+      method: 'POST',
+      body: JSON.stringify({ id: '8', name: 'Created' }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(posted.status).toBe(201)
+    expect(await posted.json()).toEqual({ id: '8', name: 'Created' })
+
+    const mocked = await app.request('/me')
+    expect(await mocked.json()).toEqual({ id: 'me', name: 'Mocked Me' })
+  })
+
+  it('should still validate input before proxying', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ id: z.string(), name: z.string() }) },
+        response: userModel,
+      }),
+    }
+
+    const { app } = createMockServer(apiSchema, {
+      fallback: {
+        upstream: 'https://staging.example.com',
+        fetch: createUpstream(),
+      },
+    })
+
+    const res = await app.request('/users', {
+      method: 'POST',
+      body: JSON.stringify({ id: 8 }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(res.status).toBe(400)
+  })
+
+  it('should proxy stream endpoints without a mock', async () => {
+    const apiSchema = {
+      events: defineGet('/events', {
+        response: defineSSE({ tick: z.object({ count: z.number() }) }),
+      }),
+    }
+
+    const { app } = createMockServer(apiSchema, {
+      fallback: {
+        upstream: 'https://staging.example.com',
+        fetch: createUpstream(),
+      },
+    })
+
+    const res = await app.request('/events')
+    expect(res.headers.get('content-type')).toContain('text/event-stream')
+    const body = await res.text()
+    expect(body).toContain('data: {"count":1}')
+    expect(body).toContain('data: {"count":2}')
+  })
+
+  it('should answer 502 when the upstream is unreachable', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+
+    const { app } = createMockServer(apiSchema, {
+      fallback: {
+        upstream: 'https://staging.example.com',
+        fetch: () => Promise.reject(new Error('connect ECONNREFUSED')),
+      },
+    })
+
+    const res = await app.request('/users/1')
+    expect(res.status).toBe(502)
+    expect(await res.text()).toContain('ECONNREFUSED')
+  })
+
+  it('should relay WebSocket messages to the upstream server', async () => {
+    const apiSchema = {
+      chat: defineGet('/chat', {
+        response: defineWebSocket(
+          [z.object({ text: z.string() })],
+          [z.object({ text: z.string() })],
+        ),
+      }),
+    }
+
+    // Captures the events created for the incoming connection
+    let events: WSEvents | undefined
+    const webSocketHelper: UpgradeWebSocket = defineWebSocketHelper(
+      (_c, createdEvents) => {
+        events = createdEvents
+        return new Response(null)
+      },
+    )
+    // Counts the proxy middlewares built from the helper
+    let proxies = 0
+    const upgradeWebSocket = ((...args: Parameters<typeof webSocketHelper>) => {
+      proxies++
+      return webSocketHelper(...args)
+    }) as UpgradeWebSocket
+
+    // Minimal upstream socket that echoes messages back
+    const upstreamSockets: FakeUpstreamSocket[] = []
+    class FakeUpstreamSocket extends EventTarget {
+      static OPEN = 1
+      readyState = 0
+      binaryType = 'blob'
+      sent: unknown[] = []
+      constructor(public url: string) {
+        super()
+        upstreamSockets.push(this)
+      }
+      open() {
+        this.readyState = 1
+        this.dispatchEvent(new Event('open'))
+      }
+      send(data: unknown) {
+        this.sent.push(data)
+        const message = new MessageEvent('message', { data: `echo:${data}` })
+        this.dispatchEvent(message)
+      }
+      close() {
+        this.readyState = 3
+      }
+    }
+
+    const { app } = createMockServer(apiSchema, {
+      upgradeWebSocket,
+      fallback: {
+        upstream: 'https://staging.example.com/api',
+        WebSocket: FakeUpstreamSocket as unknown as typeof WebSocket,
+      },
+    })
+
+    await app.request('/chat')
+    await app.request('/chat')
+    expect(events).toBeDefined()
+    expect(proxies).toBe(1)
+
+    const received: unknown[] = []
+    const ws = new WSContext({
+      send: (data) => received.push(data),
+      close: () => {},
+      readyState: 1,
+    })
+
+    events!.onOpen?.(new Event('open'), ws)
+    expect(upstreamSockets[0].url).toBe('wss://staging.example.com/api/chat')
+
+    // Messages sent before the upstream connection opens are queued
+    events!.onMessage?.(
+      new MessageEvent('message', { data: '{"text":"hi"}' }),
+      ws,
+    )
+    expect(upstreamSockets[0].sent).toEqual([])
+
+    upstreamSockets[0].open()
+    expect(upstreamSockets[0].sent).toEqual(['{"text":"hi"}'])
+    expect(received).toEqual(['echo:{"text":"hi"}'])
+  })
+})
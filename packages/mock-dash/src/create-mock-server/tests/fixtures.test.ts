@@ -0,0 +1,266 @@
+import { Hono } from 'hono'
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+import { createFixtureKey, createMemoryFixtureStore } from '../fixtures'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function createUpstream() {
+  const calls: string[] = []
+  const upstream = new Hono()
+    .get('/users/:id', (c) => {
+      calls.push(c.req.url)
+      if (c.req.param('id') === 'broken') return c.json({ id: 1 })
+      return c.json({ id: c.req.param('id'), name: 'Upstream User' })
+    })
+    .post('/users', async (c) => {
+      const body = await c.req.json()
+      calls.push(c.req.url)
+      return c.json({ id: 'new', name: body.name }, 201)
+    })
+
+  return { calls, fetch: (req: Request) => upstream.fetch(req) }
+}
+
+describe('generateMockApi - record and replay', () => {
+  it('should create stable keys from method, path, params and query', () => {
+    expect(
+      createFixtureKey('get', '/users/:id', { id: '1' }, { b: '2', a: '1' }),
+    ).toBe('GET /users/:id {"id":"1"} ?a=1&b=2')
+    expect(createFixtureKey('post', '/users')).toBe('POST /users')
+  })
+
+  it('should keep repeated query parameters in the key', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        input: { query: { tag: z.array(z.string()).optional() } },
+        response: z.array(userModel),
+      }),
+    }
+    const store = createMemoryFixtureStore()
+    const { app } = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store,
+        fetch: () => Promise.resolve(Response.json([])),
+      },
+    })
+
+    await app.request('/users?tag=a&tag=b')
+
+    expect(
+      await store.read(
+        createFixtureKey('get', '/users', {}, { tag: ['a', 'b'] }),
+      ),
+    ).toMatchObject({ query: { tag: ['a', 'b'] } })
+    expect(createFixtureKey('get', '/users', {}, { tag: ['a', 'b'] })).not.toBe(
+      createFixtureKey('get', '/users', {}, { tag: 'a' }),
+    )
+  })
+
+  it('should record and replay binary responses', async () => {
+    const bytes = new Uint8Array([0, 137, 80, 78, 71, 255])
+    const apiSchema = {
+      getAvatar: defineGet('/avatar', { response: z.unknown() }),
+    }
+    const store = createMemoryFixtureStore()
+    const recorder = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store,
+        fetch: () =>
+          Promise.resolve(
+            new Response(bytes, { headers: { 'content-type': 'image/png' } }),
+          ),
+      },
+    })
+
+    const recorded = await recorder.app.request('/avatar')
+    expect(new Uint8Array(await recorded.arrayBuffer())).toEqual(bytes)
+    expect(await store.read('GET /avatar')).toMatchObject({
+      body: 'AIlQTkf/',
+      encoding: 'base64',
+    })
+
+    const replayer = createMockServer(apiSchema, {
+      fixtures: { mode: 'replay', store },
+    })
+    const replayed = await replayer.app.request('/avatar')
+    expect(replayed.headers.get('content-type')).toBe('image/png')
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes)
+  })
+
+  it('should forward requests upstream and record the responses', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        input: { query: { expand: z.string().optional() } },
+        response: userModel,
+      }),
+    }
+
+    const upstream = createUpstream()
+    const store = createMemoryFixtureStore()
+    const { app } = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store,
+        fetch: upstream.fetch,
+      },
+    })
+
+    const res = await app.request('/users/1?expand=all')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ id: '1', name: 'Upstream User' })
+    expect(upstream.calls).toEqual([
+      'https://staging.example.com/users/1?expand=all',
+    ])
+
+    const fixture = await store.read(
+      createFixtureKey('get', '/users/:id', { id: '1' }, { expand: 'all' }),
+    )
+    expect(fixture).toMatchObject({
+      method: 'get',
+      path: '/users/:id',
+      status: 200,
+      body: { id: '1', name: 'Upstream User' },
+    })
+  })
+
+  it('should forward request bodies after validation', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+
+    const upstream = createUpstream()
+    const { app } = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store: createMemoryFixtureStore(),
+        fetch: upstream.fetch,
+      },
+    })
+
+    const res = await app.request('/users', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Posted' }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(res.status).toBe(201)
+    expect(await res.json()).toEqual({ id: 'new', name: 'Posted' })
+  })
+
+  it('should not record responses that fail schema validation', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        input: { query: { expand: z.string().optional() } },
+        response: userModel,
+      }),
+    }
+
+    const upstream = createUpstream()
+    const store = createMemoryFixtureStore()
+    const { app } = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store,
+        fetch: upstream.fetch,
+      },
+    })
+
+    const res = await app.request('/users/broken')
+    expect(res.status).toBe(502)
+    expect((await res.json()).message).toContain('does not match')
+    expect(
+      await store.read(createFixtureKey('get', '/users/:id', { id: 'broken' })),
+    ).toBeUndefined()
+  })
+
+  it('should replay fixtures instead of calling the mock', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        input: { query: { expand: z.string().optional() } },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'Mocked User',
+    }))
+
+    const store = createMemoryFixtureStore([
+      {
+        key: createFixtureKey('get', '/users/:id', { id: '1' }),
+        method: 'get',
+        path: '/users/:id',
+        params: { id: '1' },
+        query: {},
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: { id: '1', name: 'Recorded User' },
+      },
+    ])
+
+    const { app } = createMockServer(apiSchema, {
+      fixtures: { mode: 'replay', store },
+    })
+
+    const recorded = await app.request('/users/1')
+    expect(await recorded.json()).toEqual({ id: '1', name: 'Recorded User' })
+
+    // Requests without a fixture fall back to the mock
+    const mocked = await app.request('/users/2')
+    expect(await mocked.json()).toEqual({ id: '2', name: 'Mocked User' })
+  })
+
+  it('should let overrides and scenarios win over fixtures', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        input: { query: { expand: z.string().optional() } },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineScenario('renamed', {
+      mock: (ctx) => ({ id: ctx.inputs.param.id, name: 'Scenario User' }),
+    })
+
+    const store = createMemoryFixtureStore([
+      {
+        key: createFixtureKey('get', '/users/:id', { id: '1' }),
+        method: 'get',
+        path: '/users/:id',
+        params: { id: '1' },
+        query: {},
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: { id: '1', name: 'Recorded User' },
+      },
+    ])
+
+    const server = createMockServer(apiSchema, {
+      fixtures: { mode: 'replay', store },
+    })
+
+    const scenario = await server.app.request('/users/1', {
+      headers: { 'x-mock-scenario': 'renamed' },
+    })
+    expect(await scenario.json()).toEqual({ id: '1', name: 'Scenario User' })
+
+    server.use(apiSchema.getUser, { id: '1', name: 'Override User' })
+    const overridden = await server.app.request('/users/1')
+    expect(await overridden.json()).toEqual({ id: '1', name: 'Override User' })
+
+    server.resetHandlers()
+    const recorded = await server.app.request('/users/1')
+    expect(await recorded.json()).toEqual({ id: '1', name: 'Recorded User' })
+  })
+})
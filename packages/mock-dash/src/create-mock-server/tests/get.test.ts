@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import z from 'zod'
 import { defineGet } from '../../endpoint/define-endpoint'
+import { partialMock } from '../../utils/create-mock'
 import { createMockServer } from '../create-mock-server'
 
 describe('generateMockApi - GET endpoints', () => {
@@ -161,7 +162,36 @@ describe('generateMockApi - GET endpoints', () => {
     expect(data.id).toBe('123')
   })
 
-  it('should return 500 when no mock defined and zodToMock not provided', async () => {
+  it('should generate properties missing from the mock', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({
+          id: z.string(),
+          name: z.string().meta({ mock: 'person.firstName' }),
+        }),
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) =>
+      partialMock({ id: ctx.inputs.param.id }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+
+    const data = await (await app.request('/users/123')).json()
+    expect(data).toEqual({ id: '123', name: expect.stringMatching(/^[A-Z]/) })
+  })
+
+  it('should require every property outside of partial mocks', () => {
+    const getUser = defineGet('/users/:id', {
+      response: z.object({ id: z.string(), name: z.string() }),
+    })
+
+    // @ts-expect-error the name is missing
+    getUser.defineMock((ctx) => ({ id: ctx.inputs.param.id }))
+    getUser.defineMock((ctx) => ({ id: ctx.inputs.param.id, name: 'Ada' }))
+  })
+
+  it('should generate a response from the schema when no mock is defined', async () => {
     const apiSchema = {
       getUser: defineGet('/users/:id', {
         response: z.object({ id: z.string(), name: z.string() }),
@@ -171,8 +201,9 @@ describe('generateMockApi - GET endpoints', () => {
     const { app } = createMockServer(apiSchema)
 
     const res = await app.request('/users/123')
-    expect(res.status).toBe(500)
-    expect(await res.text()).toContain('No mock defined')
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(() => apiSchema.getUser.response.parse(data)).not.toThrow()
   })
 
   it('should handle GET request with string response', async () => {
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { createApiClient } from '../../api-client/api-client'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+import { type MockFetchController, setupMockFetch } from '../mock-fetch'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function createTarget() {
+  const originalFetch = vi.fn(async (_input: RequestInfo | URL) =>
+    Response.json({ source: 'network' }),
+  )
+  return { target: { fetch: originalFetch as typeof fetch }, originalFetch }
+}
+
+describe('setupMockFetch', () => {
+  const apiSchema = {
+    getUser: defineGet('/users/:id', { response: userModel }),
+  }
+  apiSchema.getUser.defineMock((ctx) => ({
+    id: ctx.inputs.param.id,
+    name: 'John',
+  }))
+  const { app } = createMockServer(apiSchema)
+
+  let mocks: MockFetchController | undefined
+  afterEach(() => mocks?.stop())
+
+  it('routes matching requests into the mock server', async () => {
+    const { target, originalFetch } = createTarget()
+    mocks = setupMockFetch(app, { target })
+
+    const response = await target.fetch('http://localhost/users/1')
+
+    expect(await response.json()).toEqual({ id: '1', name: 'John' })
+    expect(originalFetch).not.toHaveBeenCalled()
+  })
+
+  it('serves the api client without a server', async () => {
+    const { target } = createTarget()
+    mocks = setupMockFetch(app, { target })
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: (request) => target.fetch(request),
+    })
+
+    const { data } = await client.api.users.id('1').get()
+    expect(data).toEqual({ id: '1', name: 'John' })
+  })
+
+  it('passes unmatched requests to the original fetch', async () => {
+    const { target, originalFetch } = createTarget()
+    mocks = setupMockFetch(app, { target })
+
+    const response = await target.fetch('http://localhost/products')
+
+    expect(await response.json()).toEqual({ source: 'network' })
+    expect(originalFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('only routes requests below the base url', async () => {
+    const { target, originalFetch } = createTarget()
+    mocks = setupMockFetch(app, { target, baseURL: 'http://localhost' })
+
+    await target.fetch('http://localhost/users/1')
+    const response = await target.fetch('https://cdn.example.com/users/1')
+
+    expect(await response.json()).toEqual({ source: 'network' })
+    expect(originalFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('warns about or rejects unmatched requests', async () => {
+    const { target, originalFetch } = createTarget()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    mocks = setupMockFetch(app, { target, onUnhandledRequest: 'warn' })
+    await target.fetch('http://localhost/products')
+    expect(warn).toHaveBeenCalledWith(
+      'No mock endpoint matches GET http://localhost/products',
+    )
+    mocks.stop()
+
+    mocks = setupMockFetch(app, { target, onUnhandledRequest: 'error' })
+    await expect(target.fetch('http://localhost/products')).rejects.toThrow(
+      'No mock endpoint matches GET http://localhost/products',
+    )
+    expect(originalFetch).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+
+  it('keeps the mocked status of responses', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ctx.error(404, { message: 'Gone' }))
+    const { target, originalFetch } = createTarget()
+    mocks = setupMockFetch(createMockServer(apiSchema).app, { target })
+
+    const response = await target.fetch('http://localhost/users/1')
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ message: 'Gone' })
+    expect(originalFetch).not.toHaveBeenCalled()
+  })
+
+  it('restores the original fetch', () => {
+    const { target, originalFetch } = createTarget()
+    mocks = setupMockFetch(app, { target })
+    expect(target.fetch).not.toBe(originalFetch)
+
+    mocks.stop()
+    expect(target.fetch).toBe(originalFetch)
+  })
+})
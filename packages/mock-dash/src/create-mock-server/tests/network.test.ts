@@ -0,0 +1,261 @@
+import {
+  defineWebSocketHelper,
+  type UpgradeWebSocket,
+  type WSEvents,
+} from 'hono/ws'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { createApiClient } from '../../api-client/api-client'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { defineJSONStream, defineSSE } from '../../endpoint/stream-response'
+import { defineWebSocket } from '../../endpoint/ws-response'
+import { createRandom } from '../../utils/random'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function track(response: Response | Promise<Response>) {
+  const state = { settled: false }
+  const promise = Promise.resolve(response).then((res) => {
+    state.settled = true
+    return res
+  })
+  return Object.assign(state, { promise })
+}
+
+describe('generateMockApi - network simulation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('latency', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should delay every endpoint by a fixed latency', async () => {
+      const apiSchema = {
+        getUser: defineGet('/users/:id', { response: userModel }),
+        events: defineGet('/events', {
+          response: defineSSE({ tick: z.object({ count: z.number() }) }),
+        }),
+        items: defineGet('/items', {
+          response: defineJSONStream(z.object({ id: z.number() })),
+        }),
+      }
+      apiSchema.getUser.defineMock((ctx) => ({
+        id: ctx.inputs.param.id,
+        name: 'John',
+      }))
+      apiSchema.events.defineMock(async ({ stream }) => {
+        await stream.write({ event: 'tick', data: { count: 1 } })
+      })
+      apiSchema.items.defineMock(async ({ stream }) => {
+        await stream.writeln({ id: 1 })
+      })
+
+      const { app } = createMockServer(apiSchema, {
+        network: { latency: 500 },
+      })
+
+      const user = track(app.request('/users/1'))
+      const events = track(app.request('/events'))
+      const items = track(app.request('/items'))
+
+      await vi.advanceTimersByTimeAsync(499)
+      expect([user.settled, events.settled, items.settled]).toEqual([
+        false,
+        false,
+        false,
+      ])
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(await (await user.promise).json()).toEqual({
+        id: '1',
+        name: 'John',
+      })
+      expect(await (await events.promise).text()).toContain('event: tick')
+      expect(await (await items.promise).text()).toBe('{"id":1}\n')
+    })
+
+    it('should sample latency from a range with the server random', async () => {
+      const apiSchema = {
+        getUser: defineGet('/users/:id', { response: userModel }),
+      }
+      apiSchema.getUser.defineMock((ctx) => ({
+        id: ctx.inputs.param.id,
+        name: 'John',
+      }))
+
+      const { app } = createMockServer(apiSchema, {
+        seed: 1,
+        network: { latency: { min: 100, max: 300 } },
+      })
+      const delay = 100 + createRandom(1).next() * 200
+
+      const user = track(app.request('/users/1'))
+      await vi.advanceTimersByTimeAsync(Math.floor(delay) - 1)
+      expect(user.settled).toBe(false)
+      await vi.advanceTimersByTimeAsync(2)
+      expect(user.settled).toBe(true)
+    })
+
+    it('should sample latency from a custom distribution', async () => {
+      const apiSchema = {
+        getUser: defineGet('/users/:id', { response: userModel }),
+      }
+      apiSchema.getUser.defineMock((ctx) => ({
+        id: ctx.inputs.param.id,
+        name: 'John',
+      }))
+
+      const sampler = vi.fn(() => 50)
+      const { app } = createMockServer(apiSchema, {
+        network: { latency: sampler },
+      })
+
+      const user = track(app.request('/users/1'))
+      await vi.advanceTimersByTimeAsync(50)
+      expect(user.settled).toBe(true)
+      expect(sampler).toHaveBeenCalledOnce()
+    })
+
+    it('should let endpoints override or disable the server options', async () => {
+      const apiSchema = {
+        getHealth: defineGet('/health', {
+          response: z.object({ ok: z.boolean() }),
+          options: { network: false },
+        }),
+        getSlow: defineGet('/slow', {
+          response: z.object({ ok: z.boolean() }),
+          options: { network: { latency: 3000 } },
+        }),
+      }
+      apiSchema.getHealth.defineMock({ ok: true })
+      apiSchema.getSlow.defineMock({ ok: true })
+
+      const { app } = createMockServer(apiSchema, {
+        network: { latency: 1000 },
+      })
+
+      const health = track(app.request('/health'))
+      const slow = track(app.request('/slow'))
+
+      await vi.advanceTimersByTimeAsync(0)
+      expect(health.settled).toBe(true)
+
+      await vi.advanceTimersByTimeAsync(2999)
+      expect(slow.settled).toBe(false)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(slow.settled).toBe(true)
+    })
+  })
+
+  it('should answer a share of requests with the failure status', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app } = createMockServer(apiSchema, {
+      network: { failureRate: 1, failureStatus: 503 },
+    })
+
+    const failed = await app.request('/users/1')
+    expect(failed.status).toBe(503)
+    expect(await failed.json()).toEqual({
+      message: 'Simulated network failure',
+    })
+  })
+
+  it('should let a retried request succeed after a failure', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    const { app } = createMockServer(apiSchema, {
+      seed: 7,
+      network: { failureRate: 0.6 },
+    })
+    const fetch = vi.fn(app.fetch)
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+      retry: { attempts: 5, baseDelay: 0 },
+    })
+
+    // The draws of seed 7 fail the first attempt and let the second pass
+    const random = createRandom(7)
+    expect(random.next()).toBeLessThan(0.6)
+    expect(random.next()).toBeGreaterThanOrEqual(0.6)
+
+    const { data } = await client.api.users.id('1').get()
+
+    expect(data).toEqual({ id: '1', name: 'John' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should drop connections', async () => {
+    const apiSchema = {
+      getHealth: defineGet('/health', {
+        response: z.object({ ok: z.boolean() }),
+        options: { network: false },
+      }),
+      events: defineGet('/events', {
+        response: defineSSE({ tick: z.object({ count: z.number() }) }),
+      }),
+    }
+    apiSchema.getHealth.defineMock({ ok: true })
+    apiSchema.events.defineMock(async ({ stream }) => {
+      await stream.write({ event: 'tick', data: { count: 1 } })
+    })
+
+    const { app } = createMockServer(apiSchema, {
+      network: { dropRate: 1 },
+    })
+
+    const res = await app.request('/events')
+    await expect(res.text()).rejects.toThrow('Simulated dropped connection')
+
+    // Endpoints with `network: false` are never dropped
+    const health = await app.request('/health')
+    expect(await health.json()).toEqual({ ok: true })
+  })
+
+  it('should fail WebSocket connections before the upgrade', async () => {
+    const apiSchema = {
+      chat: defineGet('/chat', {
+        response: defineWebSocket([z.string()], [z.string()]),
+      }),
+    }
+    apiSchema.chat.defineMock({})
+
+    let events: WSEvents | undefined
+    const upgradeWebSocket: UpgradeWebSocket = defineWebSocketHelper(
+      (_c, createdEvents) => {
+        events = createdEvents
+        return new Response(null)
+      },
+    )
+
+    const { app } = createMockServer(apiSchema, {
+      upgradeWebSocket,
+      network: { failureRate: 1, failureStatus: 502 },
+    })
+
+    const res = await app.request('/chat')
+    expect(res.status).toBe(502)
+    expect(events).toBeUndefined()
+  })
+})
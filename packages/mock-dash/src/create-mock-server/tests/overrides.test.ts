@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { defineJSONStream } from '../../endpoint/stream-response'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+async function json(
+  app: ReturnType<typeof createMockServer>['app'],
+  path: string,
+) {
+  return (await app.request(path)).json()
+}
+
+describe('generateMockApi - mock overrides', () => {
+  it('should serve an override instead of the endpoint mock', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      numbers: defineGet('/numbers', {
+        response: defineJSONStream(z.object({ value: z.number() })),
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    apiSchema.numbers.defineMock(async ({ stream }) => {
+      await stream.writeln({ value: 1 })
+    })
+    const { app, use } = createMockServer(apiSchema)
+
+    use(apiSchema.getUser, (ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'Override',
+    }))
+    use(apiSchema.numbers, async ({ stream }) => {
+      await stream.writeln({ value: 2 })
+    })
+
+    expect(await json(app, '/users/1')).toEqual({ id: '1', name: 'Override' })
+    expect(await (await app.request('/numbers')).text()).toBe('{"value":2}\n')
+    // Other endpoints keep their mock
+    expect(await json(app, '/users')).toEqual([{ id: '1', name: 'John' }])
+  })
+
+  it('should not leak overrides into other servers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    const first = createMockServer(apiSchema)
+    const second = createMockServer(apiSchema)
+
+    first.use(apiSchema.getUsers, [])
+
+    expect(await json(first.app, '/users')).toEqual([])
+    expect(await json(second.app, '/users')).toHaveLength(1)
+    expect(apiSchema.getUsers.getMock()).toEqual([{ id: '1', name: 'John' }])
+  })
+
+  it('should restore the endpoint mocks with resetHandlers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    const { app, use, resetHandlers } = createMockServer(apiSchema)
+
+    use(apiSchema.getUsers, [])
+    resetHandlers()
+
+    expect(await json(app, '/users')).toHaveLength(1)
+  })
+
+  it('should scope overrides to withMocks', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    const { app, use, withMocks } = createMockServer(apiSchema)
+
+    use(apiSchema.getUser, { id: 'outer', name: 'Outer' })
+
+    const result = await withMocks(
+      (use) => {
+        use(apiSchema.getUsers, [])
+        use(apiSchema.getUser, { id: 'inner', name: 'Inner' })
+      },
+      async () => [await json(app, '/users'), await json(app, '/users/1')],
+    )
+
+    expect(result).toEqual([[], { id: 'inner', name: 'Inner' }])
+    expect(await json(app, '/users')).toHaveLength(1)
+    expect(await json(app, '/users/1')).toEqual({ id: 'outer', name: 'Outer' })
+  })
+
+  it('should restore the overrides when withMocks throws', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    const { app, withMocks } = createMockServer(apiSchema)
+
+    await expect(
+      withMocks(
+        (use) => use(apiSchema.getUsers, []),
+        () => {
+          throw new Error('failed')
+        },
+      ),
+    ).rejects.toThrow('failed')
+
+    expect(await json(app, '/users')).toHaveLength(1)
+  })
+
+  it('should let scenarios replace overrides', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUsers.defineMock([{ id: '1', name: 'John' }])
+    apiSchema.getUsers.defineScenario('many', {
+      mock: [
+        { id: '1', name: 'John' },
+        { id: '2', name: 'Jane' },
+      ],
+    })
+    const { app, use, scenarios } = createMockServer(apiSchema)
+
+    use(apiSchema.getUsers, [])
+    scenarios.set('many')
+
+    expect(await json(app, '/users')).toHaveLength(2)
+  })
+})
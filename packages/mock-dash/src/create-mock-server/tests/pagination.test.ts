@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { definePaginated } from '../../endpoint/pagination'
+import { defineCollection } from '../collection'
+import { createMockServer } from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+const users = Array.from({ length: 25 }, (_, index) => ({
+  id: String(index + 1),
+  name: `User ${index + 1}`,
+}))
+
+const ids = (items: Array<{ id: string }>) => items.map((item) => item.id)
+
+describe('generateMockApi - pagination', () => {
+  it('should slice the mock into the requested page', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              page: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', limit: 'limit' },
+      ),
+    }
+    apiSchema.getUsers.defineMock(users)
+
+    const { app } = createMockServer(apiSchema)
+
+    expect(ids(await (await app.request('/users')).json())).toEqual(
+      ids(users.slice(0, 10)),
+    )
+    expect(
+      ids(await (await app.request('/users?page=2&limit=5')).json()),
+    ).toEqual(['6', '7', '8', '9', '10'])
+    expect(await (await app.request('/users?page=9')).json()).toEqual([])
+  })
+
+  it('should fill in the total of offset pages', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: {
+            query: {
+              offset: z.coerce.number().optional(),
+              limit: z.coerce.number().optional(),
+            },
+          },
+          response: z.object({
+            items: z.array(userModel),
+            total: z.number(),
+            generatedAt: z.string(),
+          }),
+        }),
+        {
+          style: 'offset',
+          offset: 'offset',
+          limit: 'limit',
+          items: 'items',
+          total: 'total',
+          defaultLimit: 20,
+        },
+      ),
+    }
+    apiSchema.getUsers.defineMock(() => users)
+
+    const { app } = createMockServer(apiSchema, { seed: 1 })
+    const body = await (await app.request('/users?offset=20')).json()
+
+    expect(ids(body.items)).toEqual(['21', '22', '23', '24', '25'])
+    expect(body.total).toBe(25)
+    expect(typeof body.generatedAt).toBe('string')
+  })
+
+  it('should return the index of the next item as cursor', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: { query: { cursor: z.string().optional() } },
+          response: z.object({
+            items: z.array(userModel),
+            nextCursor: z.string().nullable(),
+          }),
+        }),
+        {
+          style: 'cursor',
+          cursor: 'cursor',
+          items: 'items',
+          nextCursor: 'nextCursor',
+        },
+      ),
+    }
+    apiSchema.getUsers.defineMock(users)
+
+    const { app } = createMockServer(apiSchema)
+    const first = await (await app.request('/users')).json()
+    const last = await (
+      await app.request(`/users?cursor=${first.nextCursor}0`)
+    ).json()
+
+    expect(first.nextCursor).toBe('10')
+    expect(ids(last.items)).toEqual(ids(users.slice(100)))
+    expect(last.nextCursor).toBeNull()
+  })
+
+  it('should page the items of a bound collection', async () => {
+    const collection = defineCollection(userModel, { seed: users })
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: { query: { page: z.coerce.number().optional() } },
+          response: z.object({ items: z.array(userModel), total: z.number() }),
+        }),
+        { style: 'page', page: 'page', items: 'items', total: 'total' },
+      ),
+    }
+    collection.bind(apiSchema.getUsers)
+
+    const { app } = createMockServer({ collection, ...apiSchema })
+    const body = await (await app.request('/users?page=3')).json()
+
+    expect(body).toEqual({ items: users.slice(20), total: 25 })
+  })
+
+  it('should keep pages built by the mock', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: { query: { page: z.coerce.number().optional() } },
+          response: z.object({ items: z.array(userModel), total: z.number() }),
+        }),
+        { style: 'page', page: 'page', items: 'items', total: 'total' },
+      ),
+    }
+    apiSchema.getUsers.defineMock({ items: users.slice(0, 2), total: 2 })
+
+    const { app } = createMockServer(apiSchema)
+    const body = await (await app.request('/users?page=2')).json()
+
+    expect(body).toEqual({ items: users.slice(0, 2), total: 2 })
+  })
+
+  it('should keep array pages built by mock functions', async () => {
+    const apiSchema = {
+      getUsers: definePaginated(
+        defineGet('/users', {
+          input: { query: { page: z.coerce.number().optional() } },
+          response: z.array(userModel),
+        }),
+        { style: 'page', page: 'page', defaultLimit: 5 },
+      ),
+    }
+    apiSchema.getUsers.defineMock((ctx) => {
+      const start = ((ctx.inputs.query.page ?? 1) - 1) * 5
+      return users.slice(start, start + 5)
+    })
+
+    const { app } = createMockServer(apiSchema)
+
+    expect(ids(await (await app.request('/users?page=2')).json())).toEqual([
+      '6',
+      '7',
+      '8',
+      '9',
+      '10',
+    ])
+  })
+
+  it('should reject pagination that does not match the endpoint', () => {
+    const getUsers = defineGet('/users', {
+      input: { query: { page: z.coerce.number().optional() } },
+      response: z.object({ items: z.array(userModel) }),
+    })
+
+    expect(() =>
+      definePaginated(getUsers, { style: 'page', page: 'page' }),
+    ).toThrow(
+      'Cannot paginate GET /users: the response is not an array, set the "items" property',
+    )
+    expect(() =>
+      definePaginated(getUsers, {
+        style: 'offset',
+        // @ts-expect-error the query has no offset parameter
+        offset: 'offset',
+        items: 'items',
+      }),
+    ).toThrow('Cannot paginate GET /users: the query has no "offset" parameter')
+  })
+})
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import {
+  defineDelete,
+  defineGet,
+  definePost,
+} from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+import { respond } from '../respond'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('generateMockApi - respond', () => {
+  it('should send the status and headers of the envelope', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) =>
+      respond({
+        status: 201,
+        headers: { Location: '/users/1', ETag: '"v1"' },
+        body: { id: '1', name: ctx.inputs.json.name },
+      }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'John' }),
+    })
+
+    expect(res.status).toBe(201)
+    expect(res.headers.get('Location')).toBe('/users/1')
+    expect(res.headers.get('ETag')).toBe('"v1"')
+    expect(await res.json()).toEqual({ id: '1', name: 'John' })
+  })
+
+  it('should set the cookies of the envelope', async () => {
+    const apiSchema = {
+      login: definePost('/login', { response: z.object({ ok: z.boolean() }) }),
+    }
+    apiSchema.login.defineMock(
+      respond({
+        cookies: {
+          theme: 'dark',
+          session: { value: 'abc', httpOnly: true, path: '/' },
+        },
+        body: { ok: true },
+      }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/login', { method: 'POST' })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.getSetCookie()).toEqual([
+      'theme=dark; Path=/',
+      'session=abc; Path=/; HttpOnly',
+    ])
+  })
+
+  it('should resolve the body like any mock structure', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+    }
+    apiSchema.getUsers.defineMock(
+      respond({
+        headers: { 'X-Total-Count': '42' },
+        body: {
+          length: 2,
+          faker: ({ index }) => ({ id: String(index), name: 'John' }),
+        },
+      }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users')
+
+    expect(res.headers.get('X-Total-Count')).toBe('42')
+    expect(await res.json()).toEqual([
+      { id: '0', name: 'John' },
+      { id: '1', name: 'John' },
+    ])
+  })
+
+  it('should generate the body when it is omitted', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock(respond({ headers: { ETag: '"v2"' } }))
+
+    const { app } = createMockServer(apiSchema, { seed: 1 })
+    const res = await app.request('/users/1')
+
+    expect(res.headers.get('ETag')).toBe('"v2"')
+    expect(userModel.safeParse(await res.json()).success).toBe(true)
+  })
+
+  it('should send no body with contentless statuses', async () => {
+    const apiSchema = {
+      deleteUser: defineDelete('/users/:id', { response: z.void() }),
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.deleteUser.defineMock(respond({ status: 204 }))
+    apiSchema.getUser.defineMock(
+      respond({ status: 304, body: { id: '1', name: 'John' } }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const deleted = await app.request('/users/1', { method: 'DELETE' })
+    const notModified = await app.request('/users/1')
+
+    expect(deleted.status).toBe(204)
+    expect(await deleted.text()).toBe('')
+    expect(notModified.status).toBe(304)
+    expect(await notModified.text()).toBe('')
+  })
+
+  it('should reject a body not matching the response schema', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock(
+      respond({ body: { id: 1, name: 'John' } } as never),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users/1')
+
+    expect(res.status).toBe(500)
+    expect(await res.text()).toContain(
+      'Mock response does not match the response schema',
+    )
+  })
+
+  it('should take precedence over the scenario status', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', { response: userModel }),
+    }
+    apiSchema.createUser.defineScenario('created', {
+      status: 200,
+      headers: { 'X-Scenario': 'created' },
+      mock: () => respond({ status: 201, body: { id: '1', name: 'John' } }),
+    })
+
+    const { app } = createMockServer(apiSchema, {
+      scenarios: { initial: 'created' },
+    })
+    const res = await app.request('/users', { method: 'POST' })
+
+    expect(res.status).toBe(201)
+    expect(res.headers.get('X-Scenario')).toBe('created')
+  })
+
+  it('should keep serving plain mocks with a 200', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock(async (ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users/7')
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ id: '7', name: 'John' })
+  })
+})
+
+describe('generateMockApi - response headers', () => {
+  it('should accept headers matching the schema', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number().int().min(0),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    apiSchema.getUsers.defineMock(
+      respond({ headers: { 'X-Total-Count': '3' }, body: [] }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-total-count')).toBe('3')
+  })
+
+  it('should reject mocks missing required headers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number().int().min(0),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    apiSchema.getUsers.defineMock([])
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users')
+
+    expect(res.status).toBe(500)
+    expect(res.headers.get('x-total-count')).toBeNull()
+    expect(await res.text()).toContain(
+      'Mock response headers do not match the responseHeaders schema',
+    )
+  })
+
+  it('should reject mocks with headers not matching the schema', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number().int().min(0),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    apiSchema.getUsers.defineMock(
+      respond({ headers: { 'X-Total-Count': 'many' }, body: [] }),
+    )
+
+    const { app } = createMockServer(apiSchema)
+    const res = await app.request('/users')
+
+    expect(res.status).toBe(500)
+    expect(await res.text()).toContain(
+      'Mock response headers do not match the responseHeaders schema',
+    )
+  })
+
+  it('should accept headers supplied by the scenario', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number().int().min(0),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+    apiSchema.getUsers.defineScenario('empty', {
+      headers: { 'X-Total-Count': '0' },
+      mock: [],
+    })
+
+    const { app } = createMockServer(apiSchema, {
+      scenarios: { initial: 'empty' },
+    })
+    const res = await app.request('/users')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-total-count')).toBe('0')
+  })
+
+  it('should generate the headers of generated responses', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number().int().min(0),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+
+    const { app } = createMockServer(apiSchema, { seed: 1 })
+    const res = await app.request('/users')
+
+    expect(res.status).toBe(200)
+    expect(Number(res.headers.get('x-total-count'))).toBeGreaterThanOrEqual(0)
+  })
+})
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { createMockServer } from '../create-mock-server'
+
+const productModel = z.object({ id: z.string(), name: z.string() })
+
+function pay(app: ReturnType<typeof createMockServer>['app'], headers = {}) {
+  return app.request('/payments', {
+    method: 'POST',
+    body: JSON.stringify({ amount: 10 }),
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+describe('generateMockApi - scenarios', () => {
+  it('should use the regular mock when no scenario is active', async () => {
+    const apiSchema = {
+      getProducts: defineGet('/products', { response: z.array(productModel) }),
+    }
+    apiSchema.getProducts.defineMock([{ id: '1', name: 'Laptop' }])
+    apiSchema.getProducts.defineScenario('empty', { mock: [] })
+
+    const { app, scenarios } = createMockServer(apiSchema)
+
+    expect(scenarios.active).toBeUndefined()
+    expect(await (await app.request('/products')).json()).toHaveLength(1)
+  })
+
+  it('should switch the active scenario from code', async () => {
+    const apiSchema = {
+      getProducts: defineGet('/products', { response: z.array(productModel) }),
+      createPayment: definePost('/payments', {
+        input: { json: z.object({ amount: z.number() }) },
+        response: z.object({ id: z.string(), status: z.string() }),
+      }),
+    }
+    apiSchema.getProducts.defineMock([{ id: '1', name: 'Laptop' }])
+    apiSchema.getProducts.defineScenario('empty', { mock: [] })
+    apiSchema.createPayment.defineMock({ id: 'pay_1', status: 'paid' })
+
+    const { app, scenarios } = createMockServer(apiSchema)
+
+    scenarios.set('empty')
+    expect(await (await app.request('/products')).json()).toEqual([])
+
+    // Endpoints without the scenario keep their regular mock
+    expect(await (await pay(app)).json()).toEqual({
+      id: 'pay_1',
+      status: 'paid',
+    })
+
+    scenarios.reset()
+    expect(await (await app.request('/products')).json()).toHaveLength(1)
+  })
+
+  it('should apply status codes, headers and scenario mocks', async () => {
+    const apiSchema = {
+      createPayment: definePost('/payments', {
+        input: { json: z.object({ amount: z.number() }) },
+        response: z.object({ id: z.string(), status: z.string() }),
+      }),
+    }
+    apiSchema.createPayment.defineMock({ id: 'pay_1', status: 'paid' })
+    apiSchema.createPayment.defineScenario('payments-failing', {
+      status: 503,
+      headers: { 'Retry-After': '30' },
+    })
+    apiSchema.createPayment.defineScenario('pending', {
+      mock: (ctx) => ({
+        id: `pay_${ctx.inputs.json.amount}`,
+        status: 'pending',
+      }),
+      status: 202,
+    })
+
+    const { app, scenarios } = createMockServer(apiSchema, {
+      scenarios: { initial: 'payments-failing' },
+    })
+
+    const failing = await pay(app)
+    expect(failing.status).toBe(503)
+    expect(failing.headers.get('Retry-After')).toBe('30')
+    expect((await failing.json()).message).toContain('payments-failing')
+
+    scenarios.set('pending')
+    const pending = await pay(app)
+    expect(pending.status).toBe(202)
+    expect(await pending.json()).toEqual({ id: 'pay_10', status: 'pending' })
+  })
+
+  it('should select the scenario per request with a header', async () => {
+    const apiSchema = {
+      getProducts: defineGet('/products', { response: z.array(productModel) }),
+    }
+    apiSchema.getProducts.defineMock([{ id: '1', name: 'Laptop' }])
+    apiSchema.getProducts.defineScenario('empty', { mock: [] })
+
+    const { app } = createMockServer(apiSchema, {
+      scenarios: { header: 'x-scenario' },
+    })
+
+    const res = await app.request('/products', {
+      headers: { 'x-scenario': 'empty' },
+    })
+    expect(await res.json()).toEqual([])
+    expect(await (await app.request('/products')).json()).toHaveLength(1)
+  })
+
+  it('should switch scenarios through the control route', async () => {
+    const apiSchema = {
+      getProducts: defineGet('/products', { response: z.array(productModel) }),
+    }
+    apiSchema.getProducts.defineMock([{ id: '1', name: 'Laptop' }])
+    apiSchema.getProducts.defineScenario('empty', { mock: [] })
+
+    const { app, scenarios } = createMockServer(apiSchema, { base: '/api' })
+
+    const put = await app.request('/api/__mock-dash/scenario', {
+      method: 'PUT',
+      body: JSON.stringify({ scenario: 'empty' }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(await put.json()).toEqual({ scenario: 'empty' })
+    expect(scenarios.active).toBe('empty')
+
+    const get = await app.request('/api/__mock-dash/scenario')
+    expect(await get.json()).toEqual({ scenario: 'empty' })
+    expect(await (await app.request('/api/products')).json()).toEqual([])
+
+    const invalid = await app.request('/api/__mock-dash/scenario', {
+      method: 'PUT',
+      body: JSON.stringify({ name: 'empty' }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(invalid.status).toBe(400)
+
+    await app.request('/api/__mock-dash/scenario', {
+      method: 'PUT',
+      body: JSON.stringify({ scenario: null }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    expect(scenarios.active).toBeUndefined()
+  })
+
+  it('should allow disabling the control route', async () => {
+    const apiSchema = {
+      getProducts: defineGet('/products', { response: z.array(productModel) }),
+    }
+
+    const { app } = createMockServer(apiSchema, {
+      scenarios: { controlPath: false },
+    })
+
+    const res = await app.request('/__mock-dash/scenario')
+    expect(res.status).toBe(404)
+  })
+
+  describe('delays', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should delay responses of slow scenarios', async () => {
+      const apiSchema = {
+        getProducts: defineGet('/products', {
+          response: z.array(productModel),
+        }),
+      }
+      apiSchema.getProducts.defineMock([{ id: '1', name: 'Laptop' }])
+      apiSchema.getProducts.defineScenario('slow', { delay: 2000 })
+
+      const { app, scenarios } = createMockServer(apiSchema)
+      scenarios.set('slow')
+
+      let settled = false
+      const pending = Promise.resolve(app.request('/products')).then((res) => {
+        settled = true
+        return res
+      })
+
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(settled).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(1)
+      const res = await pending
+      expect(await res.json()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { defineJSONStream } from '../../endpoint/stream-response'
+import { defineCollection } from '../collection'
+import {
+  createMockServer,
+  type MockGenerationOptions,
+} from '../create-mock-server'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+// Numbers from the generator, so equal seeds produce equal values
+const zodToMock = ((schema, random) =>
+  schema instanceof z.ZodArray
+    ? [`name ${random.int(0, 1e6)}`]
+    : { n: random.int(0, 1e6) }) as MockGenerationOptions['zodToMock']
+
+async function read(
+  server: ReturnType<typeof createMockServer>,
+  path: string,
+  headers?: Record<string, string>,
+) {
+  return (await server.app.request(path, { headers })).text()
+}
+
+describe('generateMockApi - seed', () => {
+  it('should produce the same data for the same seed', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      getLucky: defineGet('/lucky', { response: z.object({ n: z.number() }) }),
+      getNames: defineGet('/names', { response: z.array(z.string()) }),
+      numbers: defineGet('/numbers', {
+        response: defineJSONStream(z.object({ n: z.number() })),
+      }),
+    }
+    apiSchema.getUsers.defineMock({
+      min: 1,
+      max: 50,
+      faker: ({ index }) => ({ id: String(index), name: `User ${index}` }),
+    })
+    apiSchema.getLucky.defineMock(({ random }) => ({ n: random.int(0, 1e6) }))
+
+    const first = createMockServer(apiSchema, { seed: 42, zodToMock })
+    const second = createMockServer(apiSchema, { seed: 42, zodToMock })
+
+    for (const path of ['/users', '/lucky', '/names', '/numbers']) {
+      expect(await read(first, path)).toBe(await read(second, path))
+    }
+  })
+
+  it('should not depend on the order of requests', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', { response: z.array(userModel) }),
+      getLucky: defineGet('/lucky', { response: z.object({ n: z.number() }) }),
+    }
+    apiSchema.getUsers.defineMock({
+      min: 1,
+      max: 50,
+      faker: ({ index }) => ({ id: String(index), name: `User ${index}` }),
+    })
+    apiSchema.getLucky.defineMock(({ random }) => ({ n: random.int(0, 1e6) }))
+
+    const first = createMockServer(apiSchema, { seed: 42 })
+    const second = createMockServer(apiSchema, { seed: 42 })
+
+    await read(first, '/users')
+    const lucky = await read(first, '/lucky')
+
+    expect(await read(second, '/lucky')).toBe(lucky)
+  })
+
+  it('should produce different data for different seeds', async () => {
+    const apiSchema = {
+      getLucky: defineGet('/lucky', { response: z.object({ n: z.number() }) }),
+    }
+    apiSchema.getLucky.defineMock(({ random }) => ({ n: random.int(0, 1e6) }))
+
+    const first = createMockServer(apiSchema, { seed: 1 })
+    const second = createMockServer(apiSchema, { seed: 2 })
+
+    expect(await read(first, '/lucky')).not.toBe(await read(second, '/lucky'))
+  })
+
+  it('should take the seed of a request from the header', async () => {
+    const apiSchema = {
+      getLucky: defineGet('/lucky', { response: z.object({ n: z.number() }) }),
+    }
+    apiSchema.getLucky.defineMock(({ random }) => ({ n: random.int(0, 1e6) }))
+
+    const seeded = createMockServer(apiSchema, { seed: 'other' })
+    const unseeded = createMockServer(apiSchema)
+    const headers = { 'x-mock-seed': 'bug-123' }
+
+    expect(await read(seeded, '/lucky', headers)).toBe(
+      await read(unseeded, '/lucky', headers),
+    )
+  })
+
+  it('should seed the generated items of collections', async () => {
+    function createServer() {
+      const users = defineCollection(userModel, { seed: 3 })
+      const apiSchema = {
+        users,
+        getUsers: defineGet('/users', { response: z.array(userModel) }),
+      }
+      users.bind(apiSchema.getUsers)
+
+      return createMockServer(apiSchema, {
+        seed: 7,
+        zodToMock: ((_schema, random) => ({
+          id: String(random.int(0, 1e6)),
+          name: 'User',
+        })) as MockGenerationOptions['zodToMock'],
+      })
+    }
+
+    expect(await read(createServer(), '/users')).toBe(
+      await read(createServer(), '/users'),
+    )
+  })
+})
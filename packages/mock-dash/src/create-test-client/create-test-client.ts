@@ -0,0 +1,56 @@
+import { createApiClient } from '../api-client/api-client'
+import type { CreateApiClientArgs } from '../api-client/client-base'
+import {
+  createMockServer,
+  type MockGenerationOptions,
+} from '../create-mock-server/create-mock-server'
+import { createMemoryWebSockets } from './memory-websocket'
+
+export type TestMockOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> = Omit<MockGenerationOptions<T>, 'createNodeWebSocket' | 'upgradeWebSocket'>
+
+export type TestClientOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> = Omit<
+  CreateApiClientArgs<T>,
+  'apiSchema' | 'baseURL' | 'fetch' | 'alias' | 'WebSocket'
+>
+
+/**
+ * Creates a mock server and an api client wired to it in memory. Requests,
+ * streams and WebSockets go straight to the Hono app, without ports.
+ *
+ * @example
+ * ```typescript
+ * const { api } = createTestClient(apiSchema)
+ * const { data } = await api.users.id('1').get()
+ * ```
+ */
+export function createTestClient<T extends Record<string, unknown>>(
+  apiSchema: T,
+  ...args: Partial<TestMockOptions<T>> extends TestMockOptions<T>
+    ? [mockOptions?: TestMockOptions<T>, clientOptions?: TestClientOptions<T>]
+    : [mockOptions: TestMockOptions<T>, clientOptions?: TestClientOptions<T>]
+) {
+  const [mockOptions, clientOptions] = args
+  const webSockets = createMemoryWebSockets()
+
+  const { injectWebSocket: _, ...server } = createMockServer(apiSchema, {
+    ...mockOptions,
+    upgradeWebSocket: webSockets.upgradeWebSocket,
+  } as MockGenerationOptions<T>)
+
+  const fetch = (request: Request) => server.app.fetch(request)
+
+  const client = createApiClient({
+    ...clientOptions,
+    apiSchema,
+    baseURL: `http://localhost${mockOptions?.base ?? ''}`,
+    alias: mockOptions?.alias,
+    fetch,
+    WebSocket: webSockets.createWebSocket(fetch),
+  } as CreateApiClientArgs<T>)
+
+  return { ...client, ...server }
+}
@@ -0,0 +1,210 @@
+import {
+  defineWebSocketHelper,
+  type UpgradeWebSocket,
+  WSContext,
+  type WSEvents,
+  type WSMessageReceive,
+  type WSReadyState,
+} from 'hono/ws'
+
+// Identifies the client socket behind an upgrade request
+const socketIdHeader = 'x-mock-dash-socket'
+
+type AppFetch = (request: Request) => Response | Promise<Response>
+
+type SocketData = string | ArrayBufferLike | Blob | ArrayBufferView
+
+function toArrayBuffer(data: ArrayBufferView): ArrayBuffer {
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+    .buffer
+}
+
+function toMessageData(data: SocketData): WSMessageReceive {
+  return ArrayBuffer.isView(data) ? toArrayBuffer(data) : data
+}
+
+function createCloseEvent(code: number, reason: string) {
+  return Object.assign(new Event('close'), {
+    code,
+    reason,
+    wasClean: code !== 1006,
+  }) as CloseEvent
+}
+
+/**
+ * The client end of an in-memory socket pair. Implements the parts of the
+ * `WebSocket` interface the api client uses; its upgrade request is sent to
+ * the mock server app instead of over the network.
+ */
+class MemoryWebSocket extends EventTarget {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+
+  readonly CONNECTING = 0
+  readonly OPEN = 1
+  readonly CLOSING = 2
+  readonly CLOSED = 3
+
+  readonly url: string
+  readyState: WSReadyState = 0
+  binaryType: BinaryType = 'arraybuffer'
+  readonly bufferedAmount = 0
+  readonly extensions = ''
+  readonly protocol = ''
+
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onclose: ((event: CloseEvent) => void) | null = null
+
+  #events: WSEvents<MemoryWebSocket> | undefined
+  #server: WSContext<MemoryWebSocket> | undefined
+
+  constructor(
+    url: string | URL,
+    fetch: AppFetch,
+    pending: Map<string, MemoryWebSocket>,
+  ) {
+    super()
+    this.url = String(url)
+
+    const id = crypto.randomUUID()
+    pending.set(id, this)
+
+    const request = new Request(this.url.replace(/^ws/, 'http'), {
+      headers: { upgrade: 'websocket', [socketIdHeader]: id },
+    })
+
+    // Like a real socket, the connection is made after the constructor returns
+    setTimeout(async () => {
+      try {
+        await fetch(request)
+      } catch {
+        // Handled below, the socket was not accepted
+      }
+      pending.delete(id)
+      if (!this.#server && this.readyState === this.CONNECTING) {
+        this.#dispatch(new Event('error'))
+        this.#finishClose(1006, '')
+      }
+    })
+  }
+
+  /** Connects the socket to the events of the mock endpoint */
+  accept(events: WSEvents<MemoryWebSocket>, url: string) {
+    const socket = this
+    this.#events = events
+    this.#server = new WSContext({
+      send: (data) => socket.#deliver(data),
+      close: (code, reason) => socket.close(code, reason),
+      get readyState() {
+        return socket.readyState
+      },
+      url,
+      raw: this,
+    })
+
+    setTimeout(() => {
+      if (this.readyState !== this.CONNECTING) return
+      this.readyState = this.OPEN
+      this.#dispatch(new Event('open'))
+      this.#runServer(() => events.onOpen?.(new Event('open'), this.#server!))
+    })
+  }
+
+  send(data: SocketData) {
+    if (this.readyState !== this.OPEN) {
+      throw new DOMException('WebSocket is not open', 'InvalidStateError')
+    }
+
+    const message = toMessageData(data)
+    setTimeout(() => {
+      if (this.readyState !== this.OPEN) return
+      this.#runServer(() =>
+        this.#events?.onMessage?.(
+          new MessageEvent('message', { data: message }),
+          this.#server!,
+        ),
+      )
+    })
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === this.CLOSING || this.readyState === this.CLOSED) {
+      return
+    }
+    this.readyState = this.CLOSING
+    setTimeout(() => this.#finishClose(code, reason))
+  }
+
+  #deliver(data: string | ArrayBuffer | Uint8Array) {
+    if (this.readyState !== this.OPEN) return
+    const message = toMessageData(data)
+    setTimeout(() => {
+      if (this.readyState !== this.OPEN) return
+      this.#dispatch(new MessageEvent('message', { data: message }))
+    })
+  }
+
+  #finishClose(code: number, reason: string) {
+    if (this.readyState === this.CLOSED) return
+    this.readyState = this.CLOSED
+    if (this.#server) {
+      this.#runServer(() =>
+        this.#events?.onClose?.(createCloseEvent(code, reason), this.#server!),
+      )
+    }
+    this.#dispatch(createCloseEvent(code, reason))
+  }
+
+  /** Errors of the mock close the socket, as a server would on an internal error */
+  #runServer(handler: () => void) {
+    try {
+      handler()
+    } catch (error) {
+      this.#events?.onError?.(new Event('error'), this.#server!)
+      this.#dispatch(Object.assign(new Event('error'), { error }))
+      this.close(1011, error instanceof Error ? error.message : '')
+    }
+  }
+
+  #dispatch(event: Event) {
+    this.dispatchEvent(event)
+    const handler = this[`on${event.type}` as 'onopen']
+    handler?.call(this, event)
+  }
+}
+
+/**
+ * @internal
+ * Creates both ends of in-memory WebSocket connections: `upgradeWebSocket`
+ * for the mock server and a `WebSocket` class for the api client, which sends
+ * its upgrade requests to `fetch`.
+ */
+export function createMemoryWebSockets() {
+  const pending = new Map<string, MemoryWebSocket>()
+
+  const upgradeWebSocket: UpgradeWebSocket = defineWebSocketHelper(
+    (c, events) => {
+      const socket = pending.get(c.req.header(socketIdHeader) ?? '')
+      if (!socket) {
+        return c.text('Expected an in-memory WebSocket connection', 426)
+      }
+
+      pending.delete(c.req.header(socketIdHeader)!)
+      socket.accept(events as WSEvents<MemoryWebSocket>, c.req.url)
+      return new Response(null)
+    },
+  )
+
+  const createWebSocket = (fetch: AppFetch) =>
+    class extends MemoryWebSocket {
+      constructor(url: string | URL) {
+        super(url, fetch, pending)
+      }
+    } as unknown as typeof WebSocket
+
+  return { upgradeWebSocket, createWebSocket }
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import {
+  defineBinaryStream,
+  defineJSONStream,
+  defineSSE,
+} from '../../endpoint/stream-response'
+import { defineWebSocket } from '../../endpoint/ws-response'
+import { createTestClient } from '../create-test-client'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('createTestClient', () => {
+  it('calls http endpoints through the mock server', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+
+    const { api } = createTestClient(apiSchema)
+
+    const user = await api.users.id('1').get()
+    const created = await api.users.post({ json: { name: 'Jane' } })
+
+    expect(user.data).toEqual({ id: '1', name: 'John' })
+    expect(created.data).toEqual({ id: 'new', name: 'Jane' })
+  })
+
+  it('streams SSE, NDJSON and binary responses', async () => {
+    const apiSchema = {
+      events: defineGet('/events', {
+        response: defineSSE({ tick: z.object({ count: z.number() }) }),
+      }),
+      numbers: defineGet('/numbers', {
+        response: defineJSONStream(z.object({ value: z.number() })),
+      }),
+      file: defineGet('/file', {
+        response: defineBinaryStream('application/octet-stream'),
+      }),
+    }
+    apiSchema.events.defineMock(async ({ stream }) => {
+      await stream.write({ event: 'tick', data: { count: 1 } })
+      await stream.write({ event: 'tick', data: { count: 2 } })
+    })
+    apiSchema.numbers.defineMock(async ({ stream }) => {
+      await stream.writeln({ value: 1 })
+      await stream.writeln({ value: 2 })
+    })
+    apiSchema.file.defineMock(async ({ stream }) => {
+      await stream.write(new Uint8Array([1, 2, 3]))
+    })
+
+    const { api } = createTestClient(apiSchema)
+
+    const events = await api.events.get.$stream()
+    const ticks: unknown[] = []
+    for await (const chunk of events.data!) {
+      if (chunk.type === 'event') ticks.push(chunk.data)
+    }
+
+    const numbers = await api.numbers.get.$stream()
+    const values: unknown[] = []
+    for await (const chunk of numbers.data!) {
+      if (chunk.type === 'json') values.push(chunk.data)
+    }
+
+    const file = await api.file.get.$stream()
+    const bytes: number[] = []
+    for await (const chunk of file.data!) {
+      if (chunk.type === 'binary') bytes.push(...chunk.data)
+    }
+
+    expect(ticks).toEqual([{ count: 1 }, { count: 2 }])
+    expect(values).toEqual([{ value: 1 }, { value: 2 }])
+    expect(bytes).toEqual([1, 2, 3])
+  })
+
+  it('connects WebSockets through an in-memory socket pair', async () => {
+    const apiSchema = {
+      chat: defineGet('/chat/:room', {
+        response: defineWebSocket(
+          [z.object({ room: z.string(), text: z.string() })],
+          [z.object({ text: z.string() })],
+        ),
+      }),
+    }
+    apiSchema.chat.defineMock((ctx) => ({
+      onOpen: (_evt, ws) => {
+        ws.send({ room: ctx.inputs.param.room, text: 'welcome' })
+      },
+      onMessage: (evt, ws) => {
+        ws.send({ room: ctx.inputs.param.room, text: evt.data.text })
+      },
+    }))
+
+    const { api } = createTestClient(apiSchema)
+
+    const { data, controller } = await api.chat.room('general').get.$ws()
+    const messages: unknown[] = []
+    for await (const chunk of data!) {
+      if (chunk.type === 'status' && chunk.status === 'open') {
+        controller!.send({ text: 'hello' })
+      }
+      if (chunk.type === 'message') {
+        messages.push(chunk.data)
+        if (messages.length === 2) controller!.close()
+      }
+    }
+
+    expect(messages).toEqual([
+      { room: 'general', text: 'welcome' },
+      { room: 'general', text: 'hello' },
+    ])
+  })
+
+  it('closes the socket when the mock rejects a message', async () => {
+    const apiSchema = {
+      chat: defineGet('/chat/:room', {
+        response: defineWebSocket(
+          [z.object({ room: z.string(), text: z.string() })],
+          [z.object({ text: z.string() })],
+        ),
+      }),
+    }
+    apiSchema.chat.defineMock((ctx) => ({
+      onOpen: (_evt, ws) => {
+        ws.send({ room: ctx.inputs.param.room, text: 'welcome' })
+      },
+      onMessage: (evt, ws) => {
+        ws.send({ room: ctx.inputs.param.room, text: evt.data.text })
+      },
+    }))
+
+    const { api } = createTestClient(apiSchema)
+
+    const { data, controller } = await api.chat.room('general').get.$ws()
+    const statuses: string[] = []
+    for await (const chunk of data!) {
+      if (chunk.type === 'status') {
+        statuses.push(chunk.status)
+        if (chunk.status === 'open') controller!.sendRaw('{"wrong":true}')
+      }
+    }
+
+    expect(statuses).toContain('closed')
+  })
+
+  it('applies the base path and aliases of the mock options', async () => {
+    const apiSchema = {
+      getUser: defineGet('/{api}/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { api } = createTestClient(apiSchema, {
+      base: '/base',
+      alias: { api: '/api/v1' },
+    })
+
+    const { data } = await api.api.users.id('1').get()
+    expect(data).toEqual({ id: '1', name: 'John' })
+  })
+
+  it('passes client options to the api client', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: 'John',
+    }))
+
+    const { api } = createTestClient(apiSchema, undefined, {
+      headers: { authorization: 'Bearer token' },
+    })
+
+    const { data } = await api.users.id('1').get()
+    expect(data).toEqual({ id: '1', name: 'John' })
+  })
+
+  it('records the calls made by the client', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+    const { api, expectCalled } = createTestClient(apiSchema)
+
+    await api.users.post({ json: { name: 'Jane' } })
+
+    expect(
+      expectCalled(apiSchema.createUser, { json: { name: 'Jane' } }),
+    ).toHaveLength(1)
+  })
+})
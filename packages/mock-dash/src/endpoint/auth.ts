@@ -0,0 +1,54 @@
+/** Credentials sent as `Authorization: Bearer <token>` */
+export type BearerAuthScheme = { readonly type: 'bearer' }
+
+/** Credentials sent as `Authorization: Basic <base64(username:password)>` */
+export type BasicAuthScheme = { readonly type: 'basic' }
+
+/** A key sent in a request header or query parameter */
+export type ApiKeyAuthScheme = {
+  readonly type: 'apiKey'
+  readonly in: 'header' | 'query'
+  /** Name of the header or query parameter, header names are lowercase */
+  readonly name: string
+}
+
+/** A session cookie */
+export type CookieAuthScheme = {
+  readonly type: 'cookie'
+  /** Name of the cookie */
+  readonly name: string
+}
+
+export type AuthScheme =
+  | BearerAuthScheme
+  | BasicAuthScheme
+  | ApiKeyAuthScheme
+  | CookieAuthScheme
+
+/** The credentials read from a request, by the scheme they were sent with */
+export type AuthCredentials =
+  | { readonly type: 'bearer'; readonly token: string }
+  | {
+      readonly type: 'basic'
+      readonly username: string
+      readonly password: string
+    }
+  | { readonly type: 'apiKey'; readonly key: string }
+  | { readonly type: 'cookie'; readonly value: string }
+
+/**
+ * Declares how requests authenticate. Use it in the `auth` option of an
+ * endpoint, or in the `auth` options of `createApiClient` and
+ * `createMockServer` for every endpoint.
+ *
+ * @example
+ * ```typescript
+ * const bearer = defineAuth({ type: 'bearer' })
+ * const apiKey = defineAuth({ type: 'apiKey', in: 'header', name: 'x-api-key' })
+ *
+ * const getMe = defineGet('/me', { response: userModel, options: { auth: bearer } })
+ * ```
+ */
+export function defineAuth<S extends AuthScheme>(scheme: S): S {
+  return Object.freeze({ ...scheme })
+}
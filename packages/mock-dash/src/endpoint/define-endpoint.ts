@@ -1,5 +1,11 @@
 import z from 'zod'
-import type { EndpointConfig, EndpointOptions, EndpointPath } from './endpoint'
+import type {
+  EndpointConfig,
+  EndpointErrors,
+  EndpointOptions,
+  EndpointPath,
+  EndpointResponseHeaders,
+} from './endpoint'
 import { HttpEndpoint } from './http-endpoint'
 import type { EndpointInput, ParamFromPath } from './input'
 import { StreamEndpoint } from './stream-endpoint'
@@ -33,23 +39,42 @@ export function defineGet<
   T extends ParamFromPath<P>,
   R extends z.ZodType,
   O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 >(
   path: P,
-  config: EndpointConfig<R, I, P, T, O>,
-): HttpEndpoint<P, R, 'get', I, O>
+  config: EndpointConfig<R, I, P, T, O, E, H>,
+): HttpEndpoint<P, R, 'get', I, O, E, H>
 export function defineGet<
   I extends EndpointInput<'get'>,
   R extends z.ZodType | StreamResponse | WebSocketResponse,
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   O extends EndpointOptions = EndpointOptions,
->(path: P, { input, response, options }: EndpointConfig<R, I, P, T, O>) {
+>(
+  path: P,
+  {
+    input,
+    response,
+    responseHeaders,
+    options,
+    errors,
+  }: EndpointConfig<R, I, P, T, O, EndpointErrors, EndpointResponseHeaders>,
+) {
   if (response instanceof WebSocketResponse) {
-    return new WebSocketEndpoint('get', path, response, input, options)
+    return new WebSocketEndpoint('get', path, response, input, options, errors)
   } else if (response instanceof StreamResponse) {
-    return new StreamEndpoint('get', path, response, input, options)
+    return new StreamEndpoint('get', path, response, input, options, errors)
   } else if (response instanceof z.ZodType) {
-    return new HttpEndpoint('get', path, response, input, options)
+    return new HttpEndpoint(
+      'get',
+      path,
+      response,
+      input,
+      options,
+      errors,
+      responseHeaders,
+    )
   }
 
   throw new Error('Invalid response type')
@@ -70,21 +95,40 @@ export function defineDelete<
   T extends ParamFromPath<P>,
   R extends z.ZodType,
   O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 >(
   path: P,
-  config: EndpointConfig<R, I, P, T, O>,
-): HttpEndpoint<P, R, 'delete', I, O>
+  config: EndpointConfig<R, I, P, T, O, E, H>,
+): HttpEndpoint<P, R, 'delete', I, O, E, H>
 export function defineDelete<
   I extends EndpointInput<'delete'>,
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   R extends z.ZodType | StreamResponse,
   O extends EndpointOptions = EndpointOptions,
->(path: P, { input, response, options }: EndpointConfig<R, I, P, T, O>) {
+>(
+  path: P,
+  {
+    input,
+    response,
+    responseHeaders,
+    options,
+    errors,
+  }: EndpointConfig<R, I, P, T, O, EndpointErrors, EndpointResponseHeaders>,
+) {
   if (response instanceof StreamResponse) {
-    return new StreamEndpoint('delete', path, response, input, options)
+    return new StreamEndpoint('delete', path, response, input, options, errors)
   } else if (response instanceof z.ZodType) {
-    return new HttpEndpoint('delete', path, response, input, options)
+    return new HttpEndpoint(
+      'delete',
+      path,
+      response,
+      input,
+      options,
+      errors,
+      responseHeaders,
+    )
   }
 
   throw new Error('Invalid response type')
@@ -106,21 +150,40 @@ export function definePost<
   T extends ParamFromPath<P>,
   R extends z.ZodType,
   O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 >(
   path: P,
-  config: EndpointConfig<R, I, P, T, O>,
-): HttpEndpoint<P, R, 'post', I, O>
+  config: EndpointConfig<R, I, P, T, O, E, H>,
+): HttpEndpoint<P, R, 'post', I, O, E, H>
 export function definePost<
   I extends EndpointInput<'post'>,
   R extends z.ZodType | StreamResponse,
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   O extends EndpointOptions = EndpointOptions,
->(path: P, { input, response, options }: EndpointConfig<R, I, P, T, O>) {
+>(
+  path: P,
+  {
+    input,
+    response,
+    responseHeaders,
+    options,
+    errors,
+  }: EndpointConfig<R, I, P, T, O, EndpointErrors, EndpointResponseHeaders>,
+) {
   if (response instanceof StreamResponse) {
-    return new StreamEndpoint('post', path, response, input, options)
+    return new StreamEndpoint('post', path, response, input, options, errors)
   } else if (response instanceof z.ZodType) {
-    return new HttpEndpoint('post', path, response, input, options)
+    return new HttpEndpoint(
+      'post',
+      path,
+      response,
+      input,
+      options,
+      errors,
+      responseHeaders,
+    )
   }
 
   throw new Error('Invalid response type')
@@ -142,21 +205,40 @@ export function definePut<
   T extends ParamFromPath<P>,
   R extends z.ZodType,
   O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 >(
   path: P,
-  config: EndpointConfig<R, I, P, T, O>,
-): HttpEndpoint<P, R, 'put', I, O>
+  config: EndpointConfig<R, I, P, T, O, E, H>,
+): HttpEndpoint<P, R, 'put', I, O, E, H>
 export function definePut<
   I extends EndpointInput<'put'>,
   R extends z.ZodType | StreamResponse,
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   O extends EndpointOptions = EndpointOptions,
->(path: P, { input, response, options }: EndpointConfig<R, I, P, T, O>) {
+>(
+  path: P,
+  {
+    input,
+    response,
+    responseHeaders,
+    options,
+    errors,
+  }: EndpointConfig<R, I, P, T, O, EndpointErrors, EndpointResponseHeaders>,
+) {
   if (response instanceof StreamResponse) {
-    return new StreamEndpoint('put', path, response, input, options)
+    return new StreamEndpoint('put', path, response, input, options, errors)
   } else if (response instanceof z.ZodType) {
-    return new HttpEndpoint('put', path, response, input, options)
+    return new HttpEndpoint(
+      'put',
+      path,
+      response,
+      input,
+      options,
+      errors,
+      responseHeaders,
+    )
   }
 
   throw new Error('Invalid response type')
@@ -178,21 +260,40 @@ export function definePatch<
   T extends ParamFromPath<P>,
   R extends z.ZodType,
   O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
 >(
   path: P,
-  config: EndpointConfig<R, I, P, T, O>,
-): HttpEndpoint<P, R, 'patch', I, O>
+  config: EndpointConfig<R, I, P, T, O, E, H>,
+): HttpEndpoint<P, R, 'patch', I, O, E, H>
 export function definePatch<
   I extends EndpointInput<'patch'>,
   R extends z.ZodType | StreamResponse,
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   O extends EndpointOptions = EndpointOptions,
->(path: P, { input, response, options }: EndpointConfig<R, I, P, T, O>) {
+>(
+  path: P,
+  {
+    input,
+    response,
+    responseHeaders,
+    options,
+    errors,
+  }: EndpointConfig<R, I, P, T, O, EndpointErrors, EndpointResponseHeaders>,
+) {
   if (response instanceof StreamResponse) {
-    return new StreamEndpoint('patch', path, response, input, options)
+    return new StreamEndpoint('patch', path, response, input, options, errors)
   } else if (response instanceof z.ZodType) {
-    return new HttpEndpoint('patch', path, response, input, options)
+    return new HttpEndpoint(
+      'patch',
+      path,
+      response,
+      input,
+      options,
+      errors,
+      responseHeaders,
+    )
   }
 
   throw new Error('Invalid response type')
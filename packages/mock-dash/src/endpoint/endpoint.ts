@@ -1,5 +1,8 @@
+import type z from 'zod'
 import type { DeepStrict } from '../utils/types'
+import type { AuthScheme } from './auth'
 import type { EndpointInput, EndpointInputType, ParamFromPath } from './input'
+import type { NetworkOptions } from './network'
 
 export type HttpMethod = 'get' | 'post' | 'patch' | 'put' | 'delete'
 
@@ -11,15 +14,31 @@ export type EndpointConfig<
   P extends EndpointPath,
   T extends ParamFromPath<P>,
   O extends EndpointOptions,
+  E extends EndpointErrors = EndpointErrors,
+  H extends EndpointResponseHeaders | undefined = undefined,
 > = {
   input?: I & {
     param?: DeepStrict<ParamFromPath<P>, T>
   }
   response: R
+  /** Schema of the headers of successful responses, keyed by lowercase header names */
+  responseHeaders?: H
+  /** Schemas of the error bodies returned with non-2xx status codes */
+  errors?: E
   options?: O
 }
 
-export type EndpointOptions = Record<string, unknown>
+export type EndpointOptions = {
+  /** Latency and failure simulation of this endpoint on the mock server, `false` disables it */
+  network?: NetworkOptions | false
+  /** How requests to this endpoint authenticate, `false` makes it public */
+  auth?: AuthScheme | false
+} & Record<string, unknown>
+
+export type EndpointErrors = { [status: number]: z.ZodType }
+
+/** Header values are strings, use `z.coerce` for other types */
+export type EndpointResponseHeaders = z.ZodObject
 
 export abstract class Endpoint<
   R = unknown,
@@ -28,19 +47,29 @@ export abstract class Endpoint<
   I extends EndpointInput = EndpointInputType,
   O extends EndpointOptions = EndpointOptions,
   Mock = unknown,
+  E extends EndpointErrors = EndpointErrors,
 > {
   public readonly method: M
   public readonly path: P
   public readonly response: R
   public readonly input: I | undefined
   public readonly options: O | undefined
+  public readonly errors: E | undefined
 
-  constructor(method: M, path: P, response: R, input?: I, options?: O) {
+  constructor(
+    method: M,
+    path: P,
+    response: R,
+    input?: I,
+    options?: O,
+    errors?: E,
+  ) {
     this.method = method
     this.path = path
     this.response = response
     this.input = input
     this.options = options
+    this.errors = errors
   }
 
   abstract defineMock(input: Mock): void
@@ -1,17 +1,40 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
 import type z from 'zod'
 import type { EndpointInputContext } from '../create-mock-server/mock'
+import type { MockResponse } from '../create-mock-server/respond'
 import type { EndpointInput, EndpointInputType } from '../endpoint/input'
 import type { MockStructure } from '../utils/create-mock'
-import { Endpoint, type EndpointOptions, type HttpMethod } from './endpoint'
+import type { MaybePromise } from '../utils/types'
+import {
+  Endpoint,
+  type EndpointErrors,
+  type EndpointOptions,
+  type EndpointResponseHeaders,
+  type HttpMethod,
+} from './endpoint'
 
 export function isHttpEndpoint(endpoint: unknown): endpoint is HttpEndpoint {
   return endpoint instanceof HttpEndpoint
 }
 
-type HttpMock<E extends Endpoint, R extends z.ZodType> = MockStructure<
-  R,
-  EndpointInputContext<E>
->
+// The body alone, or a `respond()` envelope adding the status, headers and cookies
+export type HttpMock<E extends Endpoint, R extends z.ZodType> =
+  | MockStructure<R, EndpointInputContext<E>>
+  | MockResponse<MockStructure<R, EndpointInputContext<E>>>
+  | ((
+      args: EndpointInputContext<E>,
+    ) => MaybePromise<MockResponse<MockStructure<R, EndpointInputContext<E>>>>)
+
+/** A named variation of an endpoint's mock, selected at runtime */
+export type HttpScenario<Mock> = {
+  /** Mock used while the scenario is active, defaults to the endpoint mock */
+  mock?: Mock
+  /** Status code of the response, defaults to 200 */
+  status?: ContentfulStatusCode
+  headers?: Record<string, string>
+  /** Milliseconds to wait before responding */
+  delay?: number
+}
 
 export class HttpEndpoint<
   P extends string = string,
@@ -19,12 +42,32 @@ export class HttpEndpoint<
   M extends HttpMethod = HttpMethod,
   I extends EndpointInput<M> = EndpointInputType,
   O extends EndpointOptions = EndpointOptions,
-  Mock extends HttpMock<Endpoint<R, P, M, I>, R> = HttpMock<
-    Endpoint<R, P, M, I>,
+  E extends EndpointErrors = EndpointErrors,
+  H extends EndpointResponseHeaders | undefined =
+    | EndpointResponseHeaders
+    | undefined,
+  Mock extends HttpMock<Endpoint<R, P, M, I, O, unknown, E>, R> = HttpMock<
+    Endpoint<R, P, M, I, O, unknown, E>,
     R
   >,
-> extends Endpoint<R, P, M, I, O, Mock> {
+> extends Endpoint<R, P, M, I, O, Mock, E> {
+  /** Schema of the headers of successful responses */
+  public readonly responseHeaders: H | undefined
   #mock?: Mock
+  #scenarios = new Map<string, HttpScenario<Mock>>()
+
+  constructor(
+    method: M,
+    path: P,
+    response: R,
+    input?: I,
+    options?: O,
+    errors?: E,
+    responseHeaders?: H,
+  ) {
+    super(method, path, response, input, options, errors)
+    this.responseHeaders = responseHeaders
+  }
 
   defineMock(input: Mock): void {
     this.#mock = input
@@ -33,4 +76,16 @@ export class HttpEndpoint<
   getMock(): Mock | undefined {
     return this.#mock
   }
+
+  /**
+   * Defines a named scenario, used instead of the regular mock while the
+   * scenario is active on the mock server.
+   */
+  defineScenario(name: string, scenario: HttpScenario<Mock>): void {
+    this.#scenarios.set(name, scenario)
+  }
+
+  getScenario(name: string): HttpScenario<Mock> | undefined {
+    return this.#scenarios.get(name)
+  }
 }
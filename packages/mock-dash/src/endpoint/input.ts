@@ -39,9 +39,14 @@ export type ParsedPathParameters<P extends string> = Prettify<
 type Query = Record<string, z.ZodType>
 type Json = z.ZodType
 type Form = Record<string, ZodFormValue | z.ZodArray<ZodFormValue>>
+// Keyed by lowercase header names
+type Header = Record<string, z.ZodType>
+type Cookie = Record<string, z.ZodType>
 
 type EndpointInputSlim = {
   query?: Query
+  header?: Header
+  cookie?: Cookie
 }
 
 export type EndpointInput<METHOD extends HttpMethod = HttpMethod> =
@@ -56,6 +61,8 @@ export type EndpointInputType = {
   query?: Query
   json?: Json
   form?: Form
+  header?: Header
+  cookie?: Cookie
 }
 
 export type InferInput<I extends EndpointInputType = EndpointInputType> =
@@ -63,4 +70,10 @@ export type InferInput<I extends EndpointInputType = EndpointInputType> =
     query: I['query'] extends object ? z.infer<z.ZodObject<I['query']>> : never
     json: I['json'] extends z.ZodType ? z.infer<I['json']> : never
     form: I['form'] extends object ? z.infer<z.ZodObject<I['form']>> : never
+    header: I['header'] extends object
+      ? z.infer<z.ZodObject<I['header']>>
+      : never
+    cookie: I['cookie'] extends object
+      ? z.infer<z.ZodObject<I['cookie']>>
+      : never
   }>
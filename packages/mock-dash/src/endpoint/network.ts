@@ -0,0 +1,22 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+
+/**
+ * Artificial latency in milliseconds: a fixed value, a uniform range, a normal
+ * distribution (clamped at 0) or a custom sampler.
+ */
+export type LatencyOptions =
+  | number
+  | { min: number; max: number }
+  | { mean: number; stdDev: number }
+  | (() => number)
+
+export type NetworkOptions = {
+  /** Delay applied before the endpoint responds */
+  readonly latency?: LatencyOptions
+  /** Share of requests (0 to 1) answered with `failureStatus` instead of the mock */
+  readonly failureRate?: number
+  /** Status code of simulated failures, defaults to 500 */
+  readonly failureStatus?: ContentfulStatusCode
+  /** Share of requests (0 to 1) whose connection is dropped without a response body */
+  readonly dropRate?: number
+}
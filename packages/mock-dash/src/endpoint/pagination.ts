@@ -0,0 +1,224 @@
+import z from 'zod'
+import type {
+  Endpoint,
+  EndpointErrors,
+  EndpointOptions,
+  EndpointResponseHeaders,
+} from './endpoint'
+import { HttpEndpoint, type HttpMock, type HttpScenario } from './http-endpoint'
+import type { EndpointInput, EndpointInputType } from './input'
+
+type PaginationBase<Q extends string, K extends string> = {
+  /** Response property holding the items, omitted when the response is the array itself */
+  readonly items?: K
+  /** Query parameter of the page size */
+  readonly limit?: Q
+  /** Page size of the mock server for requests without `limit`, defaults to 10 */
+  readonly defaultLimit?: number
+}
+
+/** Pages are requested with the cursor returned by the previous page */
+export type CursorPagination<
+  Q extends string = string,
+  K extends string = string,
+> = PaginationBase<Q, K> & {
+  readonly style: 'cursor'
+  /** Query parameter of the cursor */
+  readonly cursor: Q
+  /** Response property holding the cursor of the next page, empty on the last page */
+  readonly nextCursor: K
+}
+
+/** Pages are requested with the number of items to skip */
+export type OffsetPagination<
+  Q extends string = string,
+  K extends string = string,
+> = PaginationBase<Q, K> & {
+  readonly style: 'offset'
+  /** Query parameter of the offset */
+  readonly offset: Q
+  /** Response property holding the total number of items */
+  readonly total?: K
+}
+
+/** Pages are requested by their number */
+export type PagePagination<
+  Q extends string = string,
+  K extends string = string,
+> = PaginationBase<Q, K> & {
+  readonly style: 'page'
+  /** Query parameter of the page number */
+  readonly page: Q
+  /** Response property holding the total number of items */
+  readonly total?: K
+  /** Number of the first page, defaults to 1 */
+  readonly firstPage?: number
+}
+
+export type Pagination<Q extends string = string, K extends string = string> =
+  | CursorPagination<Q, K>
+  | OffsetPagination<Q, K>
+  | PagePagination<Q, K>
+
+type QueryKeyOf<I extends EndpointInput> = keyof NonNullable<I['query']> &
+  string
+
+type ResponseKeyOf<R> =
+  R extends z.ZodObject<infer Shape> ? keyof Shape & string : never
+
+/** Schema of the items of a paginated response */
+export type PaginationItem<R, C extends Pagination> = C extends {
+  items: infer K extends string
+}
+  ? R extends z.ZodObject<infer Shape>
+    ? Shape[K] extends z.ZodArray<infer Item extends z.ZodType>
+      ? Item
+      : never
+    : never
+  : R extends z.ZodArray<infer Item extends z.ZodType>
+    ? Item
+    : never
+
+/** Mocks of paginated endpoints can return every item instead of a page */
+export type PaginatedMock<
+  P extends string,
+  R extends z.ZodType,
+  I extends EndpointInput<'get'>,
+  O extends EndpointOptions,
+  E extends EndpointErrors,
+  C extends Pagination,
+> = HttpMock<
+  Endpoint<R, P, 'get', I, O, unknown, E>,
+  R | z.ZodArray<PaginationItem<R, C>>
+>
+
+/** A GET endpoint paging through its items, created by `definePaginated` */
+export class PaginatedEndpoint<
+  P extends string = string,
+  R extends z.ZodType = z.ZodType,
+  I extends EndpointInput<'get'> = EndpointInputType,
+  O extends EndpointOptions = EndpointOptions,
+  E extends EndpointErrors = EndpointErrors,
+  H extends EndpointResponseHeaders | undefined =
+    | EndpointResponseHeaders
+    | undefined,
+  C extends Pagination = Pagination,
+> extends HttpEndpoint<P, R, 'get', I, O, E, H> {
+  /** How the endpoint pages through its items */
+  public readonly pagination: C
+
+  constructor(endpoint: HttpEndpoint<P, R, 'get', I, O, E, H>, pagination: C) {
+    super(
+      endpoint.method,
+      endpoint.path,
+      endpoint.response,
+      endpoint.input,
+      endpoint.options,
+      endpoint.errors,
+      endpoint.responseHeaders,
+    )
+    this.pagination = Object.freeze({ ...pagination })
+  }
+
+  // The mock server slices the items into the requested page
+  override defineMock(input: PaginatedMock<P, R, I, O, E, C>): void {
+    super.defineMock(
+      input as HttpMock<Endpoint<R, P, 'get', I, O, unknown, E>, R>,
+    )
+  }
+
+  override defineScenario(
+    name: string,
+    scenario: HttpScenario<PaginatedMock<P, R, I, O, E, C>>,
+  ): void {
+    super.defineScenario(
+      name,
+      scenario as HttpScenario<
+        HttpMock<Endpoint<R, P, 'get', I, O, unknown, E>, R>
+      >,
+    )
+  }
+}
+
+export function isPaginatedEndpoint(
+  endpoint: unknown,
+): endpoint is PaginatedEndpoint {
+  return endpoint instanceof PaginatedEndpoint
+}
+
+/**
+ * @internal
+ * The schema of the items of a paginated response.
+ */
+export function getItemsSchema(
+  response: z.ZodType,
+  pagination: Pagination,
+): z.ZodArray | undefined {
+  const schema =
+    pagination.items && response instanceof z.ZodObject
+      ? response.shape[pagination.items]
+      : pagination.items
+        ? undefined
+        : response
+  return schema instanceof z.ZodArray ? schema : undefined
+}
+
+/**
+ * Describes how a list endpoint pages through its items. The client gets a
+ * `paginate()` iterator walking every page, and the mock server slices the
+ * items returned by the mock into the page requested by the query.
+ *
+ * @example
+ * ```typescript
+ * const getUsers = definePaginated(
+ *   defineGet('/users', {
+ *     input: { query: { page: z.coerce.number().optional() } },
+ *     response: z.object({ items: z.array(userModel), total: z.number() }),
+ *   }),
+ *   { style: 'page', page: 'page', items: 'items', total: 'total' },
+ * )
+ * ```
+ */
+export function definePaginated<
+  P extends string,
+  R extends z.ZodType,
+  I extends EndpointInput<'get'>,
+  O extends EndpointOptions,
+  E extends EndpointErrors,
+  H extends EndpointResponseHeaders | undefined,
+  C extends Pagination<QueryKeyOf<I>, ResponseKeyOf<R>>,
+>(
+  endpoint: HttpEndpoint<P, R, 'get', I, O, E, H>,
+  pagination: C,
+): PaginatedEndpoint<P, R, I, O, E, H, C> {
+  const query = endpoint.input?.query ?? {}
+  const params = [
+    pagination.limit,
+    pagination.style === 'cursor' && pagination.cursor,
+    pagination.style === 'offset' && pagination.offset,
+    pagination.style === 'page' && pagination.page,
+  ]
+  for (const param of params) {
+    if (param && !(param in query)) {
+      throw new Error(
+        `Cannot paginate GET ${endpoint.path}: the query has no "${param}" parameter`,
+      )
+    }
+  }
+
+  if (!getItemsSchema(endpoint.response, pagination)) {
+    throw new Error(
+      pagination.items
+        ? `Cannot paginate GET ${endpoint.path}: the response has no "${pagination.items}" array`
+        : `Cannot paginate GET ${endpoint.path}: the response is not an array, set the "items" property`,
+    )
+  }
+
+  if (pagination.style === 'cursor' && !pagination.items) {
+    throw new Error(
+      `Cannot paginate GET ${endpoint.path}: cursor pagination needs an "items" property next to "${pagination.nextCursor}"`,
+    )
+  }
+
+  return new PaginatedEndpoint(endpoint, pagination)
+}
@@ -1,6 +1,24 @@
 import type z from 'zod'
 import { createApiClient } from './api-client/api-client'
+import type { ClientAuthOptions, ClientCredentials } from './api-client/auth'
 import type { HttpErrorResult, HttpSuccessResult } from './api-client/http-call'
+import type {
+  CacheablePath,
+  QueryCache,
+  QueryCacheArgs,
+  QueryCacheData,
+  QueryCacheOptions,
+} from './api-client/query-cache'
+import {
+  createQueryOptions,
+  type EndpointMutationKey,
+  type EndpointMutationOptions,
+  type EndpointQueryKey,
+  type EndpointQueryOptions,
+  type PathKey,
+  type QueryOptionsClient,
+} from './api-client/query-options'
+import type { RetryOptions } from './api-client/retry'
 import type {
   StreamChunk,
   StreamErrorResult,
@@ -17,7 +35,63 @@ import type {
   WSStatusUpdate,
   WSSuccessResult,
 } from './api-client/ws-call'
+import type { AuthVerdict, MockAuthOptions } from './create-mock-server/auth'
+import type {
+  CallRecorder,
+  CallRecorderOptions,
+  ExpectCalledOptions,
+  RecordedCall,
+  RecordedInputs,
+} from './create-mock-server/calls'
+import {
+  Collection,
+  type CollectionOptions,
+  defineCollection,
+} from './create-mock-server/collection'
 import { createMockServer } from './create-mock-server/create-mock-server'
+import {
+  createFixtureKey,
+  createMemoryFixtureStore,
+  type Fixture,
+  type FixtureOptions,
+  type FixtureStore,
+} from './create-mock-server/fixtures'
+import {
+  type MockFetchController,
+  type MockFetchOptions,
+  setupMockFetch,
+  type UnhandledRequestStrategy,
+} from './create-mock-server/mock-fetch'
+import type {
+  EndpointMock,
+  MockOverrideController,
+  UseMock,
+} from './create-mock-server/overrides'
+import type { UpstreamOptions } from './create-mock-server/proxy'
+import {
+  type MockCookie,
+  type MockResponse,
+  type MockResponseInit,
+  respond,
+} from './create-mock-server/respond'
+import type {
+  ScenarioController,
+  ScenarioOptions,
+} from './create-mock-server/scenarios'
+import {
+  createTestClient,
+  type TestClientOptions,
+  type TestMockOptions,
+} from './create-test-client/create-test-client'
+import {
+  type ApiKeyAuthScheme,
+  type AuthCredentials,
+  type AuthScheme,
+  type BasicAuthScheme,
+  type BearerAuthScheme,
+  type CookieAuthScheme,
+  defineAuth,
+} from './endpoint/auth'
 import {
   defineDelete,
   defineGet,
@@ -25,8 +99,23 @@ import {
   definePost,
   definePut,
 } from './endpoint/define-endpoint'
-import { Endpoint, type EndpointOptions } from './endpoint/endpoint'
-import { HttpEndpoint } from './endpoint/http-endpoint'
+import {
+  Endpoint,
+  type EndpointErrors,
+  type EndpointOptions,
+  type EndpointResponseHeaders,
+} from './endpoint/endpoint'
+import { HttpEndpoint, type HttpScenario } from './endpoint/http-endpoint'
+import type { LatencyOptions, NetworkOptions } from './endpoint/network'
+import {
+  type CursorPagination,
+  definePaginated,
+  type OffsetPagination,
+  type PagePagination,
+  PaginatedEndpoint,
+  type PaginatedMock,
+  type Pagination,
+} from './endpoint/pagination'
 import { StreamEndpoint } from './endpoint/stream-endpoint'
 import {
   type BinaryStreamResponse,
@@ -38,17 +127,34 @@ import {
 } from './endpoint/stream-response'
 import { WebSocketEndpoint } from './endpoint/ws-endpoint'
 import { defineWebSocket, type WebSocketResponse } from './endpoint/ws-response'
+import {
+  type OpenAPIDocument,
+  type OpenAPIInfo,
+  type OpenAPIServer,
+  type ToOpenAPIOptions,
+  toOpenAPI,
+} from './to-openapi/to-openapi'
 import type { AliasOptionFromApiSchema } from './utils/alias'
+import { type PartialMock, partialMock } from './utils/create-mock'
 import {
   ApiError,
   isApiError,
+  isApiErrorStatus,
   isMockError,
   isNetworkError,
   isValidationError,
   MockError,
   NetworkError,
+  type TypedApiError,
   ValidationError,
 } from './utils/errors'
+import { createRandom, type Random } from './utils/random'
+import {
+  type MockHint,
+  type MockHintName,
+  mockHint,
+  zodToMock,
+} from './utils/zod-to-mock'
 
 // Helper type aliases for user-friendly API
 export type SSEResult<E extends Record<string, z.ZodType>> =
@@ -63,9 +169,11 @@ export type BinaryStreamResult =
   | StreamSuccessResult<BinaryStreamResponse>
   | StreamErrorResult
 
-export type HttpResult<R extends z.ZodType> =
-  | HttpSuccessResult<R>
-  | HttpErrorResult
+export type HttpResult<
+  R extends z.ZodType,
+  E extends EndpointErrors = Record<never, z.ZodType>,
+  H extends EndpointResponseHeaders | undefined = undefined,
+> = HttpSuccessResult<R, H> | HttpErrorResult<E>
 
 export type WSResult<
   S extends Array<z.ZodType> = Array<z.ZodType>,
@@ -75,6 +183,13 @@ export type WSResult<
 export {
   createApiClient,
   createMockServer,
+  createQueryOptions,
+  createRandom,
+  createTestClient,
+  createFixtureKey,
+  createMemoryFixtureStore,
+  defineAuth,
+  defineCollection,
   defineDelete,
   defineGet,
   definePatch,
@@ -82,25 +197,99 @@ export {
   definePut,
   defineBinaryStream,
   defineJSONStream,
+  definePaginated,
   defineSSE,
   defineWebSocket,
+  mockHint,
+  partialMock,
+  respond,
+  setupMockFetch,
+  toOpenAPI,
+  zodToMock,
   ApiError,
   isApiError,
+  isApiErrorStatus,
   isMockError,
   isNetworkError,
   isValidationError,
   MockError,
   NetworkError,
   ValidationError,
+  Collection,
   Endpoint,
   HttpEndpoint,
+  PaginatedEndpoint,
   StreamEndpoint,
   WebSocketEndpoint,
 }
 
 export type {
   AliasOptionFromApiSchema,
+  ApiKeyAuthScheme,
+  AuthCredentials,
+  AuthScheme,
+  AuthVerdict,
+  BasicAuthScheme,
+  BearerAuthScheme,
+  CacheablePath,
+  CallRecorder,
+  CallRecorderOptions,
+  ClientAuthOptions,
+  ClientCredentials,
+  CollectionOptions,
+  CookieAuthScheme,
+  CursorPagination,
+  EndpointErrors,
+  EndpointMock,
+  EndpointMutationKey,
+  EndpointMutationOptions,
   EndpointOptions,
+  EndpointQueryKey,
+  EndpointQueryOptions,
+  EndpointResponseHeaders,
+  ExpectCalledOptions,
+  Fixture,
+  FixtureOptions,
+  FixtureStore,
+  HttpScenario,
+  LatencyOptions,
+  MockAuthOptions,
+  MockCookie,
+  MockFetchController,
+  MockFetchOptions,
+  MockHint,
+  MockHintName,
+  MockOverrideController,
+  MockResponse,
+  MockResponseInit,
+  NetworkOptions,
+  OffsetPagination,
+  OpenAPIDocument,
+  OpenAPIInfo,
+  OpenAPIServer,
+  PagePagination,
+  PaginatedMock,
+  PartialMock,
+  Pagination,
+  PathKey,
+  QueryCache,
+  QueryCacheArgs,
+  QueryCacheData,
+  QueryCacheOptions,
+  QueryOptionsClient,
+  Random,
+  RecordedCall,
+  RecordedInputs,
+  RetryOptions,
+  ScenarioController,
+  ScenarioOptions,
+  TestClientOptions,
+  TestMockOptions,
+  ToOpenAPIOptions,
+  TypedApiError,
+  UnhandledRequestStrategy,
+  UpstreamOptions,
+  UseMock,
   WebSocketController,
   // HTTP types
   HttpSuccessResult,
@@ -0,0 +1,40 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import type { Fixture, FixtureStore } from '../create-mock-server/fixtures'
+import { hashString } from '../utils/hash'
+
+function fixtureFileName(key: string) {
+  const [method, path] = key.split(' ')
+  const readable = `${method}${path}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/_+$/, '')
+
+  // The hash keeps file names short and unique
+  return `${readable}_${hashString(key).toString(16).padStart(8, '0')}.json`
+}
+
+/**
+ * Stores fixtures as JSON files in the given directory.
+ */
+export function createFileFixtureStore(dir: string): FixtureStore {
+  const filePath = (key: string) =>
+    `${dir.replace(/\/+$/, '')}/${fixtureFileName(key)}`
+
+  return {
+    async read(key) {
+      try {
+        return JSON.parse(await readFile(filePath(key), 'utf8')) as Fixture
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+        throw error
+      }
+    },
+    async write(fixture) {
+      await mkdir(dir, { recursive: true })
+      await writeFile(
+        filePath(fixture.key),
+        `${JSON.stringify(fixture, null, 2)}\n`,
+      )
+    },
+  }
+}
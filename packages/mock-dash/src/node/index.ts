@@ -0,0 +1,3 @@
+import { createFileFixtureStore } from './file-fixture-store'
+
+export { createFileFixtureStore }
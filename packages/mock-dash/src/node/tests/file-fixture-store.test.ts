@@ -0,0 +1,65 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import z from 'zod'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet } from '../../endpoint/define-endpoint'
+import { createFileFixtureStore } from '../file-fixture-store'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+function createUpstream() {
+  const calls: string[] = []
+  const upstream = new Hono().get('/users/:id', (c) => {
+    calls.push(c.req.url)
+    return c.json({ id: c.req.param('id'), name: 'Upstream User' })
+  })
+
+  return { calls, fetch: (req: Request) => upstream.fetch(req) }
+}
+
+describe('createFileFixtureStore', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mock-dash-fixtures-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should persist fixtures as JSON files that can be replayed', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    const upstream = createUpstream()
+    const recorder = createMockServer(apiSchema, {
+      fixtures: {
+        mode: 'record',
+        upstream: 'https://staging.example.com',
+        store: createFileFixtureStore(dir),
+        fetch: upstream.fetch,
+      },
+    })
+    await recorder.app.request('/users/42')
+
+    const files = await readdir(dir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/^get_users_id_[0-9a-f]{8}\.json$/)
+
+    const replayer = createMockServer(apiSchema, {
+      fixtures: { mode: 'replay', store: createFileFixtureStore(dir) },
+    })
+    const res = await replayer.app.request('/users/42')
+    expect(await res.json()).toEqual({ id: '42', name: 'Upstream User' })
+    expect(upstream.calls).toHaveLength(1)
+  })
+
+  it('should return undefined for missing fixtures', async () => {
+    const store = createFileFixtureStore(dir)
+    expect(await store.read('GET /missing')).toBeUndefined()
+  })
+})
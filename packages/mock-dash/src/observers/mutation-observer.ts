@@ -0,0 +1,75 @@
+import type { ResultCall } from './query-observer'
+import { createStore, type ReadableStore } from './store'
+
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error'
+
+export type MutationState<D, E> = {
+  readonly status: MutationStatus
+  readonly data: D | undefined
+  readonly error: E | undefined
+  readonly response: Response | undefined
+}
+
+export type MutationObserver<A, D, E> = ReadableStore<MutationState<D, E>> & {
+  /** Calls the endpoint and resolves with its result */
+  readonly mutate: (
+    call: ResultCall<A, D, E>,
+    args: A,
+  ) => ReturnType<ResultCall<A, D, E>>
+  /** Returns to the idle state */
+  readonly reset: () => void
+}
+
+const idleState = {
+  status: 'idle',
+  data: undefined,
+  error: undefined,
+  response: undefined,
+} as const
+
+/**
+ * @internal
+ * Tracks the state of the last mutation. Results of earlier mutations that
+ * resolve later are returned to their caller but do not change the state.
+ */
+export function createMutationObserver<A, D, E>(): MutationObserver<A, D, E> {
+  const store = createStore<MutationState<D, E>>(idleState)
+  let latest = 0
+
+  const mutate = async (call: ResultCall<A, D, E>, args: A) => {
+    const id = ++latest
+    store.setState({ status: 'pending' })
+
+    const result = await call(args)
+    if (id !== latest) return result
+
+    if (result.error !== undefined) {
+      store.setState({
+        status: 'error',
+        data: undefined,
+        error: result.error,
+        response: result.response,
+      })
+    } else {
+      store.setState({
+        status: 'success',
+        data: result.data,
+        error: undefined,
+        response: result.response,
+      })
+    }
+    return result
+  }
+
+  const reset = () => {
+    latest++
+    store.setState(idleState)
+  }
+
+  return {
+    getSnapshot: store.getSnapshot,
+    subscribe: store.subscribe,
+    mutate,
+    reset,
+  }
+}
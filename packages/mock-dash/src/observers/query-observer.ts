@@ -0,0 +1,104 @@
+import { createStore, type ReadableStore } from './store'
+
+export type QueryStatus = 'idle' | 'pending' | 'success' | 'error'
+
+export type QueryState<D, E, H = undefined> = {
+  readonly status: QueryStatus
+  /** Data of the last successful call, kept while refetching and on errors */
+  readonly data: D | undefined
+  /** Parsed response headers of the last successful call, kept like `data` */
+  readonly headers: H | undefined
+  readonly error: E | undefined
+  readonly response: Response | undefined
+  /** True while a request is running, including background refetches */
+  readonly isFetching: boolean
+}
+
+/** A client call resolving to a `{ data }` or `{ error }` result */
+export type ResultCall<A, D, E, H = undefined> = (
+  args: A,
+) => Promise<
+  | { data: D; error?: never; headers?: H; response?: Response }
+  | { data?: never; error: E; headers?: never; response?: Response }
+>
+
+export type QueryObserver<A, D, E, H = undefined> = ReadableStore<
+  QueryState<D, E, H>
+> & {
+  /** Calls the endpoint, cancelling the request that is still running */
+  readonly fetch: (call: ResultCall<A, D, E, H>, args: A) => Promise<void>
+  /** Aborts the running request and ignores its result */
+  readonly cancel: () => void
+}
+
+/**
+ * @internal
+ * Tracks the state of a GET call. Every fetch aborts the previous one through
+ * its signal, unless the caller passed a signal of their own.
+ */
+export function createQueryObserver<A, D, E, H = undefined>(): QueryObserver<
+  A,
+  D,
+  E,
+  H
+> {
+  const store = createStore<QueryState<D, E, H>>({
+    status: 'idle',
+    data: undefined,
+    headers: undefined,
+    error: undefined,
+    response: undefined,
+    isFetching: false,
+  })
+  let controller: AbortController | undefined
+
+  const cancel = () => {
+    controller?.abort()
+    controller = undefined
+    store.setState({ isFetching: false })
+  }
+
+  const fetch = async (call: ResultCall<A, D, E, H>, args: A) => {
+    controller?.abort()
+    const current = new AbortController()
+    controller = current
+
+    store.setState((state) => ({
+      status: state.status === 'success' ? 'success' : 'pending',
+      isFetching: true,
+    }))
+
+    const signal = (args as { signal?: AbortSignal } | undefined)?.signal
+    const result = await call({
+      ...args,
+      signal: signal ?? current.signal,
+    } as A)
+    if (controller !== current) return
+    controller = undefined
+
+    if (result.error !== undefined) {
+      store.setState({
+        status: 'error',
+        error: result.error,
+        response: result.response,
+        isFetching: false,
+      })
+    } else {
+      store.setState({
+        status: 'success',
+        data: result.data,
+        headers: result.headers,
+        error: undefined,
+        response: result.response,
+        isFetching: false,
+      })
+    }
+  }
+
+  return {
+    getSnapshot: store.getSnapshot,
+    subscribe: store.subscribe,
+    fetch,
+    cancel,
+  }
+}
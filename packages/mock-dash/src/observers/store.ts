@@ -0,0 +1,32 @@
+export type Listener = () => void
+
+/** Store contract shared by the framework bindings */
+export type ReadableStore<S> = {
+  readonly getSnapshot: () => S
+  readonly subscribe: (listener: Listener) => () => void
+}
+
+/**
+ * @internal
+ * A minimal observable state container. Snapshots are replaced, never
+ * mutated, so bindings can compare them by identity.
+ */
+export function createStore<S>(initialState: S) {
+  let state = initialState
+  const listeners = new Set<Listener>()
+
+  return {
+    getSnapshot: () => state,
+    subscribe: (listener: Listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    setState: (update: Partial<S> | ((state: S) => Partial<S>)) => {
+      const partial = typeof update === 'function' ? update(state) : update
+      state = { ...state, ...partial }
+      for (const listener of listeners) listener()
+    },
+  }
+}
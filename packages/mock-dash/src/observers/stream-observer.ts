@@ -0,0 +1,110 @@
+import type { ResultCall } from './query-observer'
+import { createStore, type ReadableStore } from './store'
+
+export type StreamStatus =
+  | 'idle'
+  | 'connecting'
+  | 'streaming'
+  | 'done'
+  | 'error'
+
+export type StreamState<C, E> = {
+  readonly status: StreamStatus
+  /** Every chunk received since the stream started */
+  readonly chunks: readonly C[]
+  /** The most recent chunk */
+  readonly latest: C | undefined
+  /** The request error, or the error the stream failed with while reading */
+  readonly error: E | Error | undefined
+}
+
+export type StreamObserver<A, C, E> = ReadableStore<StreamState<C, E>> & {
+  /** Starts reading the stream, stopping the previous one */
+  readonly start: (
+    call: ResultCall<A, AsyncGenerator<C, void, void>, E>,
+    args: A,
+  ) => Promise<void>
+  /** Aborts the request and stops reading, keeping the received chunks */
+  readonly stop: () => void
+}
+
+/**
+ * @internal
+ * Collects the chunks of a stream call into its state.
+ */
+export function createStreamObserver<A, C, E>(): StreamObserver<A, C, E> {
+  const store = createStore<StreamState<C, E>>({
+    status: 'idle',
+    chunks: [],
+    latest: undefined,
+    error: undefined,
+  })
+  let controller: AbortController | undefined
+
+  const stop = () => {
+    if (!controller) return
+    controller.abort()
+    controller = undefined
+    store.setState({ status: 'done' })
+  }
+
+  const start = async (
+    call: ResultCall<A, AsyncGenerator<C, void, void>, E>,
+    args: A,
+  ) => {
+    stop()
+    const current = new AbortController()
+    controller = current
+
+    store.setState({
+      status: 'connecting',
+      chunks: [],
+      latest: undefined,
+      error: undefined,
+    })
+
+    const signal = (args as { signal?: AbortSignal } | undefined)?.signal
+    const result = await call({
+      ...args,
+      signal: signal ?? current.signal,
+    } as A)
+    if (controller !== current) {
+      await result.data?.return()
+      return
+    }
+
+    if (!result.data) {
+      controller = undefined
+      store.setState({ status: 'error', error: result.error })
+      return
+    }
+
+    store.setState({ status: 'streaming' })
+    try {
+      for await (const chunk of result.data) {
+        if (controller !== current) break
+        store.setState((state) => ({
+          chunks: [...state.chunks, chunk],
+          latest: chunk,
+        }))
+      }
+      if (controller === current) store.setState({ status: 'done' })
+    } catch (error) {
+      if (controller === current) {
+        store.setState({
+          status: 'error',
+          error: error instanceof Error ? error : new Error(String(error)),
+        })
+      }
+    } finally {
+      if (controller === current) controller = undefined
+    }
+  }
+
+  return {
+    getSnapshot: store.getSnapshot,
+    subscribe: store.subscribe,
+    start,
+    stop,
+  }
+}
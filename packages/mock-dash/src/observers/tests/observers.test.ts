@@ -0,0 +1,217 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createMutationObserver } from '../mutation-observer'
+import { createQueryObserver, type ResultCall } from '../query-observer'
+import { createStore } from '../store'
+import { createStreamObserver } from '../stream-observer'
+import { createWebSocketObserver, type SocketCall } from '../websocket-observer'
+
+type Args = { signal?: AbortSignal; id?: string } | undefined
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe('createStore', () => {
+  it('notifies subscribers and keeps the snapshot stable between updates', () => {
+    const store = createStore({ count: 0, name: 'a' })
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(listener)
+
+    const before = store.getSnapshot()
+    expect(store.getSnapshot()).toBe(before)
+
+    store.setState({ count: 1 })
+    store.setState((state) => ({ count: state.count + 1 }))
+    expect(store.getSnapshot()).toEqual({ count: 2, name: 'a' })
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    unsubscribe()
+    store.setState({ count: 3 })
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('createQueryObserver', () => {
+  it('tracks the status of a fetch', async () => {
+    const observer = createQueryObserver<Args, string, Error>()
+    const call: ResultCall<Args, string, Error> = async () => ({ data: 'ok' })
+
+    const pending = observer.fetch(call, undefined)
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'pending',
+      isFetching: true,
+    })
+
+    await pending
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'success',
+      data: 'ok',
+      isFetching: false,
+    })
+  })
+
+  it('keeps the data of the last success on errors', async () => {
+    const observer = createQueryObserver<Args, string, Error>()
+    const error = new Error('failed')
+
+    await observer.fetch(async () => ({ data: 'ok' }), undefined)
+    await observer.fetch(async () => ({ error }), undefined)
+
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'error',
+      data: 'ok',
+      error,
+    })
+  })
+
+  it('aborts the previous fetch and ignores its result', async () => {
+    const observer = createQueryObserver<Args, string, Error>()
+    const first = deferred<{ data: string }>()
+    const signals: AbortSignal[] = []
+
+    const firstFetch = observer.fetch(async (args) => {
+      if (args?.signal) signals.push(args.signal)
+      return first.promise
+    }, undefined)
+    await observer.fetch(async () => ({ data: 'second' }), undefined)
+
+    first.resolve({ data: 'first' })
+    await firstFetch
+
+    expect(signals[0]?.aborted).toBe(true)
+    expect(observer.getSnapshot().data).toBe('second')
+  })
+
+  it('passes the signal of the caller through', async () => {
+    const observer = createQueryObserver<Args, string, Error>()
+    const controller = new AbortController()
+    const call = vi.fn<ResultCall<Args, string, Error>>(async () => ({
+      data: 'ok',
+    }))
+
+    await observer.fetch(call, { signal: controller.signal })
+    expect(call.mock.calls[0]?.[0]?.signal).toBe(controller.signal)
+  })
+})
+
+describe('createMutationObserver', () => {
+  it('resolves every mutation but only tracks the latest one', async () => {
+    const observer = createMutationObserver<Args, string, Error>()
+    const first = deferred<{ data: string }>()
+
+    const firstMutation = observer.mutate(() => first.promise, undefined)
+    const second = await observer.mutate(
+      async () => ({ data: 'second' }),
+      undefined,
+    )
+    first.resolve({ data: 'first' })
+
+    expect(await firstMutation).toEqual({ data: 'first' })
+    expect(second).toEqual({ data: 'second' })
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'success',
+      data: 'second',
+    })
+
+    observer.reset()
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'idle',
+      data: undefined,
+    })
+  })
+})
+
+describe('createStreamObserver', () => {
+  it('collects chunks until the stream ends', async () => {
+    const observer = createStreamObserver<Args, number, Error>()
+    async function* numbers() {
+      yield 1
+      yield 2
+    }
+
+    await observer.start(async () => ({ data: numbers() }), undefined)
+
+    expect(observer.getSnapshot()).toEqual({
+      status: 'done',
+      chunks: [1, 2],
+      latest: 2,
+      error: undefined,
+    })
+  })
+
+  it('aborts the request when stopped', async () => {
+    const observer = createStreamObserver<Args, number, Error>()
+    let signal: AbortSignal | undefined
+    async function* forever() {
+      while (!signal?.aborted) {
+        yield 1
+        await new Promise((resolve) => setTimeout(resolve, 1))
+      }
+    }
+
+    const started = observer.start(async (args) => {
+      signal = args?.signal
+      return { data: forever() }
+    }, undefined)
+    await vi.waitFor(() =>
+      expect(observer.getSnapshot().chunks.length).toBeGreaterThan(0),
+    )
+    observer.stop()
+    await started
+
+    expect(signal?.aborted).toBe(true)
+    expect(observer.getSnapshot().status).toBe('done')
+  })
+})
+
+describe('createWebSocketObserver', () => {
+  type Message = { type: 'message'; data: string }
+
+  function createSocketCall() {
+    const controller = { send: vi.fn(), close: vi.fn() }
+    async function* chunks() {
+      yield { type: 'status', status: 'open' } as const
+      yield { type: 'message', data: 'hello' } as const
+      yield { type: 'status', status: 'closed' } as const
+    }
+    const call: SocketCall<Args, Message, string, Error> = async () => ({
+      data: chunks(),
+      controller,
+    })
+    return { call, controller }
+  }
+
+  it('collects messages and sends through the controller', async () => {
+    const observer = createWebSocketObserver<Args, Message, string, Error>()
+    const { call, controller } = createSocketCall()
+
+    await observer.connect(call, undefined)
+    observer.send('hi')
+
+    expect(controller.send).toHaveBeenCalledWith('hi')
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'closed',
+      messages: [{ type: 'message', data: 'hello' }],
+    })
+  })
+
+  it('closes a socket that resolves after close was called', async () => {
+    const observer = createWebSocketObserver<Args, Message, string, Error>()
+    const { call, controller } = createSocketCall()
+
+    const connecting = observer.connect(call, undefined)
+    observer.close()
+    await connecting
+
+    expect(controller.close).toHaveBeenCalled()
+    expect(observer.getSnapshot()).toMatchObject({
+      status: 'closed',
+      messages: [],
+    })
+    expect(() => observer.send('hi')).toThrow('WebSocket is not connected')
+  })
+})
@@ -0,0 +1,140 @@
+import { createStore, type ReadableStore } from './store'
+
+export type WebSocketStatus =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'closing'
+  | 'closed'
+  | 'error'
+
+/** Chunks yielded by the message iterator of a WebSocket call */
+type SocketChunk<M> =
+  | { type: 'status'; status: 'connecting' | 'open' | 'closing' | 'closed' }
+  | { type: 'error'; error: Error }
+  | M
+
+type SocketController<S> = {
+  send: (data: S) => void
+  close: (code?: number, reason?: string) => void
+}
+
+/** A client WebSocket call resolving to a message iterator and its controller */
+export type SocketCall<A, M, S, E> = (args: A) => Promise<
+  | {
+      data: AsyncGenerator<SocketChunk<M>, void, void>
+      controller: SocketController<S>
+      error?: never
+    }
+  | { data?: never; controller?: never; error: E }
+>
+
+export type WebSocketState<M, E> = {
+  readonly status: WebSocketStatus
+  /** Every message received since the socket connected */
+  readonly messages: readonly M[]
+  /** The most recent message */
+  readonly latest: M | undefined
+  /** The connection error, or the last error yielded by the socket */
+  readonly error: E | Error | undefined
+}
+
+export type WebSocketObserver<A, M, S, E> = ReadableStore<
+  WebSocketState<M, E>
+> & {
+  /** Opens the socket, closing the previous one */
+  readonly connect: (call: SocketCall<A, M, S, E>, args: A) => Promise<void>
+  /** Sends a message, throws when the socket is not open */
+  readonly send: (data: S) => void
+  /** Closes the socket */
+  readonly close: (code?: number, reason?: string) => void
+}
+
+/**
+ * @internal
+ * Collects the messages of a WebSocket call into its state and keeps the
+ * controller to send messages.
+ */
+export function createWebSocketObserver<
+  A,
+  M extends { type: string },
+  S,
+  E,
+>(): WebSocketObserver<A, M, S, E> {
+  const store = createStore<WebSocketState<M, E>>({
+    status: 'idle',
+    messages: [],
+    latest: undefined,
+    error: undefined,
+  })
+  let socket: SocketController<S> | undefined
+  let connection = 0
+
+  const close = (code?: number, reason?: string) => {
+    if (socket) {
+      socket.close(code, reason)
+      socket = undefined
+    } else {
+      // A socket that is still being created is closed once it resolves
+      connection++
+      if (store.getSnapshot().status === 'connecting') {
+        store.setState({ status: 'closed' })
+      }
+    }
+  }
+
+  const send = (data: S) => {
+    if (!socket) throw new Error('WebSocket is not connected')
+    socket.send(data)
+  }
+
+  const connect = async (call: SocketCall<A, M, S, E>, args: A) => {
+    // Messages of the previous socket are ignored from here on
+    close()
+    const id = ++connection
+
+    store.setState({
+      status: 'connecting',
+      messages: [],
+      latest: undefined,
+      error: undefined,
+    })
+
+    const result = await call(args)
+    if (id !== connection) {
+      result.controller?.close()
+      return
+    }
+
+    if (!result.data) {
+      store.setState({ status: 'error', error: result.error })
+      return
+    }
+
+    socket = result.controller
+    for await (const chunk of result.data) {
+      if (id !== connection) continue
+
+      if (chunk.type === 'status') {
+        const { status } = chunk as { status: WebSocketStatus }
+        store.setState({ status })
+      } else if (chunk.type === 'error') {
+        const { error } = chunk as { error: Error }
+        store.setState({ error })
+      } else {
+        store.setState((state) => ({
+          messages: [...state.messages, chunk as M],
+          latest: chunk as M,
+        }))
+      }
+    }
+  }
+
+  return {
+    getSnapshot: store.getSnapshot,
+    subscribe: store.subscribe,
+    connect,
+    send,
+    close,
+  }
+}
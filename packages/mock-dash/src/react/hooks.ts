@@ -0,0 +1,338 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react'
+import type z from 'zod'
+import { getCallKey } from '../api-client/call-key'
+import type { EndpointArgs } from '../api-client/client-base'
+import type {
+  HttpEndpointCallSignature,
+  HttpErrorResult,
+  HttpResponseHeaders,
+  HttpSuccessResult,
+} from '../api-client/http-call'
+import type {
+  StreamChunk,
+  StreamEndpointCallSignature,
+  StreamErrorResult,
+  StreamParseError,
+} from '../api-client/stream-call'
+import type {
+  WebSocketController,
+  WebSocketEndpointCallSignature,
+  WSBinaryMessage,
+  WSErrorResult,
+  WSMessage,
+} from '../api-client/ws-call'
+import type {
+  EndpointErrors,
+  EndpointResponseHeaders,
+} from '../endpoint/endpoint'
+import type { EndpointInputType } from '../endpoint/input'
+import type { StreamResponse } from '../endpoint/stream-response'
+import type { WebSocketResponse } from '../endpoint/ws-response'
+import {
+  createMutationObserver,
+  type MutationState,
+} from '../observers/mutation-observer'
+import {
+  createQueryObserver,
+  type QueryState,
+  type ResultCall,
+} from '../observers/query-observer'
+import type { ReadableStore } from '../observers/store'
+import {
+  createStreamObserver,
+  type StreamState,
+} from '../observers/stream-observer'
+import {
+  createWebSocketObserver,
+  type SocketCall,
+  type WebSocketState,
+} from '../observers/websocket-observer'
+
+export type UseCallOptions = {
+  /** Set to `false` to wait, e.g. until the arguments of a dependent query are known */
+  readonly enabled?: boolean
+}
+
+type CallArgs<I extends EndpointInputType> = [
+  ...EndpointArgs<I>,
+  options?: UseCallOptions,
+]
+
+export type UseQueryResult<D, E, H = undefined> = QueryState<D, E, H> & {
+  /** Calls the endpoint again with the current arguments */
+  readonly refetch: () => Promise<void>
+}
+
+export type UseMutationResult<D, E, A extends unknown[], R> = MutationState<
+  D,
+  E
+> & {
+  /** Calls the endpoint, resolves with its result */
+  readonly mutate: (...args: A) => Promise<R>
+  /** Returns to the idle state */
+  readonly reset: () => void
+}
+
+export type UseStreamResult<C, E> = StreamState<C, E> & {
+  /** Aborts the request and stops reading */
+  readonly stop: () => void
+  /** Starts the stream again with the current arguments */
+  readonly restart: () => Promise<void>
+}
+
+export type UseWebSocketResult<M, S, E> = WebSocketState<M, E> & {
+  /** Sends a message, throws when the socket is not open */
+  readonly send: (data: S) => void
+  /** Closes the socket */
+  readonly close: (code?: number, reason?: string) => void
+  /** Opens a new socket with the current arguments */
+  readonly reconnect: () => Promise<void>
+}
+
+function useObserver<O extends ReadableStore<unknown>>(create: () => O) {
+  const [observer] = useState(create)
+  const state = useSyncExternalStore(
+    observer.subscribe,
+    observer.getSnapshot,
+    observer.getSnapshot,
+  ) as ReturnType<O['getSnapshot']>
+  return [observer, state] as const
+}
+
+/** Keeps the latest call and arguments for callbacks created once */
+function useLatest<T>(value: T) {
+  const ref = useRef(value)
+  ref.current = value
+  return ref
+}
+
+/**
+ * The call and arguments, replaced only when their call key changes. Client
+ * calls are new functions on every render, so effects depend on this instead.
+ */
+function useKeyedCall<C extends object, A>(call: C, args: A) {
+  const key = getCallKey(call, args)
+  const [keyed, setKeyed] = useState({ key, call, args })
+  if (keyed.key !== key) {
+    setKeyed({ key, call, args })
+  }
+  return keyed
+}
+
+/**
+ * Calls a GET endpoint of the client when the component mounts and whenever
+ * the endpoint, path parameters or arguments change.
+ *
+ * @example
+ * ```tsx
+ * const { data, error, status } = useQuery(api.users.id(userId).get)
+ * ```
+ */
+export function useQuery<
+  R extends z.ZodType,
+  I extends EndpointInputType,
+  E extends EndpointErrors,
+  H extends EndpointResponseHeaders | undefined = undefined,
+>(
+  call: HttpEndpointCallSignature<R, I, E, H>,
+  ...[args, options]: CallArgs<I>
+): UseQueryResult<
+  z.infer<R>,
+  HttpErrorResult<E>['error'],
+  HttpResponseHeaders<H>
+> {
+  const [observer, state] = useObserver(() =>
+    createQueryObserver<
+      unknown,
+      z.infer<R>,
+      HttpErrorResult<E>['error'],
+      HttpResponseHeaders<H>
+    >(),
+  )
+  const latest = useLatest({ call, args })
+  const keyed = useKeyedCall(call, args)
+  const enabled = options?.enabled ?? true
+
+  const fetch = useCallback(
+    (current: { call: typeof call; args: typeof args }) =>
+      observer.fetch(
+        current.call as ResultCall<
+          unknown,
+          z.infer<R>,
+          never,
+          HttpResponseHeaders<H>
+        >,
+        current.args,
+      ),
+    [observer],
+  )
+  const refetch = useCallback(() => fetch(latest.current), [fetch, latest])
+
+  useEffect(() => {
+    if (!enabled) return
+    fetch(keyed)
+    return observer.cancel
+  }, [observer, fetch, keyed, enabled])
+
+  return { ...state, refetch }
+}
+
+/**
+ * Tracks the state of calls to a mutating endpoint. Nothing is sent until
+ * `mutate` is called.
+ *
+ * @example
+ * ```tsx
+ * const { mutate, status } = useMutation(api.users.post)
+ * await mutate({ json: { name: 'John' } })
+ * ```
+ */
+export function useMutation<
+  R extends z.ZodType,
+  I extends EndpointInputType,
+  E extends EndpointErrors,
+  H extends EndpointResponseHeaders | undefined = undefined,
+>(
+  call: HttpEndpointCallSignature<R, I, E, H>,
+): UseMutationResult<
+  z.infer<R>,
+  HttpErrorResult<E>['error'],
+  EndpointArgs<I>,
+  HttpSuccessResult<R, H> | HttpErrorResult<E>
+> {
+  const [observer, state] = useObserver(() =>
+    createMutationObserver<unknown, z.infer<R>, HttpErrorResult<E>['error']>(),
+  )
+  const latest = useLatest(call)
+
+  const mutate = useCallback(
+    (...[args]: EndpointArgs<I>) =>
+      observer.mutate(
+        latest.current as ResultCall<unknown, z.infer<R>, never>,
+        args,
+      ) as Promise<HttpSuccessResult<R, H> | HttpErrorResult<E>>,
+    [observer, latest],
+  )
+
+  return { ...state, mutate, reset: observer.reset }
+}
+
+/**
+ * Reads a stream endpoint (SSE, JSON or binary) and collects its chunks. The
+ * stream restarts when the endpoint or its arguments change and stops on
+ * unmount.
+ *
+ * @example
+ * ```tsx
+ * const { chunks, latest, status } = useStream(api.events.get.$stream)
+ * ```
+ */
+export function useStream<
+  R extends StreamResponse,
+  I extends EndpointInputType,
+>(
+  call: StreamEndpointCallSignature<R, I>,
+  ...[args, options]: CallArgs<I>
+): UseStreamResult<
+  StreamChunk<R> | StreamParseError,
+  StreamErrorResult['error']
+> {
+  const [observer, state] = useObserver(() =>
+    createStreamObserver<
+      unknown,
+      StreamChunk<R> | StreamParseError,
+      StreamErrorResult['error']
+    >(),
+  )
+  const latest = useLatest({ call, args })
+  const keyed = useKeyedCall(call, args)
+  const enabled = options?.enabled ?? true
+
+  const start = useCallback(
+    (current: { call: typeof call; args: typeof args }) =>
+      observer.start(
+        current.call as ResultCall<
+          unknown,
+          AsyncGenerator<StreamChunk<R> | StreamParseError, void, void>,
+          never
+        >,
+        current.args,
+      ),
+    [observer],
+  )
+  const restart = useCallback(() => start(latest.current), [start, latest])
+
+  useEffect(() => {
+    if (!enabled) return
+    start(keyed)
+    return observer.stop
+  }, [observer, start, keyed, enabled])
+
+  return { ...state, stop: observer.stop, restart }
+}
+
+/**
+ * Connects to a WebSocket endpoint and collects its messages. The socket
+ * reconnects when the endpoint or its arguments change and closes on unmount.
+ *
+ * @example
+ * ```tsx
+ * const { messages, status, send } = useWebSocket(api.chat.get.$ws)
+ * send({ text: 'Hello' })
+ * ```
+ */
+export function useWebSocket<
+  R extends WebSocketResponse<any>,
+  I extends EndpointInputType,
+>(
+  call: WebSocketEndpointCallSignature<R, I>,
+  ...[args, options]: CallArgs<I>
+): UseWebSocketResult<
+  WSMessage<R> | WSBinaryMessage,
+  Parameters<WebSocketController<R>['send']>[0],
+  WSErrorResult['error']
+> {
+  const [observer, state] = useObserver(() =>
+    createWebSocketObserver<
+      unknown,
+      WSMessage<R> | WSBinaryMessage,
+      Parameters<WebSocketController<R>['send']>[0],
+      WSErrorResult['error']
+    >(),
+  )
+  const latest = useLatest({ call, args })
+  const keyed = useKeyedCall(call, args)
+  const enabled = options?.enabled ?? true
+
+  const connect = useCallback(
+    (current: { call: typeof call; args: typeof args }) =>
+      observer.connect(
+        current.call as unknown as SocketCall<
+          unknown,
+          WSMessage<R> | WSBinaryMessage,
+          Parameters<WebSocketController<R>['send']>[0],
+          never
+        >,
+        current.args,
+      ),
+    [observer],
+  )
+  const reconnect = useCallback(
+    () => connect(latest.current),
+    [connect, latest],
+  )
+
+  useEffect(() => {
+    if (!enabled) return
+    connect(keyed)
+    return () => observer.close()
+  }, [observer, connect, keyed, enabled])
+
+  return { ...state, send: observer.send, close: observer.close, reconnect }
+}
@@ -0,0 +1,29 @@
+import type { MutationStatus } from '../observers/mutation-observer'
+import type { QueryStatus } from '../observers/query-observer'
+import type { StreamStatus } from '../observers/stream-observer'
+import type { WebSocketStatus } from '../observers/websocket-observer'
+import {
+  type UseCallOptions,
+  type UseMutationResult,
+  type UseQueryResult,
+  type UseStreamResult,
+  type UseWebSocketResult,
+  useMutation,
+  useQuery,
+  useStream,
+  useWebSocket,
+} from './hooks'
+
+export { useMutation, useQuery, useStream, useWebSocket }
+
+export type {
+  MutationStatus,
+  QueryStatus,
+  StreamStatus,
+  UseCallOptions,
+  UseMutationResult,
+  UseQueryResult,
+  UseStreamResult,
+  UseWebSocketResult,
+  WebSocketStatus,
+}
@@ -0,0 +1,215 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { Hono } from 'hono'
+import { stream } from 'hono/streaming'
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import z from 'zod'
+import { createApiClient } from '../../api-client/api-client'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { defineJSONStream } from '../../endpoint/stream-response'
+import { ApiError } from '../../utils/errors'
+import { useMutation, useQuery, useStream } from '..'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+describe('useQuery', () => {
+  it('fetches on mount and infers the data type', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+    const { result } = renderHook(() => useQuery(api.users.id('1').get))
+
+    expect(result.current.status).toBe('pending')
+    await waitFor(() => expect(result.current.status).toBe('success'))
+
+    expect(result.current.data).toEqual({ id: '1', name: 'User 1' })
+    expectTypeOf(result.current.data).toEqualTypeOf<
+      { id: string; name: string } | undefined
+    >()
+  })
+
+  it('keeps the parsed response headers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({ 'x-total-count': z.coerce.number() }),
+      }),
+    }
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async () =>
+        Response.json([], { headers: { 'x-total-count': '0' } }),
+    })
+
+    const { result } = renderHook(() => useQuery(client.api.users.get))
+    await waitFor(() => expect(result.current.status).toBe('success'))
+
+    expect(result.current.headers).toEqual({ 'x-total-count': 0 })
+    expectTypeOf(result.current.headers).toEqualTypeOf<
+      { 'x-total-count': number } | undefined
+    >()
+    expectTypeOf(result.current.data).toEqualTypeOf<
+      Array<{ id: string; name: string }> | undefined
+    >()
+  })
+
+  it('refetches when the path parameters change', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const { result, rerender } = renderHook(
+      ({ id }) => useQuery(api.users.id(id).get),
+      { initialProps: { id: '1' } },
+    )
+    await waitFor(() => expect(result.current.data?.id).toBe('1'))
+
+    // A new client node for the same endpoint does not refetch
+    rerender({ id: '1' })
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    rerender({ id: '2' })
+    await waitFor(() => expect(result.current.data?.id).toBe('2'))
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('exposes api errors', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock(() => {
+      throw new ApiError('User not found', 404)
+    })
+
+    const { app } = createMockServer(apiSchema)
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+    const { result } = renderHook(() => useQuery(api.users.id('1').get))
+
+    await waitFor(() => expect(result.current.status).toBe('error'))
+    expect(result.current.error).toBeInstanceOf(ApiError)
+  })
+
+  it('waits while disabled', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const { result, rerender } = renderHook(
+      ({ enabled }) => useQuery(api.users.id('1').get, undefined, { enabled }),
+      { initialProps: { enabled: false } },
+    )
+    expect(result.current.status).toBe('idle')
+    expect(fetch).not.toHaveBeenCalled()
+
+    rerender({ enabled: true })
+    await waitFor(() => expect(result.current.status).toBe('success'))
+  })
+})
+
+describe('useMutation', () => {
+  it('sends nothing until mutate is called', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const { result } = renderHook(() => useMutation(api.users.post))
+    expect(result.current.status).toBe('idle')
+    expect(fetch).not.toHaveBeenCalled()
+
+    let returned: Awaited<ReturnType<typeof result.current.mutate>> | undefined
+    await act(async () => {
+      returned = await result.current.mutate({ json: { name: 'Jane' } })
+    })
+
+    expect(returned?.data).toEqual({ id: 'new', name: 'Jane' })
+    expect(result.current).toMatchObject({
+      status: 'success',
+      data: { id: 'new', name: 'Jane' },
+    })
+
+    act(() => result.current.reset())
+    expect(result.current.status).toBe('idle')
+  })
+})
+
+describe('useStream', () => {
+  it('collects the chunks of a stream', async () => {
+    const apiSchema = {
+      numbers: defineGet('/numbers', {
+        response: defineJSONStream(z.object({ value: z.number() })),
+      }),
+    }
+    const app = new Hono().get('/numbers', (c) =>
+      stream(c, async (s) => {
+        await s.writeln(JSON.stringify({ value: 1 }))
+        await s.writeln(JSON.stringify({ value: 2 }))
+      }),
+    )
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { result } = renderHook(() => useStream(api.numbers.get.$stream))
+
+    await waitFor(() => expect(result.current.status).toBe('done'))
+    expect(result.current.chunks).toMatchObject([
+      { type: 'json', data: { value: 1 } },
+      { type: 'json', data: { value: 2 } },
+    ])
+  })
+})
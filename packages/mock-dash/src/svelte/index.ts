@@ -0,0 +1,31 @@
+import type { MutationStatus } from '../observers/mutation-observer'
+import type { QueryStatus } from '../observers/query-observer'
+import type { StreamStatus } from '../observers/stream-observer'
+import type { WebSocketStatus } from '../observers/websocket-observer'
+import {
+  type CreateCallOptions,
+  createMutation,
+  createQuery,
+  createStream,
+  createWebSocket,
+  type MutationStore,
+  type QueryStore,
+  type Readable,
+  type StreamStore,
+  type WebSocketStore,
+} from './stores'
+
+export { createMutation, createQuery, createStream, createWebSocket }
+
+export type {
+  CreateCallOptions,
+  MutationStatus,
+  MutationStore,
+  QueryStatus,
+  QueryStore,
+  Readable,
+  StreamStatus,
+  StreamStore,
+  WebSocketStatus,
+  WebSocketStore,
+}
@@ -0,0 +1,282 @@
+import type z from 'zod'
+import type { EndpointArgs } from '../api-client/client-base'
+import type {
+  HttpEndpointCallSignature,
+  HttpErrorResult,
+  HttpResponseHeaders,
+  HttpSuccessResult,
+} from '../api-client/http-call'
+import type {
+  StreamChunk,
+  StreamEndpointCallSignature,
+  StreamErrorResult,
+  StreamParseError,
+} from '../api-client/stream-call'
+import type {
+  WebSocketController,
+  WebSocketEndpointCallSignature,
+  WSBinaryMessage,
+  WSErrorResult,
+  WSMessage,
+} from '../api-client/ws-call'
+import type {
+  EndpointErrors,
+  EndpointResponseHeaders,
+} from '../endpoint/endpoint'
+import type { EndpointInputType } from '../endpoint/input'
+import type { StreamResponse } from '../endpoint/stream-response'
+import type { WebSocketResponse } from '../endpoint/ws-response'
+import {
+  createMutationObserver,
+  type MutationState,
+} from '../observers/mutation-observer'
+import {
+  createQueryObserver,
+  type QueryState,
+  type ResultCall,
+} from '../observers/query-observer'
+import type { ReadableStore } from '../observers/store'
+import {
+  createStreamObserver,
+  type StreamState,
+} from '../observers/stream-observer'
+import {
+  createWebSocketObserver,
+  type SocketCall,
+  type WebSocketState,
+} from '../observers/websocket-observer'
+
+/** The Svelte store contract, usable with `$store` and `fromStore` */
+export type Readable<T> = {
+  subscribe: (run: (value: T) => void) => () => void
+}
+
+export type CreateCallOptions = {
+  /** Set to `false` to start the call manually */
+  readonly enabled?: boolean
+}
+
+type CallArgs<I extends EndpointInputType> = [
+  ...EndpointArgs<I>,
+  options?: CreateCallOptions,
+]
+
+export type QueryStore<D, E, H = undefined> = Readable<QueryState<D, E, H>> & {
+  /** Calls the endpoint again */
+  readonly refetch: () => Promise<void>
+}
+
+export type MutationStore<D, E, A extends unknown[], R> = Readable<
+  MutationState<D, E>
+> & {
+  /** Calls the endpoint, resolves with its result */
+  readonly mutate: (...args: A) => Promise<R>
+  /** Returns to the idle state */
+  readonly reset: () => void
+}
+
+export type StreamStore<C, E> = Readable<StreamState<C, E>> & {
+  /** Aborts the request and stops reading */
+  readonly stop: () => void
+  /** Starts the stream again */
+  readonly restart: () => Promise<void>
+}
+
+export type WebSocketStore<M, S, E> = Readable<WebSocketState<M, E>> & {
+  /** Sends a message, throws when the socket is not open */
+  readonly send: (data: S) => void
+  /** Closes the socket */
+  readonly close: (code?: number, reason?: string) => void
+  /** Opens a new socket */
+  readonly reconnect: () => Promise<void>
+}
+
+/**
+ * Adapts an observer to the Svelte store contract. `start` runs when the first
+ * subscriber arrives and `stop` when the last one leaves, which is when the
+ * component that used the store is destroyed.
+ */
+function toReadable<S>(
+  observer: ReadableStore<S>,
+  start?: () => void,
+  stop?: () => void,
+): Readable<S> {
+  let subscribers = 0
+
+  return {
+    subscribe: (run) => {
+      const unsubscribe = observer.subscribe(() => run(observer.getSnapshot()))
+      run(observer.getSnapshot())
+      if (subscribers++ === 0) start?.()
+
+      return () => {
+        unsubscribe()
+        if (--subscribers === 0) stop?.()
+      }
+    },
+  }
+}
+
+/**
+ * Calls a GET endpoint of the client once the store is subscribed to.
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   const user = createQuery(api.users.id(id).get)
+ * </script>
+ *
+ * {#if $user.status === 'success'}{$user.data.name}{/if}
+ * ```
+ */
+export function createQuery<
+  R extends z.ZodType,
+  I extends EndpointInputType,
+  E extends EndpointErrors,
+  H extends EndpointResponseHeaders | undefined = undefined,
+>(
+  call: HttpEndpointCallSignature<R, I, E, H>,
+  ...[args, options]: CallArgs<I>
+): QueryStore<z.infer<R>, HttpErrorResult<E>['error'], HttpResponseHeaders<H>> {
+  const observer = createQueryObserver<
+    unknown,
+    z.infer<R>,
+    HttpErrorResult<E>['error'],
+    HttpResponseHeaders<H>
+  >()
+  const refetch = () =>
+    observer.fetch(
+      call as ResultCall<unknown, z.infer<R>, never, HttpResponseHeaders<H>>,
+      args,
+    )
+
+  return {
+    ...toReadable(
+      observer,
+      () => {
+        if (options?.enabled ?? true) refetch()
+      },
+      observer.cancel,
+    ),
+    refetch,
+  }
+}
+
+/**
+ * Tracks the state of calls to a mutating endpoint. Nothing is sent until
+ * `mutate` is called.
+ */
+export function createMutation<
+  R extends z.ZodType,
+  I extends EndpointInputType,
+  E extends EndpointErrors,
+  H extends EndpointResponseHeaders | undefined = undefined,
+>(
+  call: HttpEndpointCallSignature<R, I, E, H>,
+): MutationStore<
+  z.infer<R>,
+  HttpErrorResult<E>['error'],
+  EndpointArgs<I>,
+  HttpSuccessResult<R, H> | HttpErrorResult<E>
+> {
+  const observer = createMutationObserver<
+    unknown,
+    z.infer<R>,
+    HttpErrorResult<E>['error']
+  >()
+
+  return {
+    ...toReadable(observer),
+    mutate: (...[args]: EndpointArgs<I>) =>
+      observer.mutate(
+        call as ResultCall<unknown, z.infer<R>, never>,
+        args,
+      ) as Promise<HttpSuccessResult<R, H> | HttpErrorResult<E>>,
+    reset: observer.reset,
+  }
+}
+
+/**
+ * Reads a stream endpoint (SSE, JSON or binary) while the store is
+ * subscribed to and collects its chunks.
+ */
+export function createStream<
+  R extends StreamResponse,
+  I extends EndpointInputType,
+>(
+  call: StreamEndpointCallSignature<R, I>,
+  ...[args, options]: CallArgs<I>
+): StreamStore<StreamChunk<R> | StreamParseError, StreamErrorResult['error']> {
+  const observer = createStreamObserver<
+    unknown,
+    StreamChunk<R> | StreamParseError,
+    StreamErrorResult['error']
+  >()
+  const restart = () =>
+    observer.start(
+      call as ResultCall<
+        unknown,
+        AsyncGenerator<StreamChunk<R> | StreamParseError, void, void>,
+        never
+      >,
+      args,
+    )
+
+  return {
+    ...toReadable(
+      observer,
+      () => {
+        if (options?.enabled ?? true) restart()
+      },
+      observer.stop,
+    ),
+    stop: observer.stop,
+    restart,
+  }
+}
+
+/**
+ * Connects to a WebSocket endpoint while the store is subscribed to and
+ * collects its messages.
+ */
+export function createWebSocket<
+  R extends WebSocketResponse<any>,
+  I extends EndpointInputType,
+>(
+  call: WebSocketEndpointCallSignature<R, I>,
+  ...[args, options]: CallArgs<I>
+): WebSocketStore<
+  WSMessage<R> | WSBinaryMessage,
+  Parameters<WebSocketController<R>['send']>[0],
+  WSErrorResult['error']
+> {
+  const observer = createWebSocketObserver<
+    unknown,
+    WSMessage<R> | WSBinaryMessage,
+    Parameters<WebSocketController<R>['send']>[0],
+    WSErrorResult['error']
+  >()
+  const reconnect = () =>
+    observer.connect(
+      call as unknown as SocketCall<
+        unknown,
+        WSMessage<R> | WSBinaryMessage,
+        Parameters<WebSocketController<R>['send']>[0],
+        never
+      >,
+      args,
+    )
+
+  return {
+    ...toReadable(
+      observer,
+      () => {
+        if (options?.enabled ?? true) reconnect()
+      },
+      () => observer.close(),
+    ),
+    send: observer.send,
+    close: observer.close,
+    reconnect,
+  }
+}
@@ -0,0 +1,206 @@
+import { Hono } from 'hono'
+import { stream } from 'hono/streaming'
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import z from 'zod'
+import { createApiClient } from '../../api-client/api-client'
+import { createMockServer } from '../../create-mock-server/create-mock-server'
+import { defineGet, definePost } from '../../endpoint/define-endpoint'
+import { defineJSONStream } from '../../endpoint/stream-response'
+import {
+  createMutation,
+  createQuery,
+  createStream,
+  type Readable,
+} from '../index'
+
+const userModel = z.object({ id: z.string(), name: z.string() })
+
+/** Subscribes like `$store` does and records every value */
+function subscribe<T>(store: Readable<T>) {
+  const values: T[] = []
+  const unsubscribe = store.subscribe((value) => values.push(value))
+  return { values, latest: () => values[values.length - 1], unsubscribe }
+}
+
+describe('createQuery', () => {
+  it('fetches once subscribed to', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const user = createQuery(api.users.id('1').get)
+    expect(fetch).not.toHaveBeenCalled()
+
+    const { latest, unsubscribe } = subscribe(user)
+    expect(latest()?.status).toBe('pending')
+
+    await vi.waitFor(() => expect(latest()?.status).toBe('success'))
+    expect(latest()?.data).toEqual({ id: '1', name: 'User 1' })
+    expectTypeOf(latest()!.data).toEqualTypeOf<
+      { id: string; name: string } | undefined
+    >()
+    unsubscribe()
+  })
+
+  it('keeps the parsed response headers', async () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(userModel),
+        responseHeaders: z.object({ 'x-total-count': z.coerce.number() }),
+      }),
+    }
+    const client = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: async () =>
+        Response.json([], { headers: { 'x-total-count': '0' } }),
+    })
+
+    const { latest, unsubscribe } = subscribe(createQuery(client.api.users.get))
+    await vi.waitFor(() => expect(latest()?.status).toBe('success'))
+
+    expect(latest()?.headers).toEqual({ 'x-total-count': 0 })
+    expectTypeOf(latest()!.headers).toEqualTypeOf<
+      { 'x-total-count': number } | undefined
+    >()
+    unsubscribe()
+  })
+
+  it('shares one request between subscribers and cancels it after the last one leaves', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn(async (request: Request) => {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      return app.fetch(request)
+    })
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const user = createQuery(api.users.id('1').get)
+
+    const first = subscribe(user)
+    const second = subscribe(user)
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1))
+    const signal = fetch.mock.calls[0]?.[0].signal
+
+    first.unsubscribe()
+    expect(signal?.aborted).toBe(false)
+    second.unsubscribe()
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('waits for refetch while disabled', async () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+    }
+    apiSchema.getUser.defineMock((ctx) => ({
+      id: ctx.inputs.param.id,
+      name: `User ${ctx.inputs.param.id}`,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const user = createQuery(api.users.id('1').get, undefined, {
+      enabled: false,
+    })
+    const { latest, unsubscribe } = subscribe(user)
+    expect(latest()?.status).toBe('idle')
+    expect(fetch).not.toHaveBeenCalled()
+
+    await user.refetch()
+    expect(latest()?.status).toBe('success')
+    unsubscribe()
+  })
+})
+
+describe('createMutation', () => {
+  it('sends nothing until mutate is called', async () => {
+    const apiSchema = {
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string() }) },
+        response: userModel,
+      }),
+    }
+    apiSchema.createUser.defineMock((ctx) => ({
+      id: 'new',
+      name: ctx.inputs.json.name,
+    }))
+
+    const { app } = createMockServer(apiSchema)
+    const fetch = vi.fn((request: Request) => app.fetch(request))
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch,
+    })
+    const createUser = createMutation(api.users.post)
+    const { latest, unsubscribe } = subscribe(createUser)
+    expect(fetch).not.toHaveBeenCalled()
+
+    const result = await createUser.mutate({ json: { name: 'Jane' } })
+
+    expect(result.data).toEqual({ id: 'new', name: 'Jane' })
+    expect(latest()).toMatchObject({
+      status: 'success',
+      data: { id: 'new', name: 'Jane' },
+    })
+    unsubscribe()
+  })
+})
+
+describe('createStream', () => {
+  it('collects the chunks of a stream', async () => {
+    const apiSchema = {
+      numbers: defineGet('/numbers', {
+        response: defineJSONStream(z.object({ value: z.number() })),
+      }),
+    }
+    const app = new Hono().get('/numbers', (c) =>
+      stream(c, async (s) => {
+        await s.writeln(JSON.stringify({ value: 1 }))
+        await s.writeln(JSON.stringify({ value: 2 }))
+      }),
+    )
+    const { api } = createApiClient({
+      apiSchema,
+      baseURL: 'http://localhost',
+      fetch: app.fetch,
+    })
+
+    const { latest, unsubscribe } = subscribe(
+      createStream(api.numbers.get.$stream),
+    )
+
+    await vi.waitFor(() => expect(latest()?.status).toBe('done'))
+    expect(latest()?.chunks).toMatchObject([
+      { type: 'json', data: { value: 1 } },
+      { type: 'json', data: { value: 2 } },
+    ])
+    unsubscribe()
+  })
+})
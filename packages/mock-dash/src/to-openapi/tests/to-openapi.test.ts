@@ -0,0 +1,324 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import {
+  defineDelete,
+  defineGet,
+  definePost,
+} from '../../endpoint/define-endpoint'
+import {
+  defineBinaryStream,
+  defineJSONStream,
+  defineSSE,
+} from '../../endpoint/stream-response'
+import { defineWebSocket } from '../../endpoint/ws-response'
+import { toOpenAPI } from '../to-openapi'
+
+const info = { title: 'Test API', version: '1.0.0' }
+
+describe('toOpenAPI', () => {
+  it('should describe HTTP endpoints with parameters and bodies', () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        input: {
+          query: {
+            expand: z.string().optional(),
+            limit: z.coerce.number(),
+          },
+        },
+        response: z.object({ id: z.string(), name: z.string() }),
+        errors: { 404: z.object({ message: z.string() }) },
+      }),
+      createUser: definePost('/users', {
+        input: { json: z.object({ name: z.string().min(1) }) },
+        response: z.object({ id: z.string() }),
+      }),
+      uploadAvatar: definePost('/users/:id/avatar', {
+        input: { form: { file: z.file() } },
+        response: z.string(),
+      }),
+      deleteUser: defineDelete('/users/:id', { response: z.void() }),
+      notAnEndpoint: 'ignored',
+    }
+
+    const document = toOpenAPI(apiSchema, {
+      info,
+      servers: [{ url: 'https://api.example.com' }],
+    })
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual(info)
+    expect(document.servers).toEqual([{ url: 'https://api.example.com' }])
+    expect(Object.keys(document.paths)).toEqual([
+      '/users/{id}',
+      '/users',
+      '/users/{id}/avatar',
+    ])
+
+    const getUser = document.paths['/users/{id}'].get
+    expect(getUser.operationId).toBe('getUser')
+    expect(getUser.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      {
+        name: 'expand',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        required: true,
+        schema: { type: 'number' },
+      },
+    ])
+    expect(getUser.responses).toEqual({
+      200: {
+        description: 'Successful response',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { id: { type: 'string' }, name: { type: 'string' } },
+              required: ['id', 'name'],
+              additionalProperties: false,
+            },
+          },
+        },
+      },
+      404: {
+        description: 'Error response',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { message: { type: 'string' } },
+              required: ['message'],
+              additionalProperties: false,
+            },
+          },
+        },
+      },
+    })
+
+    expect(document.paths['/users'].post.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string', minLength: 1 } },
+            required: ['name'],
+          },
+        },
+      },
+    })
+
+    const upload = document.paths['/users/{id}/avatar'].post
+    expect(upload.requestBody).toMatchObject({
+      content: {
+        'multipart/form-data': {
+          schema: { properties: { file: { format: 'binary' } } },
+        },
+      },
+    })
+    expect(upload.responses).toMatchObject({
+      200: { content: { 'text/plain': { schema: { type: 'string' } } } },
+    })
+
+    expect(document.paths['/users/{id}'].delete.responses).toEqual({
+      200: { description: 'Successful response without content' },
+    })
+  })
+
+  it('should describe stream and WebSocket endpoints with extensions', () => {
+    const apiSchema = {
+      events: defineGet('/events', {
+        response: defineSSE({ tick: z.object({ count: z.number() }) }),
+      }),
+      items: defineGet('/items', {
+        response: defineJSONStream(z.object({ id: z.number() })),
+      }),
+      download: defineGet('/download', {
+        response: defineBinaryStream('application/pdf'),
+      }),
+      chat: defineGet('/chat', {
+        response: defineWebSocket(
+          [z.object({ text: z.string() })],
+          [z.literal('ping')],
+        ),
+      }),
+    }
+
+    const { paths } = toOpenAPI(apiSchema, { info })
+
+    expect(paths['/events'].get['x-mock-dash-stream']).toEqual({
+      type: 'sse',
+      events: {
+        tick: {
+          type: 'object',
+          properties: { count: { type: 'number' } },
+          required: ['count'],
+          additionalProperties: false,
+        },
+      },
+    })
+    expect(paths['/events'].get.responses).toMatchObject({
+      200: { content: { 'text/event-stream': {} } },
+    })
+    expect(paths['/items'].get['x-mock-dash-stream']).toMatchObject({
+      type: 'json',
+      item: { properties: { id: { type: 'number' } } },
+    })
+    expect(paths['/download'].get.responses).toMatchObject({
+      200: { content: { 'application/pdf': { schema: { format: 'binary' } } } },
+    })
+    expect(paths['/chat'].get.responses).toHaveProperty('101')
+    expect(paths['/chat'].get['x-mock-dash-websocket']).toEqual({
+      serverToClient: [
+        {
+          type: 'object',
+          properties: { text: { type: 'string' } },
+          required: ['text'],
+          additionalProperties: false,
+        },
+      ],
+      clientToServer: [{ type: 'string', const: 'ping' }],
+    })
+  })
+
+  it('should move shared and recursive schemas into components', () => {
+    const userModel = z
+      .object({ id: z.string(), name: z.string() })
+      .meta({ id: 'User' })
+    const categoryModel = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(categoryModel)
+      },
+    })
+
+    const apiSchema = {
+      getUser: defineGet('/users/:id', { response: userModel }),
+      getTeam: defineGet('/teams/:id', {
+        response: z.object({ members: z.array(userModel) }),
+      }),
+      getCategories: defineGet('/categories', { response: categoryModel }),
+    }
+
+    const { paths, components } = toOpenAPI(apiSchema, { info })
+
+    expect(components.schemas.User).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' }, name: { type: 'string' } },
+      required: ['id', 'name'],
+      additionalProperties: false,
+    })
+    expect(paths['/users/{id}'].get.responses).toMatchObject({
+      200: {
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/User' } },
+        },
+      },
+    })
+    expect(paths['/teams/{id}'].get.responses).toMatchObject({
+      200: {
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                members: { items: { $ref: '#/components/schemas/User' } },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    const recursive = JSON.stringify(paths['/categories'].get.responses)
+    expect(recursive).toContain('"$ref":"#/components/schemas/Schema1"')
+    expect(JSON.stringify(components.schemas.Schema1)).toContain(
+      '"$ref":"#/components/schemas/Schema1"',
+    )
+  })
+
+  it('should describe header and cookie inputs as parameters', () => {
+    const apiSchema = {
+      getProfile: defineGet('/profile', {
+        input: {
+          header: { 'x-api-version': z.string() },
+          cookie: { session: z.string().optional() },
+        },
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const { paths } = toOpenAPI(apiSchema, { info })
+
+    expect(paths['/profile'].get.parameters).toEqual([
+      {
+        name: 'x-api-version',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+      },
+      {
+        name: 'session',
+        in: 'cookie',
+        required: false,
+        schema: { type: 'string' },
+      },
+    ])
+  })
+
+  it('should describe response headers', () => {
+    const apiSchema = {
+      getUsers: defineGet('/users', {
+        response: z.array(z.object({ id: z.string() })),
+        responseHeaders: z.object({
+          'x-total-count': z.coerce.number(),
+          etag: z.string().optional(),
+        }),
+      }),
+    }
+
+    const { paths } = toOpenAPI(apiSchema, { info })
+    expect(paths['/users'].get.responses).toMatchObject({
+      200: {
+        headers: {
+          'x-total-count': { required: true, schema: { type: 'number' } },
+          etag: { required: false, schema: { type: 'string' } },
+        },
+      },
+    })
+  })
+
+  it('should replace path aliases', () => {
+    const apiSchema = {
+      getUser: defineGet('/{api}/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    const { paths } = toOpenAPI(apiSchema, {
+      info,
+      alias: { api: '/api/v1' },
+    })
+
+    expect(Object.keys(paths)).toEqual(['/api/v1/users/{id}'])
+  })
+
+  it('should reject endpoints sharing a path and method', () => {
+    const apiSchema = {
+      getUser: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+      getUserById: defineGet('/users/:id', {
+        response: z.object({ id: z.string() }),
+      }),
+    }
+
+    expect(() => toOpenAPI(apiSchema, { info })).toThrow(
+      'Cannot export GET /users/{id} twice: "getUser" and "getUserById" share it',
+    )
+  })
+})
@@ -0,0 +1,307 @@
+import z from 'zod'
+import { Endpoint } from '../endpoint/endpoint'
+import { isHttpEndpoint } from '../endpoint/http-endpoint'
+import {
+  isBinaryStreamResponse,
+  isJSONStreamResponse,
+  isSSEResponse,
+} from '../endpoint/stream-response'
+import { isWebSocketEndpoint } from '../endpoint/ws-endpoint'
+import type { AliasOptionFromApiSchema } from '../utils/alias'
+import { buildEndpointPath } from '../utils/build-endpoint-path'
+
+type JSONSchema = Record<string, unknown>
+
+export type OpenAPIInfo = {
+  title: string
+  version: string
+  description?: string
+  [extension: `x-${string}`]: unknown
+}
+
+export type OpenAPIServer = {
+  url: string
+  description?: string
+}
+
+export type OpenAPIDocument = {
+  openapi: '3.1.0'
+  info: OpenAPIInfo
+  servers?: OpenAPIServer[]
+  paths: Record<string, Record<string, JSONSchema>>
+  components: { schemas: Record<string, JSONSchema> }
+}
+
+export type ToOpenAPIOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  readonly info: OpenAPIInfo
+  readonly servers?: OpenAPIServer[]
+  readonly alias?: Record<never, string>
+} & AliasOptionFromApiSchema<T>
+
+/**
+ * Converts Zod schemas to JSON Schema, moving shared (`.meta({ id })`) and
+ * recursive schemas into `components.schemas` of the document.
+ */
+function createSchemaConverter(components: Record<string, JSONSchema>) {
+  let anonymousCount = 0
+
+  function uniqueName() {
+    let name: string
+    do {
+      anonymousCount++
+      name = `Schema${anonymousCount}`
+    } while (name in components)
+    return name
+  }
+
+  function rewriteRefs(value: unknown, refs: Map<string, string>): unknown {
+    if (Array.isArray(value)) return value.map((v) => rewriteRefs(v, refs))
+    if (value === null || typeof value !== 'object') return value
+
+    const out: JSONSchema = {}
+    for (const [key, child] of Object.entries(value)) {
+      out[key] =
+        key === '$ref' && typeof child === 'string' && refs.has(child)
+          ? refs.get(child)
+          : rewriteRefs(child, refs)
+    }
+    return out
+  }
+
+  return (schema: z.ZodType, io: 'input' | 'output'): JSONSchema => {
+    const {
+      $schema: _,
+      $defs,
+      ...root
+    } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JSONSchema
+
+    const refs = new Map<string, string>()
+    const defs = Object.entries(($defs ?? {}) as Record<string, JSONSchema>)
+    for (const [key] of defs) {
+      const name = key.startsWith('__schema') ? uniqueName() : key
+      refs.set(`#/$defs/${key}`, `#/components/schemas/${name}`)
+    }
+
+    // A recursive root schema references itself with `#`
+    const rootId = typeof root.id === 'string' ? root.id : undefined
+    const isRecursive = JSON.stringify(root).includes('"$ref":"#"')
+    const rootName = rootId ?? (isRecursive ? uniqueName() : undefined)
+    if (rootName) refs.set('#', `#/components/schemas/${rootName}`)
+
+    for (const [key, def] of defs) {
+      const { id: _id, ...rest } = def
+      const ref = refs.get(`#/$defs/${key}`) as string
+      components[ref.slice('#/components/schemas/'.length)] = rewriteRefs(
+        rest,
+        refs,
+      ) as JSONSchema
+    }
+
+    const { id: _id, ...rest } = root
+    const converted = rewriteRefs(rest, refs) as JSONSchema
+    if (!rootName) return converted
+
+    components[rootName] = converted
+    return { $ref: `#/components/schemas/${rootName}` }
+  }
+}
+
+/** `/users/:id` -> `/users/{id}` */
+function toOpenAPIPath(path: string) {
+  return path.replace(/:([^/]+)/g, '{$1}')
+}
+
+function toParameters(
+  location: 'path' | 'query' | 'header' | 'cookie',
+  shape: Record<string, z.ZodType>,
+  toSchema: ReturnType<typeof createSchemaConverter>,
+) {
+  const objectSchema = toSchema(z.object(shape), 'input')
+  const properties = (objectSchema.properties ?? {}) as Record<string, unknown>
+  const required = (objectSchema.required ?? []) as string[]
+
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema,
+  }))
+}
+
+function toResponseHeaders(
+  headers: z.ZodObject,
+  toSchema: ReturnType<typeof createSchemaConverter>,
+) {
+  const objectSchema = toSchema(headers, 'output')
+  const properties = (objectSchema.properties ?? {}) as Record<string, unknown>
+  const required = (objectSchema.required ?? []) as string[]
+
+  return Object.fromEntries(
+    Object.entries(properties).map(([name, schema]) => [
+      name,
+      { required: required.includes(name), schema },
+    ]),
+  )
+}
+
+function toHttpResponseContent(
+  response: z.ZodType,
+  toSchema: ReturnType<typeof createSchemaConverter>,
+) {
+  if (response instanceof z.ZodVoid) return undefined
+  if (response instanceof z.ZodString || response instanceof z.ZodStringFormat)
+    return { 'text/plain': { schema: toSchema(response, 'output') } }
+
+  return { 'application/json': { schema: toSchema(response, 'output') } }
+}
+
+function toOperation(
+  operationId: string,
+  endpoint: Endpoint,
+  toSchema: ReturnType<typeof createSchemaConverter>,
+): JSONSchema {
+  const operation: JSONSchema = { operationId }
+  const input = endpoint.input as
+    | {
+        param?: Record<string, z.ZodType>
+        query?: Record<string, z.ZodType>
+        header?: Record<string, z.ZodType>
+        cookie?: Record<string, z.ZodType>
+        json?: z.ZodType
+        form?: Record<string, z.ZodType>
+      }
+    | undefined
+
+  // Path parameters default to strings unless the input declares a schema
+  const pathParams: Record<string, z.ZodType> = {}
+  for (const [, name] of endpoint.path.matchAll(/:([^/]+)/g)) {
+    pathParams[name] = input?.param?.[name] ?? z.string()
+  }
+
+  const parameters = [
+    ...toParameters('path', pathParams, toSchema),
+    ...(input?.query ? toParameters('query', input.query, toSchema) : []),
+    ...(input?.header ? toParameters('header', input.header, toSchema) : []),
+    ...(input?.cookie ? toParameters('cookie', input.cookie, toSchema) : []),
+  ]
+  if (parameters.length) operation.parameters = parameters
+
+  if (input?.json) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'application/json': { schema: toSchema(input.json, 'input') },
+      },
+    }
+  } else if (input?.form) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: toSchema(z.object(input.form), 'input'),
+        },
+      },
+    }
+  }
+
+  const responses: Record<string, JSONSchema> = {}
+
+  if (isHttpEndpoint(endpoint)) {
+    const content = toHttpResponseContent(endpoint.response, toSchema)
+    responses['200'] = content
+      ? { description: 'Successful response', content }
+      : { description: 'Successful response without content' }
+    if (endpoint.responseHeaders) {
+      responses['200'].headers = toResponseHeaders(
+        endpoint.responseHeaders,
+        toSchema,
+      )
+    }
+  } else if (isWebSocketEndpoint(endpoint)) {
+    responses['101'] = { description: 'Switching to the WebSocket protocol' }
+    operation['x-mock-dash-websocket'] = {
+      serverToClient: endpoint.response.serverToClient.map((schema) =>
+        toSchema(schema, 'output'),
+      ),
+      clientToServer: endpoint.response.clientToServer.map((schema) =>
+        toSchema(schema, 'input'),
+      ),
+    }
+  } else if (isSSEResponse(endpoint.response)) {
+    const events = Object.fromEntries(
+      Object.entries<z.ZodType>(endpoint.response.events).map(
+        ([event, schema]) => [event, toSchema(schema, 'output')],
+      ),
+    )
+    responses['200'] = {
+      description: 'Server-sent event stream',
+      content: { 'text/event-stream': { schema: { type: 'string' } } },
+    }
+    operation['x-mock-dash-stream'] = { type: 'sse', events }
+  } else if (isJSONStreamResponse(endpoint.response)) {
+    const item = toSchema(endpoint.response.itemSchema, 'output')
+    responses['200'] = {
+      description: 'Newline delimited JSON stream',
+      content: { 'application/x-ndjson': { schema: { type: 'string' } } },
+    }
+    operation['x-mock-dash-stream'] = { type: 'json', item }
+  } else if (isBinaryStreamResponse(endpoint.response)) {
+    responses['200'] = {
+      description: 'Binary stream',
+      content: {
+        [endpoint.response.contentType]: {
+          schema: { type: 'string', format: 'binary' },
+        },
+      },
+    }
+    operation['x-mock-dash-stream'] = { type: 'binary' }
+  }
+
+  for (const [status, schema] of Object.entries(endpoint.errors ?? {})) {
+    responses[status] = {
+      description: 'Error response',
+      content: { 'application/json': { schema: toSchema(schema, 'output') } },
+    }
+  }
+
+  operation.responses = responses
+  return operation
+}
+
+/**
+ * Creates an OpenAPI 3.1 document describing every endpoint of an api schema.
+ * Stream and WebSocket endpoints are described with `x-mock-dash-stream` and
+ * `x-mock-dash-websocket` extensions.
+ */
+export function toOpenAPI<T extends Record<string, unknown>>(
+  apiSchema: T,
+  options: ToOpenAPIOptions<T>,
+): OpenAPIDocument {
+  const components: Record<string, JSONSchema> = {}
+  const toSchema = createSchemaConverter(components)
+  const paths: OpenAPIDocument['paths'] = {}
+
+  for (const [operationId, endpoint] of Object.entries(apiSchema)) {
+    if (!(endpoint instanceof Endpoint)) continue
+
+    const path = toOpenAPIPath(buildEndpointPath(endpoint.path, options.alias))
+    paths[path] ??= {}
+    const existing = paths[path][endpoint.method]
+    if (existing) {
+      throw new Error(
+        `Cannot export ${endpoint.method.toUpperCase()} ${path} twice: "${existing.operationId}" and "${operationId}" share it`,
+      )
+    }
+    paths[path][endpoint.method] = toOperation(operationId, endpoint, toSchema)
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    components: { schemas: components },
+  }
+}
@@ -1,12 +1,18 @@
 import type { z } from 'zod'
+import { createRandom, type Random } from './random'
 import type { MaybePromise } from './types'
+import { zodToMock } from './zod-to-mock'
 
 type MaybeFn<T, C> =
   | (() => MaybePromise<T>)
   | ((args: C) => MaybePromise<T>)
   | T
 
-type ArrayElementDescriptor<ElementType extends z.ZodType, C> = {
+type ArrayElementDescriptor<
+  ElementType extends z.ZodType,
+  C,
+  P extends boolean = false,
+> = {
   length?: number
   min?: number
   max?: number
@@ -14,36 +20,109 @@ type ArrayElementDescriptor<ElementType extends z.ZodType, C> = {
     args: C & {
       index: number
     },
-  ) => MockStructure<ElementType, C>
+  ) => MockStructure<ElementType, C, P>
 }
 
-export type MockStructure<T extends z.ZodType, C> = T extends z.ZodArray<
+type MockObject<Shape, C, P extends boolean> = P extends true
+  ? {
+      [Key in keyof Shape]?: Shape[Key] extends z.ZodType
+        ? MockStructure<Shape[Key], C, P>
+        : Shape[Key]
+    }
+  : {
+      [Key in keyof Shape]: Shape[Key] extends z.ZodType
+        ? MockStructure<Shape[Key], C, P>
+        : Shape[Key]
+    }
+
+export type MockStructure<
+  T extends z.ZodType,
+  C,
+  P extends boolean = false,
+> = T extends z.ZodArray<
   // Array Type
   infer ElementType
 >
   ? ElementType extends z.ZodType
     ?
-        | MaybeFn<Array<MockStructure<ElementType, C>>, C>
-        | ArrayElementDescriptor<ElementType, C>
+        | MaybeFn<Array<MockStructure<ElementType, C, P>>, C>
+        | ArrayElementDescriptor<ElementType, C, P>
     : ElementType
-  : // Object Type
+  : // Object Type, properties may be left out inside `partialMock()`
     T extends z.ZodObject<infer Shape>
     ? MaybeFn<
-        | {
-            [Key in keyof Shape]: Shape[Key] extends z.ZodType
-              ? MockStructure<Shape[Key], C>
-              : Shape[Key]
-          }
-        | z.infer<T>,
+        | MockObject<Shape, C, P>
+        | z.infer<T>
+        | PartialMock<MockObject<Shape, C, true>>,
         C
       >
     : // Other Types
       MaybeFn<z.infer<T>, C>
 
-function getRandomInt(min: number, max: number): number {
-  min = Math.ceil(min)
-  max = Math.floor(max)
-  return Math.floor(Math.random() * (max - min + 1)) + min
+/** A mock object whose missing properties are generated from the schema */
+export class PartialMock<B = unknown> {
+  readonly mock: B
+
+  constructor(mock: B) {
+    this.mock = mock
+  }
+}
+
+/**
+ * Marks a mock object as partial: required properties it leaves out are
+ * generated from the schema, nested objects included.
+ *
+ * @example
+ * ```typescript
+ * apiSchema.getProduct.defineMock((ctx) =>
+ *   partialMock({ id: ctx.inputs.param.id }),
+ * )
+ * ```
+ */
+export function partialMock<B>(mock: B): PartialMock<B> {
+  return new PartialMock(mock)
+}
+
+export type CreateMockOptions = {
+  /** Picks the length of arrays described with `min` and `max` */
+  readonly random?: Random
+  /** The schema of the value, required properties missing from the mock are generated from it */
+  readonly schema?: z.core.$ZodType
+  /** Generates the missing properties, defaults to the built-in `zodToMock` */
+  readonly zodToMock?: (schema: z.ZodType, random: Random) => unknown
+}
+
+/** Skips the wrappers of a schema, e.g. `optional` or `default` */
+function unwrapSchema(
+  schema: z.core.$ZodType | undefined,
+): z.core.$ZodTypes | undefined {
+  const def = (schema as z.core.$ZodTypes | undefined)?._zod.def
+  switch (def?.type) {
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'prefault':
+    case 'catch':
+    case 'readonly':
+    case 'nonoptional':
+      return unwrapSchema(def.innerType)
+    case 'lazy':
+      return unwrapSchema(def.getter())
+    case 'pipe':
+      return unwrapSchema(def.in)
+    default:
+      return schema as z.core.$ZodTypes | undefined
+  }
+}
+
+function elementSchema(schema: z.core.$ZodType | undefined) {
+  const def = unwrapSchema(schema)?._zod.def
+  return def?.type === 'array' ? def.element : undefined
+}
+
+function objectShape(schema: z.core.$ZodType | undefined) {
+  const def = unwrapSchema(schema)?._zod.def
+  return def?.type === 'object' ? def.shape : undefined
 }
 
 /**
@@ -52,12 +131,15 @@ function getRandomInt(min: number, max: number): number {
  * handling all Promises along the way.
  * @param mockStructure The mock structure containing functions or values.
  * @param context The context object to be passed to mock functions.
+ * @param options The random generator and the schema of the value.
  * @returns A Promise that resolves to the final data conforming to the inferred type T.
  */
 export async function createMock<T extends z.ZodType, C>(
   mockStructure: MockStructure<T, C>,
   context: C,
+  options: CreateMockOptions = {},
 ): Promise<z.infer<T>> {
+  const random = options.random ?? createRandom()
   let currentValue: unknown
 
   // Resolve the current level's MaybeFn.
@@ -67,6 +149,11 @@ export async function createMock<T extends z.ZodType, C>(
     currentValue = mockStructure
   }
 
+  // Partial mocks are resolved like their object, missing properties are generated below
+  if (currentValue instanceof PartialMock) {
+    return createMock(currentValue.mock, context, options)
+  }
+
   // If the resolved value is null, undefined, or not an object,
   if (currentValue === null || typeof currentValue !== 'object') {
     return currentValue as z.infer<T>
@@ -84,14 +171,18 @@ export async function createMock<T extends z.ZodType, C>(
         typeof config.min === 'number' && config.min >= 0 ? config.min : 1
       const max =
         typeof config.max === 'number' && config.max >= min ? config.max : 5
-      len = getRandomInt(min, max)
+      len = random.int(min, max)
     }
 
     const arrayPromises: Promise<any>[] = []
 
     for (let index = 0; index < len; index++) {
       const mockItem = config.faker({ ...context, index })
-      const itemPromise = createMock(mockItem, context)
+      const itemPromise = createMock(mockItem, context, {
+        ...options,
+        random,
+        schema: elementSchema(options.schema),
+      })
       arrayPromises.push(itemPromise)
     }
 
@@ -102,7 +193,11 @@ export async function createMock<T extends z.ZodType, C>(
   if (Array.isArray(currentValue)) {
     const mockArray = currentValue as Array<MockStructure<z.ZodType, C>>
     const arrayPromises = mockArray.map((elementMockType) => {
-      return createMock(elementMockType, context)
+      return createMock(elementMockType, context, {
+        ...options,
+        random,
+        schema: elementSchema(options.schema),
+      })
     })
 
     return (await Promise.all(arrayPromises)) as z.infer<T>
@@ -115,6 +210,7 @@ export async function createMock<T extends z.ZodType, C>(
       MockStructure<z.ZodType, C>
     >
     const result: Record<string, any> = {}
+    const shape = objectShape(options.schema)
 
     const promises: Promise<any>[] = []
     const keys: string[] = []
@@ -122,7 +218,11 @@ export async function createMock<T extends z.ZodType, C>(
     for (const key in mockObject) {
       if (Object.hasOwn(mockObject, key)) {
         const keyMockType = mockObject[key]
-        const recursiveResult = createMock(keyMockType, context)
+        const recursiveResult = createMock(keyMockType, context, {
+          ...options,
+          random,
+          schema: shape?.[key],
+        })
         promises.push(recursiveResult)
         keys.push(key)
       }
@@ -134,6 +234,13 @@ export async function createMock<T extends z.ZodType, C>(
       result[keys[index]] = value
     })
 
+    const generate = options.zodToMock ?? zodToMock
+    for (const [key, schema] of Object.entries(shape ?? {})) {
+      if (!(key in result) && schema._zod.optin !== 'optional') {
+        result[key] = generate(schema as z.ZodType, random)
+      }
+    }
+
     return result as z.infer<T>
   }
 
@@ -9,28 +9,37 @@ import type { z } from 'zod'
 export class MockError extends Error {
   /** HTTP status code to return in the mock response */
   readonly status: ContentfulStatusCode
+  /** JSON body of the mock response, the message is sent as text when omitted */
+  readonly body?: unknown
 
-  constructor(message: string, status: ContentfulStatusCode) {
+  constructor(
+    message: string,
+    status: ContentfulStatusCode,
+    options?: { body?: unknown },
+  ) {
     super(message)
     this.name = 'MockError'
     this.status = status
+    this.body = options?.body
   }
 }
 
 /**
  * Base error representing a completed HTTP response with non-2xx status.
  * Provides response metadata and (parsed or raw) body for higher-level handling.
+ * The body is typed when the endpoint declares an `errors` schema for the status.
  */
-export class ApiError extends Error {
-  public readonly status: number
-  public readonly body?: unknown
+export class ApiError<B = unknown, S extends number = number> extends Error {
+  public readonly status: S
+  /** Undefined when the response had no body that could be read */
+  public readonly body: B | undefined
   public readonly url?: string
   public readonly method?: string
 
   constructor(
     message: string,
-    status: number,
-    options?: { body?: unknown; url?: string; method?: string; cause?: Error },
+    status: S,
+    options?: { body?: B; url?: string; method?: string; cause?: Error },
   ) {
     super(message, { cause: options?.cause })
     this.name = 'ApiError'
@@ -129,6 +138,22 @@ export class NetworkError extends Error {
 
 export type Errors = ApiError | ValidationError | NetworkError
 
+// An ApiError whose body was parsed by the error schema of its status
+type ParsedApiError<B, S extends number> = ApiError<B, S> & {
+  readonly body: B
+}
+
+/**
+ * Union of the typed `ApiError`s an endpoint can produce, one per status code
+ * declared in its `errors` schemas.
+ */
+export type TypedApiError<E> = {
+  [S in keyof E & number]: ParsedApiError<
+    E[S] extends z.ZodType ? z.infer<E[S]> : unknown,
+    S
+  >
+}[keyof E & number]
+
 /**
  * Type guard for MockError thrown only from mock generation code paths.
  */
@@ -141,6 +166,28 @@ export function isMockError(error: unknown): error is MockError {
 export function isApiError(error: unknown): error is ApiError {
   return error instanceof ApiError
 }
+type ApiErrorBody<E, S extends number> = Extract<
+  E,
+  ApiError<any, S>
+> extends ApiError<infer B, S>
+  ? B
+  : unknown
+
+/**
+ * Type guard for an ApiError with the given status. Narrows `body` to the
+ * schema declared in the endpoint's `errors` for that status.
+ */
+export function isApiErrorStatus<E, S extends number>(
+  error: E,
+  status: S,
+): error is Exclude<Extract<E, ApiError>, ValidationError> &
+  ParsedApiError<ApiErrorBody<E, S>, S> {
+  return (
+    error instanceof ApiError &&
+    !(error instanceof ValidationError) &&
+    error.status === status
+  )
+}
 /**
  * Type guard for ValidationError (request or response schema failures).
  */
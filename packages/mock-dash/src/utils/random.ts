@@ -0,0 +1,42 @@
+import { hashString } from './hash'
+
+/** A pseudo-random number generator, seeded for reproducible mock data */
+export type Random = {
+  /** A float between 0 (included) and 1 (excluded) */
+  next(): number
+  /** An integer between `min` and `max`, both included */
+  int(min: number, max: number): number
+  /** One of `items` */
+  pick<T>(items: readonly T[]): T
+}
+
+/**
+ * Creates a mulberry32 generator. Equal seeds produce equal sequences; without
+ * a seed the sequence is different every time.
+ */
+export function createRandom(seed?: number | string): Random {
+  let state =
+    seed === undefined
+      ? Math.floor(Math.random() * 2 ** 32)
+      : hashString(String(seed))
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+
+  const int = (min: number, max: number) => {
+    min = Math.ceil(min)
+    max = Math.floor(max)
+    return Math.floor(next() * (max - min + 1)) + min
+  }
+
+  return {
+    next,
+    int,
+    pick: (items) => items[int(0, items.length - 1)],
+  }
+}
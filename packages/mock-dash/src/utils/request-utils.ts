@@ -83,3 +83,31 @@ export function buildFormData(data: Record<string, unknown>): FormData {
 
   return formData
 }
+
+function toHeaderValue(value: unknown) {
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/** Converts typed header inputs to header values, skipping empty ones */
+export function serializeHeaders(
+  headers: Record<string, unknown>,
+): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) continue
+    result[name] = Array.isArray(value)
+      ? value.map(toHeaderValue).join(', ')
+      : toHeaderValue(value)
+  }
+  return result
+}
+
+/** Builds the value of a `Cookie` header, skipping empty cookies */
+export function serializeCookies(cookies: Record<string, unknown>): string {
+  return Object.entries(cookies)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(
+      ([name, value]) => `${name}=${encodeURIComponent(toHeaderValue(value))}`,
+    )
+    .join('; ')
+}
@@ -0,0 +1,16 @@
+/**
+ * JSON with sorted object keys and without `undefined` values, so equal
+ * objects always produce the same string. `undefined` is serialized as `{}`.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value ?? {}, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .filter((k) => v[k] !== undefined)
+            .sort()
+            .map((k) => [k, v[k]]),
+        )
+      : v,
+  )
+}
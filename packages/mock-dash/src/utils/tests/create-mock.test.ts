@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
-import { createMock, type MockStructure } from '../create-mock'
+import { createMock, type MockStructure, partialMock } from '../create-mock'
+import { createRandom } from '../random'
 
 // --- Setup Test Types and Context ---
 
@@ -245,7 +246,7 @@ describe('createMock', () => {
         },
       }
 
-      // Note: Since getRandomInt is not mocked, this test relies on the function working correctly,
+      // Note: Since the random generator is not seeded, this test relies on it working correctly,
       // but we ensure the resulting length is constrained by the bounds.
       const result = await createMock<
         typeof FakerArraySchema,
@@ -258,6 +259,37 @@ describe('createMock', () => {
       expect(() => FakerArraySchema.parse(result)).not.toThrow()
     })
 
+    it('should pick the same lengths with equally seeded generators', async () => {
+      const mockStructure: MockStructure<
+        typeof FakerArraySchema,
+        InputContextMapper
+      > = {
+        userId: 'user-c',
+        posts: {
+          min: 1,
+          max: 100,
+          faker: ({ index }) => ({
+            postId: index,
+            title: 'T',
+            details: { sourceId: 'A' },
+          }),
+        },
+      }
+
+      const lengths = await Promise.all(
+        [1, 1, 2].map(async (seed) => {
+          const result = await createMock<
+            typeof FakerArraySchema,
+            InputContextMapper
+          >(mockStructure, defaultContext, { random: createRandom(seed) })
+          return result.posts.length
+        }),
+      )
+
+      expect(lengths[0]).toBe(lengths[1])
+      expect(lengths[0]).not.toBe(lengths[2])
+    })
+
     it('should recursively resolve nested Tmock structures returned by faker', async () => {
       const mockStructure: MockStructure<
         typeof FakerArraySchema,
@@ -298,4 +330,59 @@ describe('createMock', () => {
       expect(() => FakerArraySchema.parse(result)).not.toThrow()
     })
   })
+
+  describe('Schema-aware mocks', () => {
+    const UserSchema = z.object({
+      id: z.string(),
+      name: z.string().meta({ mock: 'person.fullName' }),
+      nickname: z.string().optional(),
+      address: z.object({
+        city: z.string(),
+        zip: z.string().meta({ mock: 'location.zipCode' }),
+      }),
+    })
+    const UsersSchema = z.array(UserSchema)
+
+    it('should generate required properties missing from the mock', async () => {
+      const result = await createMock<typeof UserSchema, InputContextMapper>(
+        partialMock({ id: 'user-1', address: { city: 'Oslo' } }),
+        defaultContext,
+        { schema: UserSchema },
+      )
+
+      expect(result.id).toBe('user-1')
+      expect(result.name).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+$/)
+      expect(result).not.toHaveProperty('nickname')
+      expect(result.address.city).toBe('Oslo')
+      expect(result.address.zip).toMatch(/^\d{5}$/)
+      expect(() => UserSchema.parse(result)).not.toThrow()
+    })
+
+    it('should complete the items of arrays', async () => {
+      const result = await createMock<typeof UsersSchema, InputContextMapper>(
+        {
+          length: 2,
+          faker: ({ index }) => partialMock({ id: `user-${index}` }),
+        },
+        defaultContext,
+        { schema: UsersSchema },
+      )
+
+      expect(result.map((user) => user.id)).toEqual(['user-0', 'user-1'])
+      expect(() => UsersSchema.parse(result)).not.toThrow()
+    })
+
+    it('should generate the missing properties with zodToMock', async () => {
+      const zodToMock = vi.fn(() => 'generated')
+
+      const result = await createMock<typeof UserSchema, InputContextMapper>(
+        partialMock({ id: 'user-1', address: { city: 'Oslo', zip: '0150' } }),
+        defaultContext,
+        { schema: UserSchema, zodToMock },
+      )
+
+      expect(result.name).toBe('generated')
+      expect(zodToMock).toHaveBeenCalledTimes(1)
+    })
+  })
 })
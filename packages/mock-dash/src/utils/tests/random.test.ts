@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { createRandom } from '../random'
+
+function sequence(seed?: number | string) {
+  const random = createRandom(seed)
+  return Array.from({ length: 5 }, () => random.next())
+}
+
+describe('createRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(sequence(42)).toEqual(sequence(42))
+    expect(sequence('screenshots')).toEqual(sequence('screenshots'))
+  })
+
+  it('should produce different sequences for different seeds', () => {
+    expect(sequence(1)).not.toEqual(sequence(2))
+    expect(sequence()).not.toEqual(sequence())
+  })
+
+  it('should produce floats between 0 and 1', () => {
+    for (const value of sequence(7)) {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('should produce integers within the bounds', () => {
+    const random = createRandom(3)
+    const values = new Set(Array.from({ length: 200 }, () => random.int(2, 4)))
+
+    expect([...values].sort()).toEqual([2, 3, 4])
+  })
+
+  it('should pick items of the list', () => {
+    const random = createRandom(3)
+    const items = ['a', 'b', 'c']
+
+    expect(items).toContain(random.pick(items))
+  })
+})
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest'
+import z from 'zod'
+import { createRandom } from '../random'
+import { mockHint, zodToMock } from '../zod-to-mock'
+
+// Generates many values, so rare branches are covered as well
+function expectValid(schema: z.ZodType, runs = 50) {
+  const random = createRandom('valid')
+  for (let i = 0; i < runs; i++) {
+    const value = zodToMock(schema, random)
+    const result = schema.safeParse(value)
+    const message = JSON.stringify(value, (_key, item) =>
+      typeof item === 'bigint' ? String(item) : item,
+    )
+    expect(result.error?.issues, message).toBeUndefined()
+  }
+}
+
+describe('zodToMock', () => {
+  it('should generate primitives', () => {
+    expectValid(z.string())
+    expectValid(z.number())
+    expectValid(z.int())
+    expectValid(z.boolean())
+    expectValid(z.bigint())
+    expectValid(z.date())
+    expectValid(z.null())
+    expectValid(z.undefined())
+    expectValid(z.any())
+  })
+
+  it('should generate string formats', () => {
+    for (const schema of [
+      z.email(),
+      z.uuid(),
+      z.guid(),
+      z.url(),
+      z.iso.datetime(),
+      z.iso.date(),
+      z.iso.time(),
+      z.iso.duration(),
+      z.ipv4(),
+      z.ipv6(),
+      z.cidrv4(),
+      z.cidrv6(),
+      z.nanoid(),
+      z.cuid(),
+      z.cuid2(),
+      z.ulid(),
+      z.xid(),
+      z.ksuid(),
+      z.emoji(),
+      z.base64(),
+      z.base64url(),
+      z.e164(),
+      z.jwt(),
+      z.mac(),
+      z.hex(),
+      z.string().email(),
+    ]) {
+      expectValid(schema, 10)
+    }
+  })
+
+  it('should respect string checks', () => {
+    expectValid(z.string().min(20))
+    expectValid(z.string().max(2))
+    expectValid(z.string().length(7))
+    expectValid(z.string().startsWith('usr_').endsWith('!').includes('-'))
+    expectValid(z.string().lowercase())
+    expectValid(z.string().uppercase())
+    expectValid(z.object({ email: z.string().max(5) }))
+  })
+
+  it('should respect number checks', () => {
+    expectValid(z.number().min(5000))
+    expectValid(z.number().max(-10))
+    expectValid(z.number().gt(3).lt(4))
+    expectValid(z.number().multipleOf(0.25).min(1).max(2))
+    expectValid(z.int().positive())
+    expectValid(z.bigint().min(5000n))
+    expectValid(z.number().nonnegative().max(1))
+    expectValid(z.object({ age: z.int().min(100).max(120) }))
+  })
+
+  it('should generate objects and collections', () => {
+    expectValid(
+      z.object({
+        tags: z.array(z.string()).min(2).max(3),
+        pair: z.tuple([z.string(), z.number()]),
+        scores: z.record(z.string(), z.number()),
+        byRole: z.record(z.enum(['admin', 'user']), z.boolean()),
+        ids: z.set(z.uuid()),
+        lookup: z.map(z.string(), z.number()),
+      }),
+    )
+    expectValid(z.array(z.number()).length(4))
+    expectValid(z.array(z.string()).nonempty())
+  })
+
+  it('should generate unions, enums and literals', () => {
+    expectValid(z.union([z.string(), z.number()]))
+    expectValid(
+      z.discriminatedUnion('type', [
+        z.object({ type: z.literal('circle'), radius: z.number() }),
+        z.object({ type: z.literal('square'), side: z.number() }),
+      ]),
+    )
+    expectValid(z.enum(['draft', 'published']))
+    expectValid(z.literal(['a', 1, true]))
+    expectValid(z.templateLiteral(['user-', z.number()]))
+    expectValid(
+      z.intersection(
+        z.object({ id: z.string() }),
+        z.object({ name: z.string() }),
+      ),
+    )
+  })
+
+  it('should generate wrapped schemas', () => {
+    expectValid(
+      z.object({
+        optional: z.string().optional(),
+        nullable: z.number().nullable(),
+        withDefault: z.string().default('x'),
+        withCatch: z.number().catch(0),
+        readonly: z.object({ a: z.string() }).readonly(),
+        coerced: z.coerce.number().min(10),
+        piped: z.string().transform((value) => value.length),
+        preprocessed: z.preprocess((value) => value, z.email()),
+      }),
+    )
+  })
+
+  it('should always generate optional and nullable values near the root', () => {
+    const value = zodToMock(
+      z.object({ a: z.string().optional(), b: z.string().nullable() }),
+    )
+
+    expect(value.a).toBeTypeOf('string')
+    expect(value.b).toBeTypeOf('string')
+  })
+
+  it('should stop recursive schemas', () => {
+    const category = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(category)
+      },
+    })
+    type Tree = { value: number; next?: Tree | null }
+    const list: z.ZodType<Tree> = z.lazy(() =>
+      z.object({ value: z.number(), next: list.nullable().optional() }),
+    )
+
+    expectValid(category, 10)
+    expectValid(list, 10)
+  })
+
+  it('should use realistic values for common property names', () => {
+    const value = zodToMock(
+      z.object({
+        id: z.string(),
+        userId: z.string(),
+        email: z.string(),
+        firstName: z.string(),
+        createdAt: z.string(),
+        avatarUrl: z.string(),
+        price: z.number(),
+        age: z.number(),
+        page: z.number(),
+      }),
+      createRandom(1),
+    )
+
+    expect(value.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(value.userId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(value.email).toMatch(/^[a-z.]+@example\.com$/)
+    expect(value.firstName).toMatch(/^[A-Z][a-z]+$/)
+    expect(new Date(value.createdAt).toISOString()).toBe(value.createdAt)
+    expect(value.avatarUrl).toMatch(/^https:\/\//)
+    expect(value.price).toBeGreaterThanOrEqual(1)
+    expect(value.price).toBeLessThanOrEqual(1000)
+    expect(value.age).toBeGreaterThanOrEqual(18)
+    expect(value.age).toBeLessThanOrEqual(90)
+    expect(Number.isInteger(value.page)).toBe(true)
+  })
+
+  it('should generate the same value for equally seeded generators', () => {
+    const schema = z.object({
+      name: z.string(),
+      items: z.array(z.object({ id: z.uuid(), count: z.int() })),
+    })
+
+    expect(zodToMock(schema, createRandom(5))).toEqual(
+      zodToMock(schema, createRandom(5)),
+    )
+    expect(zodToMock(schema, createRandom(5))).not.toEqual(
+      zodToMock(schema, createRandom(6)),
+    )
+  })
+
+  describe('mock hints', () => {
+    it('should use named hints from the schema metadata', () => {
+      const value = zodToMock(
+        z.object({
+          a: z.string().meta({ mock: 'person.firstName' }),
+          b: z.number().meta({ mock: 'commerce.price' }),
+          c: z.string().optional().meta({ mock: 'internet.email' }),
+          d: z.array(z.string()).min(2).meta({ mock: 'location.city' }),
+        }),
+        createRandom(1),
+      )
+
+      expect(value.a).toMatch(/^[A-Z][a-z]+$/)
+      expect(value.b).toBeGreaterThanOrEqual(1)
+      expect(value.b).toBeLessThanOrEqual(1000)
+      expect(value.c).toMatch(/@example\.com$/)
+      for (const city of value.d) expect(city).toMatch(/^[A-Z][a-z]+$/)
+    })
+
+    it('should prefer hints over property names', () => {
+      const value = zodToMock(
+        z.object({ name: z.string().meta({ mock: 'commerce.productName' }) }),
+        createRandom(1),
+      )
+
+      expect(value.name).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+$/)
+      expect(value.name.split(' ')[1]).toMatch(
+        /^(Chair|Keyboard|Lamp|Backpack|Monitor)$/,
+      )
+    })
+
+    it('should call function hints', () => {
+      const plan = mockHint(z.enum(['free', 'pro', 'team']), (random) =>
+        random.pick(['pro', 'team'] as const),
+      )
+      const values = Array.from({ length: 20 }, () =>
+        zodToMock(z.object({ plan }), createRandom()),
+      )
+
+      for (const value of values) expect(['pro', 'team']).toContain(value.plan)
+    })
+
+    it('should keep the constraints of the schema', () => {
+      expectValid(
+        z.object({
+          short: z.string().max(3).meta({ mock: 'lorem.sentence' }),
+          young: z.int().max(10).meta({ mock: 'person.age' }),
+        }),
+      )
+    })
+
+    it('should keep other metadata', () => {
+      const schema = mockHint(
+        z.string().meta({ description: 'Display name' }),
+        'person.fullName',
+      )
+
+      expect(schema.meta()).toEqual({
+        description: 'Display name',
+        mock: 'person.fullName',
+      })
+    })
+  })
+})
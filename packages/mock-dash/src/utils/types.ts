@@ -48,3 +48,9 @@ export type MaybePromise<T> = T | Promise<T>
 export type Prettify<T> = {
   [K in keyof T]: T[K]
 } & {}
+
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T
@@ -0,0 +1,517 @@
+import z from 'zod'
+import { createRandom, type Random } from './random'
+
+type Context = {
+  readonly random: Random
+  /** Nesting of objects and lazy schemas, limits recursive schemas */
+  readonly depth: number
+  /** Name of the property the value is generated for */
+  readonly key?: string
+  /** Hint of a wrapping schema, e.g. `z.string().optional().meta({ mock })` */
+  readonly hint?: MockHint
+}
+
+// Deeper values only get what their schema requires
+const maxDepth = 4
+
+const firstNames = ['Ada', 'Alan', 'Grace', 'Linus', 'Margaret', 'Dennis']
+const lastNames = ['Lovelace', 'Turing', 'Hopper', 'Torvalds', 'Hamilton']
+const cities = ['Amsterdam', 'Berlin', 'Lisbon', 'Oslo', 'Tokyo', 'Toronto']
+const countries = ['Canada', 'Germany', 'Japan', 'Norway', 'Portugal']
+const streets = ['Main Street', 'Elm Street', 'Park Avenue', 'Oak Lane']
+const colors = ['red', 'green', 'blue', 'orange', 'purple', 'teal']
+const productAdjectives = ['Ergonomic', 'Rustic', 'Sleek', 'Compact']
+const products = ['Chair', 'Keyboard', 'Lamp', 'Backpack', 'Monitor']
+const words = [
+  'lorem',
+  'ipsum',
+  'dolor',
+  'sit',
+  'amet',
+  'consectetur',
+  'adipiscing',
+  'elit',
+  'sed',
+  'tempor',
+]
+
+const alphanumeric =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+
+function chars(random: Random, alphabet: string, length: number) {
+  let result = ''
+  for (let i = 0; i < length; i++) result += random.pick([...alphabet])
+  return result
+}
+
+function sentence(random: Random, count: number) {
+  const text = Array.from({ length: count }, () => random.pick(words)).join(' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function isoDate(random: Random) {
+  // Between 2020 and 2030
+  return new Date(1577836800000 + random.int(0, 315360000) * 1000)
+}
+
+function base64url(value: string) {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function uuid(random: Random) {
+  const hex = chars(random, '0123456789abcdef', 32)
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${random.pick([...'89ab'])}${hex.slice(17, 20)}`,
+    hex.slice(20),
+  ].join('-')
+}
+
+const stringFormats: Record<string, (random: Random) => string> = {
+  email: (random) =>
+    `${random.pick(firstNames)}.${random.pick(lastNames)}@example.com`.toLowerCase(),
+  url: (random) => `https://example.com/${random.pick(words)}`,
+  emoji: (random) => random.pick(['😀', '🎉', '🚀', '✨']),
+  uuid,
+  guid: uuid,
+  nanoid: (random) => chars(random, `${alphanumeric}_-`, 21),
+  cuid: (random) =>
+    `c${chars(random, 'abcdefghijklmnopqrstuvwxyz0123456789', 24)}`,
+  cuid2: (random) =>
+    `${chars(random, 'abcdefghijklmnopqrstuvwxyz', 1)}${chars(random, 'abcdefghijklmnopqrstuvwxyz0123456789', 23)}`,
+  ulid: (random) =>
+    `${chars(random, '01234567', 1)}${chars(random, '0123456789ABCDEFGHJKMNPQRSTVWXYZ', 25)}`,
+  xid: (random) => chars(random, '0123456789abcdefghijklmnopqrstuv', 20),
+  ksuid: (random) => chars(random, alphanumeric, 27),
+  datetime: (random) => isoDate(random).toISOString(),
+  date: (random) => isoDate(random).toISOString().slice(0, 10),
+  time: (random) => isoDate(random).toISOString().slice(11, 19),
+  duration: (random) => `P${random.int(1, 30)}D`,
+  ipv4: (random) => `192.168.${random.int(0, 255)}.${random.int(1, 254)}`,
+  ipv6: (random) => `fe80::${chars(random, '0123456789abcdef', 4)}`,
+  cidrv4: (random) => `10.${random.int(0, 255)}.0.0/16`,
+  cidrv6: () => 'fe80::/10',
+  mac: (random) =>
+    Array.from({ length: 6 }, () => chars(random, '0123456789abcdef', 2)).join(
+      ':',
+    ),
+  hex: (random) => chars(random, '0123456789abcdef', 16),
+  base64: (random) => btoa(random.pick(words)),
+  base64url: (random) => base64url(random.pick(words)),
+  e164: (random) => `+1555${chars(random, '0123456789', 7)}`,
+  json_string: (random) => JSON.stringify({ value: random.pick(words) }),
+  jwt: (random) =>
+    [
+      base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' })),
+      base64url(JSON.stringify({ sub: String(random.int(1, 9999)) })),
+      base64url('signature'),
+    ].join('.'),
+}
+
+/** Named generators for strings, usable as mock hints */
+const stringHints = {
+  'person.firstName': (random) => random.pick(firstNames),
+  'person.lastName': (random) => random.pick(lastNames),
+  'person.fullName': (random) =>
+    `${random.pick(firstNames)} ${random.pick(lastNames)}`,
+  'internet.email': stringFormats.email,
+  'internet.url': stringFormats.url,
+  'image.avatar': (random) =>
+    `https://picsum.photos/seed/${random.int(1, 1000)}/200`,
+  'phone.number': stringFormats.e164,
+  'location.city': (random) => random.pick(cities),
+  'location.country': (random) => random.pick(countries),
+  'location.street': (random) =>
+    `${random.int(1, 200)} ${random.pick(streets)}`,
+  'location.zipCode': (random) => String(random.int(10000, 99999)),
+  'commerce.productName': (random) =>
+    `${random.pick(productAdjectives)} ${random.pick(products)}`,
+  'color.name': (random) => random.pick(colors),
+  'string.uuid': uuid,
+  'date.iso': stringFormats.datetime,
+  'lorem.word': (random) => random.pick(words),
+  'lorem.sentence': (random) => `${sentence(random, 8)}.`,
+  'lorem.title': (random) => sentence(random, 3),
+} satisfies Record<string, (random: Random) => string>
+
+/** Named ranges for numbers and whether they are integers, usable as mock hints */
+const numberHints = {
+  'commerce.price': [1, 1000, false],
+  'person.age': [18, 90, true],
+  'number.rating': [1, 5, true],
+  'number.count': [0, 100, true],
+  'date.year': [1990, 2030, true],
+  'location.latitude': [-90, 90, false],
+  'location.longitude': [-180, 180, false],
+} satisfies Record<string, [number, number, boolean]>
+
+export type MockHintName = keyof typeof stringHints | keyof typeof numberHints
+
+/**
+ * Tells the generator what a schema holds: a named generator like
+ * `'person.firstName'`, or a function creating the value.
+ */
+export type MockHint<T = unknown> = MockHintName | ((random: Random) => T)
+
+declare module 'zod' {
+  interface GlobalMeta {
+    /** Used by `zodToMock` and mocks returning partial objects */
+    mock?: MockHint
+  }
+}
+
+/** Hints for common property names, like `email` or `first_name` */
+const nameHints: Array<[RegExp, MockHintName]> = [
+  [/e-?mail/i, 'internet.email'],
+  [/^(first|given)[_-]?name$/i, 'person.firstName'],
+  [/^(last|family|sur)[_-]?name$/i, 'person.lastName'],
+  [/^(full[_-]?)?name$|user[_-]?name|author/i, 'person.fullName'],
+  [/phone|mobile/i, 'phone.number'],
+  [/city/i, 'location.city'],
+  [/country/i, 'location.country'],
+  [/street|address/i, 'location.street'],
+  [/zip|postal/i, 'location.zipCode'],
+  [/avatar|image|photo|picture|thumbnail/i, 'image.avatar'],
+  [/url|website|link|href/i, 'internet.url'],
+  [/colou?r/i, 'color.name'],
+  [/^(id|uuid|guid)$|[a-z0-9](Id|ID)$|[_-]id$/, 'string.uuid'],
+  [
+    /[a-z]At$|[_-]at$|(date|time|timestamp)$|(Date|Time|Timestamp)$/,
+    'date.iso',
+  ],
+  [/title|label|subject/i, 'lorem.title'],
+  [
+    /description|summary|bio|body|content|message|text|comment/i,
+    'lorem.sentence',
+  ],
+  [/price|amount|total|cost|balance/i, 'commerce.price'],
+  [/^age$|[_-]age$|[a-z]Age$/, 'person.age'],
+  [/rating|stars/i, 'number.rating'],
+  [/year/i, 'date.year'],
+  [/^lat(itude)?$/i, 'location.latitude'],
+  [/^(lng|lon|long|longitude)$/i, 'location.longitude'],
+  [/count|quantity|stock|size/i, 'number.count'],
+]
+
+/** The named hint of the value, from the schema or the property name */
+function resolveHint<H extends Record<string, unknown>>(
+  hints: H,
+  context: Context,
+): H[keyof H] | undefined {
+  if (typeof context.hint === 'string' && context.hint in hints) {
+    return hints[context.hint as keyof H]
+  }
+  const key = context.key ?? ''
+  const name = nameHints.find(
+    ([pattern, hint]) => hint in hints && pattern.test(key),
+  )?.[1]
+  return name && hints[name as keyof H]
+}
+
+type StringCheck = {
+  format?: string
+  prefix?: string
+  suffix?: string
+  includes?: string
+}
+
+function generateString(schema: z.core.$ZodString, context: Context) {
+  const { random } = context
+  const bag = schema._zod.bag as {
+    format?: string
+    minimum?: number
+    maximum?: number
+    length?: number
+  }
+  const checks = (schema._zod.def.checks ?? []).map(
+    (check) => check._zod.def as StringCheck,
+  )
+  const formats = new Set(checks.map((check) => check.format))
+
+  const generateFormat = bag.format && stringFormats[bag.format]
+  if (generateFormat) return generateFormat(random)
+
+  const hint = resolveHint(stringHints, context)
+  let value = hint
+    ? hint(random)
+    : sentence(random, random.int(1, 3)).toLowerCase()
+
+  const prefix = checks.find((check) => check.prefix)?.prefix ?? ''
+  const suffix = checks.find((check) => check.suffix)?.suffix ?? ''
+  const includes = checks.find((check) => check.includes)?.includes ?? ''
+
+  const min = bag.length ?? bag.minimum ?? 0
+  const max = bag.length ?? bag.maximum ?? Number.POSITIVE_INFINITY
+  const fixed = prefix.length + includes.length + suffix.length
+  const bodyMax = Math.max(max - fixed, 0)
+
+  value = value.slice(0, bodyMax)
+  while (value.length + fixed < min) {
+    value += chars(random, 'abcdefghijklmnopqrstuvwxyz', 1)
+  }
+  value = `${prefix}${includes}${value}${suffix}`
+
+  if (formats.has('lowercase')) value = value.toLowerCase()
+  if (formats.has('uppercase')) value = value.toUpperCase()
+  return value
+}
+
+function generateNumber(schema: z.core.$ZodNumber, context: Context) {
+  const { random } = context
+  const bag = schema._zod.bag as {
+    format?: string
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number
+    exclusiveMaximum?: number
+    multipleOf?: number
+  }
+
+  const hint = resolveHint(numberHints, context)
+  const bounds = (step: number) => [
+    Math.max(
+      bag.minimum ?? Number.NEGATIVE_INFINITY,
+      bag.exclusiveMinimum === undefined
+        ? Number.NEGATIVE_INFINITY
+        : bag.exclusiveMinimum + step,
+    ),
+    Math.min(
+      bag.maximum ?? Number.POSITIVE_INFINITY,
+      bag.exclusiveMaximum === undefined
+        ? Number.POSITIVE_INFINITY
+        : bag.exclusiveMaximum - step,
+    ),
+  ]
+
+  const isInt = !!bag.format?.includes('int') || (hint?.[2] ?? true)
+  let step = bag.multipleOf ?? (isInt ? 1 : 0.01)
+  let [lower, upper] = bounds(step)
+
+  // Integers are only preferred, fall back to decimals when none fits
+  if (
+    !bag.multipleOf &&
+    !bag.format?.includes('int') &&
+    Math.ceil(lower / step) > Math.floor(upper / step)
+  ) {
+    step = 0.01
+    ;[lower, upper] = bounds(step)
+  }
+
+  let [min, max] = hint ?? [0, 1000]
+  if (min > upper || max < lower) {
+    // The hint does not fit the schema, stay near its bounds
+    min = Number.isFinite(lower) ? lower : upper - 1000
+    max = Number.isFinite(upper) ? upper : lower + 1000
+  } else {
+    min = Math.max(min, lower)
+    max = Math.min(max, upper)
+  }
+
+  const multiple = random.int(Math.ceil(min / step), Math.floor(max / step))
+  // Rounded to the decimals of the step, `0.1 * 3` is not `0.3`
+  const decimals = (String(step).split('.')[1] ?? '').length
+  return Number((multiple * step).toFixed(decimals))
+}
+
+function arrayLength(bag: Record<string, unknown>, context: Context) {
+  if (typeof bag.length === 'number') return bag.length
+  const min = typeof bag.minimum === 'number' ? bag.minimum : 0
+  if (context.depth >= maxDepth) return min
+
+  const max = typeof bag.maximum === 'number' ? bag.maximum : min + 4
+  return context.random.int(Math.max(min, Math.min(1, max)), max)
+}
+
+function generate(schema: z.core.$ZodType, parentContext: Context): unknown {
+  const hint = getMockHint(schema) ?? parentContext.hint
+  if (typeof hint === 'function') return hint(parentContext.random)
+
+  const context = { ...parentContext, hint }
+  const { random } = context
+  const def = (schema as z.core.$ZodTypes)._zod.def
+  // Properties of objects get their own hints
+  const nested = { ...context, depth: context.depth + 1, hint: undefined }
+
+  switch (def.type) {
+    case 'string':
+      return generateString(schema as z.core.$ZodString, context)
+    case 'number':
+      return generateNumber(schema as z.core.$ZodNumber, context)
+    case 'bigint': {
+      const bag = schema._zod.bag as { minimum?: bigint; maximum?: bigint }
+      const min = bag.minimum ?? (bag.maximum ?? 1000n) - 1000n
+      const max = bag.maximum ?? min + 1000n
+      return min + BigInt(random.int(0, Number(max - min)))
+    }
+    case 'boolean':
+      return random.next() < 0.5
+    case 'date':
+      return isoDate(random)
+    case 'null':
+      return null
+    case 'nan':
+      return Number.NaN
+    case 'symbol':
+      return Symbol(random.pick(words))
+    case 'undefined':
+    case 'void':
+    case 'never':
+    case 'transform':
+    case 'custom':
+      return undefined
+    case 'any':
+    case 'unknown':
+      return random.pick(words)
+    case 'file':
+      return new File([random.pick(words)], `${random.pick(words)}.txt`)
+    case 'literal':
+      return random.pick(def.values)
+    case 'enum':
+      return random.pick(Object.values(def.entries))
+    case 'template_literal':
+      return def.parts
+        .map((part) =>
+          part && typeof part === 'object' && '_zod' in part
+            ? String(generate(part as z.core.$ZodType, context))
+            : String(part ?? ''),
+        )
+        .join('')
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(def.shape)) {
+        const item = generate(value as z.core.$ZodType, { ...nested, key })
+        if (item !== undefined) result[key] = item
+      }
+      return result
+    }
+    case 'array':
+      return Array.from({ length: arrayLength(schema._zod.bag, context) }, () =>
+        generate(def.element, { ...nested, hint }),
+      )
+    case 'set':
+      return new Set(
+        Array.from({ length: arrayLength(schema._zod.bag, context) }, () =>
+          generate(def.valueType, { ...nested, hint }),
+        ),
+      )
+    case 'tuple':
+      return def.items.map((item) => generate(item, nested))
+    case 'record':
+    case 'map': {
+      const keyDef = (def.keyType as z.core.$ZodTypes)._zod.def
+      // Records with enum keys need every key
+      const keys =
+        keyDef.type === 'enum'
+          ? Object.values(keyDef.entries)
+          : keyDef.type === 'literal'
+            ? keyDef.values
+            : Array.from({ length: context.depth >= maxDepth ? 0 : 2 }, () =>
+                generate(def.keyType, { ...nested, key: undefined }),
+              )
+      const entries = keys.map((key) => [
+        key,
+        generate(def.valueType, { ...nested, key: String(key) }),
+      ])
+      return def.type === 'map'
+        ? new Map(entries as Array<[unknown, unknown]>)
+        : Object.fromEntries(entries)
+    }
+    case 'union': {
+      // Prefer options that do not nest further once deep enough
+      const options =
+        context.depth >= maxDepth
+          ? def.options.filter(
+              (option) =>
+                !['object', 'array', 'lazy', 'record'].includes(
+                  (option as z.core.$ZodTypes)._zod.def.type,
+                ),
+            )
+          : []
+      return generate(
+        random.pick(options.length > 0 ? options : def.options),
+        context,
+      )
+    }
+    case 'intersection': {
+      const left = generate(def.left, context)
+      const right = generate(def.right, context)
+      return left && right && typeof left === 'object'
+        ? { ...left, ...(right as object) }
+        : right
+    }
+    case 'optional':
+      return context.depth > maxDepth
+        ? undefined
+        : generate(def.innerType, context)
+    case 'nullable':
+      return context.depth > maxDepth ? null : generate(def.innerType, context)
+    case 'default':
+    case 'prefault':
+    case 'catch':
+    case 'readonly':
+    case 'nonoptional':
+    case 'promise':
+      return generate(def.innerType, context)
+    case 'success':
+      return random.next() < 0.5
+    case 'lazy':
+      return generate(def.getter(), nested)
+    case 'pipe':
+      // Preprocessed schemas validate their output
+      return generate(
+        (def.in as z.core.$ZodTypes)._zod.def.type === 'transform'
+          ? def.out
+          : def.in,
+        context,
+      )
+    case 'function':
+      return () => undefined
+    default:
+      return undefined
+  }
+}
+
+/** @internal */
+export function getMockHint(schema: z.core.$ZodType): MockHint | undefined {
+  return z.globalRegistry.get(schema)?.mock
+}
+
+/**
+ * Adds a mock hint to a schema, like `.meta({ mock })` but with the value of
+ * the hint function checked against the schema. Returns a new schema.
+ *
+ * @example
+ * ```typescript
+ * const userModel = z.object({
+ *   name: mockHint(z.string(), 'person.fullName'),
+ *   plan: mockHint(z.string(), (random) => random.pick(['free', 'pro'])),
+ * })
+ * ```
+ */
+export function mockHint<Z extends z.ZodType>(
+  schema: Z,
+  hint: MockHint<z.input<Z>>,
+): Z {
+  // `meta` maps the types of function hints, which loses the generics of `Random`
+  return schema.meta({ ...schema.meta(), mock: hint as never }) as Z
+}
+
+/**
+ * Generates a value matching a Zod schema, used for endpoints without a mock.
+ * Strings and numbers get realistic values for common property names like
+ * `email`, `name` or `price`, within the checks of the schema, and mock hints
+ * set with `.meta({ mock })` take precedence. Regex patterns are not supported.
+ *
+ * @example
+ * ```typescript
+ * zodToMock(z.object({ id: z.uuid(), email: z.email() }), createRandom(42))
+ * ```
+ */
+export function zodToMock<Z extends z.ZodType>(
+  schema: Z,
+  random: Random = createRandom(),
+): z.infer<Z> {
+  return generate(schema, { random, depth: 0 }) as z.infer<Z>
+}
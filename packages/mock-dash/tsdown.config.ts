@@ -3,7 +3,12 @@ import { defineConfig } from 'tsdown'
 export default defineConfig([
   {
     name: 'mock-dash',
-    entry: 'src/index.ts',
+    entry: {
+      index: 'src/index.ts',
+      react: 'src/react/index.ts',
+      svelte: 'src/svelte/index.ts',
+      node: 'src/node/index.ts',
+    },
     format: ['cjs', 'esm'],
     dts: true,
     sourcemap: true,